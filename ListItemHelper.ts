@@ -438,6 +438,7 @@ class ListItemUpdater<T = any> {
 
 /**
  * Main utility class that provides static methods for both updating and extracting SharePoint list items
+ * @deprecated Use createListItemMapper from utilities/listItemHelper
  */
 export class ListItemHelper {
   private static logger = Logger.subscribe("ListItemHelper");
@@ -13,6 +13,7 @@ export interface TaxonomyFieldValue {
 
 /**
  * Enhanced utility for building SharePoint list item updates with validation and comparison
+ * @deprecated Use createListItemMapper from utilities/listItemHelper
  */
 export class ListItemUpdater {
   private updates: IListItemFormUpdateValue[] = [];
@@ -335,6 +336,7 @@ export class ListItemUpdater {
 
 /**
  * Factory function to create a new ListItemUpdater instance
+ * @deprecated Use createListItemMapper from utilities/listItemHelper
  */
 export function createUpdater(): ListItemUpdater {
   return new ListItemUpdater();
@@ -0,0 +1,73 @@
+<#
+.SYNOPSIS
+    Creates the hidden ItemPresence list used by SharePointPresenceStore
+
+.DESCRIPTION
+    Creates the list and its fields if they don't exist yet and indexes TargetListId and
+    Modified, which every presence poll and cleanup filters on. Safe to run again; existing
+    lists only get the missing indexes. Mirrors SharePointPresenceStore.ensureList().
+
+.PARAMETER SiteUrl
+    Site that hosts the request form
+
+.PARAMETER ListTitle
+    Title of the presence list (default: ItemPresence)
+
+.EXAMPLE
+    .\Initialize-ItemPresence.ps1 -SiteUrl "https://contoso.sharepoint.com/sites/legal"
+
+.NOTES
+    Requires: PnP.PowerShell module, Manage Lists permission on the site
+#>
+
+[CmdletBinding()]
+param(
+    [Parameter(Mandatory = $true)]
+    [string]$SiteUrl,
+
+    [Parameter(Mandatory = $false)]
+    [string]$ListTitle = "ItemPresence",
+
+    [Parameter(Mandatory = $false)]
+    [string]$ClientId = "970bb320-0d49-4b4a-aa8f-c3f4b1e5928f"
+)
+
+$ErrorActionPreference = "Stop"
+
+if (-not (Get-Module -ListAvailable -Name "PnP.PowerShell")) {
+    Write-Error "PnP.PowerShell module not installed. Run: Install-Module PnP.PowerShell"
+    exit 1
+}
+
+Connect-PnPOnline -Url $SiteUrl -Interactive -ClientId $ClientId
+
+$list = Get-PnPList -Identity $ListTitle -ErrorAction SilentlyContinue
+if (-not $list) {
+    Write-Host "Creating list '$ListTitle'" -ForegroundColor Cyan
+    $list = New-PnPList -Title $ListTitle -Template GenericList -Hidden
+    Set-PnPList -Identity $ListTitle -Description "Who has list items open (presence heartbeats)" | Out-Null
+}
+
+$fields = @(
+    @{ Name = "TargetListId"; Type = "Text" },
+    @{ Name = "TargetItemId"; Type = "Number" },
+    @{ Name = "UserEmail"; Type = "Text" },
+    @{ Name = "UserTitle"; Type = "Text" },
+    @{ Name = "PresenceState"; Type = "Text" },
+    @{ Name = "PresenceSection"; Type = "Text" }
+)
+
+foreach ($field in $fields) {
+    if (-not (Get-PnPField -List $ListTitle -Identity $field.Name -ErrorAction SilentlyContinue)) {
+        Write-Host "Adding field '$($field.Name)'" -ForegroundColor Cyan
+        Add-PnPField -List $ListTitle -DisplayName $field.Name -InternalName $field.Name -Type $field.Type | Out-Null
+    }
+}
+
+# Polls and cleanup filter on these; unindexed they fail past the 5,000 item list view threshold
+foreach ($indexed in @("TargetListId", "Modified")) {
+    Set-PnPField -List $ListTitle -Identity $indexed -Values @{ Indexed = $true } | Out-Null
+    Write-Host "Indexed '$indexed'" -ForegroundColor Green
+}
+
+Write-Host "List '$ListTitle' is ready. Give form users Contribute access to it." -ForegroundColor Green
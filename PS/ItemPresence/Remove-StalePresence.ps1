@@ -0,0 +1,91 @@
+<#
+.SYNOPSIS
+    Deletes presence sessions that stopped sending heartbeats
+
+.DESCRIPTION
+    Tabs that close normally delete their own session item; crashed browsers and lost
+    connections leave theirs behind. Run this on a schedule (Task Scheduler, Azure Automation)
+    so the ItemPresence list stays small. Same cutoff logic as
+    SharePointPresenceStore.removeStale().
+
+.PARAMETER SiteUrl
+    Site that hosts the request form
+
+.PARAMETER ListTitle
+    Title of the presence list (default: ItemPresence)
+
+.PARAMETER OlderThanHours
+    Delete sessions whose last heartbeat is older than this (default: 24)
+
+.PARAMETER DryRun
+    Only report how many sessions would be deleted
+
+.EXAMPLE
+    .\Remove-StalePresence.ps1 -SiteUrl "https://contoso.sharepoint.com/sites/legal" -OlderThanHours 12
+
+.NOTES
+    Requires: PnP.PowerShell module, Initialize-ItemPresence.ps1 run first (Modified must be
+    indexed for the query to work past 5,000 items)
+#>
+
+[CmdletBinding()]
+param(
+    [Parameter(Mandatory = $true)]
+    [string]$SiteUrl,
+
+    [Parameter(Mandatory = $false)]
+    [string]$ListTitle = "ItemPresence",
+
+    [Parameter(Mandatory = $false)]
+    [int]$OlderThanHours = 24,
+
+    [Parameter(Mandatory = $false)]
+    [switch]$DryRun = $false,
+
+    [Parameter(Mandatory = $false)]
+    [string]$ClientId = "970bb320-0d49-4b4a-aa8f-c3f4b1e5928f"
+)
+
+$ErrorActionPreference = "Stop"
+
+if (-not (Get-Module -ListAvailable -Name "PnP.PowerShell")) {
+    Write-Error "PnP.PowerShell module not installed. Run: Install-Module PnP.PowerShell"
+    exit 1
+}
+
+Connect-PnPOnline -Url $SiteUrl -Interactive -ClientId $ClientId
+
+$cutoff = (Get-Date).ToUniversalTime().AddHours(-$OlderThanHours).ToString("yyyy-MM-ddTHH:mm:ssZ")
+$query = @"
+<View>
+  <Query><Where><Lt><FieldRef Name='Modified' /><Value Type='DateTime' IncludeTimeValue='TRUE' StorageTZ='TRUE'>$cutoff</Value></Lt></Where></Query>
+  <ViewFields><FieldRef Name='ID' /></ViewFields>
+  <RowLimit>500</RowLimit>
+</View>
+"@
+
+$removed = 0
+while ($true) {
+    $items = @(Get-PnPListItem -List $ListTitle -Query $query)
+    if ($items.Count -eq 0) {
+        break
+    }
+
+    if ($DryRun) {
+        $removed += $items.Count
+        break
+    }
+
+    $batch = New-PnPBatch
+    foreach ($item in $items) {
+        Remove-PnPListItem -List $ListTitle -Identity $item.Id -Batch $batch
+    }
+    Invoke-PnPBatch -Batch $batch
+    $removed += $items.Count
+}
+
+if ($DryRun) {
+    Write-Host "[DRY RUN] At least $removed stale session(s) older than $cutoff" -ForegroundColor Yellow
+} else {
+    Write-Host "Removed $removed stale session(s) older than $cutoff" -ForegroundColor Green
+}
@@ -388,6 +388,10 @@ export interface CardController {
   persistStates(): void;
   restoreStates(): void;
   clearStoredStates(): void;
+  connectChangeNotifications(
+    notifier: CardChangeNotifier,
+    isRelevant?: (change: CardItemChange) => boolean
+  ): () => void;
 
   // Subscriptions
   subscribe(cardId: string, callback: (action: string, data?: unknown) => void): () => void;
@@ -408,6 +412,19 @@ export interface CardController {
   updateCardState(id: string, state: Partial<CardState>): void;
 }
 
+// Item save announced by another tab
+export interface CardItemChange {
+  listId?: string;
+  listTitle?: string;
+  itemId: number;
+  savedBy?: string;
+}
+
+// Source of saves made in other tabs, e.g. SPFxContext.crossTab
+export interface CardChangeNotifier {
+  onItemSaved(listener: (change: CardItemChange) => void): () => void;
+}
+
 // ==================== Storage Types ====================
 
 export interface StorageConfig {
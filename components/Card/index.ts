@@ -110,12 +110,14 @@ import type {
   ActionButtonsProps,
   AnimationConfig,
   CardAction,
+  CardChangeNotifier,
   CardContextType,
   CardController,
   CardControllerHook,
   CardError,
   CardEventData,
   CardEventType,
+  CardItemChange,
   CardProps,
   CardRegistration,
   CardSize,
@@ -241,12 +243,14 @@ export { Card, CardContext, SafeCard, useCardContext };
     ActionButtonsProps,
     AnimationConfig,
     CardAction,
+    CardChangeNotifier,
     CardContextType,
     CardController,
     CardControllerHook,
     CardError,
     CardEventData,
     CardEventType,
+    CardItemChange,
     CardProps,
     CardRegistration, // Still available for header usage
     CardSize,
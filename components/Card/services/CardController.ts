@@ -1,6 +1,8 @@
 import {
+  CardChangeNotifier,
   CardError,
   CardEventData,
+  CardItemChange,
   CardRegistration,
   CardState,
   CardController as ICardController,
@@ -551,6 +553,30 @@ export class CardControllerService implements ICardController {
     });
   }
 
+  /**
+   * Keep persisted states in step with saves made in other tabs (e.g. SPFxContext.crossTab).
+   * On a relevant save every card's content is marked stale, so lazy cards load it again, and
+   * subscribers receive an 'itemSaved' action with the change to reload their data.
+   * @param isRelevant - Filter for the saves this page shows, e.g. the open item
+   * @returns Function that disconnects
+   */
+  public connectChangeNotifications(
+    notifier: CardChangeNotifier,
+    isRelevant: (change: CardItemChange) => boolean = () => true
+  ): () => void {
+    return notifier.onItemSaved(change => {
+      if (!isRelevant(change)) {
+        return;
+      }
+
+      this.cards.forEach((card, id) => {
+        card.hasContentLoaded = false;
+        this.notifySubscribers(id, 'itemSaved', change);
+      });
+      this.persistStates();
+    });
+  }
+
   /**
    * Clear stored card states
    */
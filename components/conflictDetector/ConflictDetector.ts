@@ -9,7 +9,10 @@ import {
   DEFAULT_CONFLICT_OPTIONS,
   ConflictDetectionError,
   CONFLICT_DETECTION_CONSTANTS,
+  FieldMergeResult,
 } from './types';
+import { ListChangeFeed } from './ListChangeFeed';
+import { computeThreeWayMerge } from './threeWayMerge';
 
 export class ConflictDetector {
   private readonly listId: string;
@@ -19,6 +22,8 @@ export class ConflictDetector {
   private pollingInterval: number | undefined = undefined;
   private isPollingPaused = false;
   private isDisposed = false;
+  private unsubscribeChanges: (() => void) | undefined = undefined;
+  private unsubscribeFeed: (() => void) | undefined = undefined;
   private readonly sp: SPFI;
 
   constructor(
@@ -70,10 +75,12 @@ export class ConflictDetector {
       this.originalSnapshot = currentItem.conflictInfo;
 
       // Start polling if enabled
-      if (this.options.checkInterval && this.options.checkInterval > 0) {
+      if (this.isWatchEnabled()) {
         this.startPolling();
       }
 
+      this.subscribeToChangeNotifications();
+
       if (this.options.logConflicts) {
         console.log('ConflictDetector initialized with snapshot:', this.originalSnapshot);
       }
@@ -219,7 +226,11 @@ export class ConflictDetector {
       let result: ConflictDetectionResult;
 
       // Use save response data if provided (optimistic update)
-      if (saveResponseData && this.isValidSaveResponse(saveResponseData)) {
+      if (
+        saveResponseData &&
+        this.isValidSaveResponse(saveResponseData) &&
+        this.hasMergeFieldValues(saveResponseData)
+      ) {
         const conflictInfo = this.convertItemToConflictInfo(saveResponseData as SharePointListItem);
         this.originalSnapshot = conflictInfo;
         result = {
@@ -258,6 +269,50 @@ export class ConflictDetector {
     }
   }
 
+  /**
+   * Three-way merge of the merge fields: values at load (base), the form's values (mine)
+   * and the saved item's values (theirs)
+   * @param mine - Current form values keyed by merge field
+   */
+  public async computeMerge(mine: Record<string, unknown>): Promise<FieldMergeResult> {
+    if (this.isDisposed) {
+      throw new ConflictDetectionError('ConflictDetector has been disposed', 'DETECTOR_DISPOSED');
+    }
+
+    const mergeFields = this.options.mergeFields || [];
+    if (!mergeFields.length) {
+      throw new ConflictDetectionError('No merge fields configured', 'NO_MERGE_FIELDS');
+    }
+    if (!this.originalSnapshot?.fieldValues) {
+      throw new ConflictDetectionError(
+        'ConflictDetector not initialized. Call initialize() first.',
+        'NOT_INITIALIZED'
+      );
+    }
+
+    const currentItem = await this.getCurrentItemInfo();
+    if (!currentItem.success || !currentItem.conflictInfo) {
+      throw new ConflictDetectionError(
+        currentItem.error || 'Failed to get current item info',
+        'MERGE_FAILED'
+      );
+    }
+
+    const result = computeThreeWayMerge(
+      this.originalSnapshot.fieldValues,
+      mine,
+      currentItem.conflictInfo.fieldValues || {},
+      mergeFields,
+      currentItem.conflictInfo.currentVersion
+    );
+
+    if (this.options.logConflicts) {
+      console.log('Merge computed:', result);
+    }
+
+    return result;
+  }
+
   /**
    * Start polling for conflicts
    */
@@ -266,6 +321,11 @@ export class ConflictDetector {
       throw new ConflictDetectionError('ConflictDetector has been disposed', 'DETECTOR_DISPOSED');
     }
 
+    if (this.options.changeFeed) {
+      this.startChangeFeed();
+      return;
+    }
+
     if (!this.options.checkInterval || this.pollingInterval) {
       return;
     }
@@ -297,6 +357,16 @@ export class ConflictDetector {
    * Stop polling
    */
   public stopPolling(): void {
+    if (this.unsubscribeFeed) {
+      this.unsubscribeFeed();
+      this.unsubscribeFeed = undefined;
+      this.isPollingPaused = false;
+
+      if (this.options.logConflicts && !this.isDisposed) {
+        console.log('Stopped watching the list change feed');
+      }
+    }
+
     if (this.pollingInterval) {
       clearInterval(this.pollingInterval);
       this.pollingInterval = undefined;
@@ -312,7 +382,7 @@ export class ConflictDetector {
    * Pause polling temporarily
    */
   public pausePolling(): void {
-    if (this.pollingInterval && !this.isPollingPaused) {
+    if ((this.pollingInterval || this.unsubscribeFeed) && !this.isPollingPaused) {
       this.isPollingPaused = true;
 
       if (this.options.logConflicts) {
@@ -325,7 +395,7 @@ export class ConflictDetector {
    * Resume polling
    */
   public resumePolling(): void {
-    if (this.pollingInterval && this.isPollingPaused) {
+    if ((this.pollingInterval || this.unsubscribeFeed) && this.isPollingPaused) {
       this.isPollingPaused = false;
 
       if (this.options.logConflicts) {
@@ -338,7 +408,10 @@ export class ConflictDetector {
    * Check if polling is currently active
    */
   public isPollingActive(): boolean {
-    return this.pollingInterval !== undefined && !this.isPollingPaused;
+    return (
+      (this.pollingInterval !== undefined || this.unsubscribeFeed !== undefined) &&
+      !this.isPollingPaused
+    );
   }
 
   /**
@@ -350,6 +423,8 @@ export class ConflictDetector {
     }
 
     this.stopPolling();
+    this.unsubscribeChanges?.();
+    this.unsubscribeChanges = undefined;
     this.originalSnapshot = undefined;
     this.isDisposed = true;
 
@@ -374,14 +449,15 @@ export class ConflictDetector {
     }
 
     const oldInterval = this.options.checkInterval;
+    const oldChangeFeed = !!this.options.changeFeed;
     this.options = { ...this.options, ...newOptions };
 
     this.validateOptions();
 
-    // Handle polling interval changes
-    if (oldInterval !== this.options.checkInterval) {
+    // Handle polling interval and change feed changes
+    if (oldInterval !== this.options.checkInterval || oldChangeFeed !== !!this.options.changeFeed) {
       this.stopPolling();
-      if (this.options.checkInterval && this.options.checkInterval > 0) {
+      if (this.isWatchEnabled()) {
         this.startPolling();
       }
     }
@@ -391,16 +467,85 @@ export class ConflictDetector {
     }
   }
 
+  /**
+   * Whether polling or the change feed is configured
+   */
+  private isWatchEnabled(): boolean {
+    const { checkInterval, changeFeed } = this.options;
+    return (!!checkInterval && checkInterval > 0) || !!changeFeed;
+  }
+
+  /**
+   * Watch the list's shared change feed instead of polling the item
+   */
+  private startChangeFeed(): void {
+    if (this.unsubscribeFeed) {
+      return;
+    }
+
+    const feedOptions = typeof this.options.changeFeed === 'object' ? this.options.changeFeed : {};
+    const feed = ListChangeFeed.forList(this.sp, this.listId, feedOptions);
+
+    this.isPollingPaused = false;
+    this.unsubscribeFeed = feed.onItemSaved(change => {
+      if (this.isPollingPaused || this.isDisposed || change.itemId !== this.itemId) {
+        return;
+      }
+
+      this.checkForConflicts().catch(error => {
+        console.error('Conflict check after list change failed:', error);
+      });
+    });
+
+    if (this.options.logConflicts) {
+      console.log(`Watching the change feed of list ${this.listId}`);
+    }
+  }
+
+  private subscribeToChangeNotifications(): void {
+    const notifier = this.options.changeNotifications;
+    if (!notifier || this.unsubscribeChanges) {
+      return;
+    }
+
+    this.unsubscribeChanges = notifier.onItemSaved(change => {
+      if (this.isDisposed || change.itemId !== this.itemId || !this.isSameList(change)) {
+        return;
+      }
+
+      if (this.options.logConflicts) {
+        console.log(`Item saved in another tab by ${change.savedBy || 'unknown'}, checking now`);
+      }
+
+      this.checkForConflicts().catch(error => {
+        console.warn('Conflict check after remote save failed:', error);
+      });
+    });
+  }
+
+  private isSameList(change: { listId?: string; listTitle?: string }): boolean {
+    const normalize = (value: string) => value.toLowerCase().replace(/^\{|\}$/g, '');
+    const listId = normalize(this.listId);
+    return [change.listId, change.listTitle].some(value => !!value && normalize(value) === listId);
+  }
+
   /**
    * Get current item information from SharePoint
    */
   private async getCurrentItemInfo(): Promise<ConflictDetectionResult> {
     try {
+      const mergeFields = this.options.mergeFields || [];
+      // 'Attorney/Title' needs Attorney expanded
+      const expands = mergeFields
+        .filter(field => field.indexOf('/') > 0)
+        .map(field => field.split('/')[0])
+        .filter(field => field !== 'Editor');
+
       const item: SharePointListItem = await this.sp.web.lists
         .getById(this.listId)
         .items.getById(this.itemId)
-        .select('Id', 'Modified', 'Editor/Title', 'Editor/Email')
-        .expand('Editor')();
+        .select('Id', 'Modified', 'Editor/Title', 'Editor/Email', ...mergeFields)
+        .expand('Editor', ...expands)();
 
       const conflictInfo = this.convertItemToConflictInfo(item);
 
@@ -449,9 +594,33 @@ export class ConflictDetector {
       originalModified: new Date(item.Modified),
       itemId: this.itemId,
       listId: this.listId,
+      fieldValues: this.readMergeFieldValues(item),
     };
   }
 
+  /**
+   * Read the merge fields from an item ('Attorney/Title' reads item.Attorney.Title)
+   */
+  private readMergeFieldValues(item: SharePointListItem): Record<string, unknown> | undefined {
+    const mergeFields = this.options.mergeFields;
+    if (!mergeFields?.length) {
+      return undefined;
+    }
+
+    const values: Record<string, unknown> = {};
+    mergeFields.forEach(field => {
+      values[field] = field.split('/').reduce<any>((value, key) => value?.[key], item);
+    });
+    return values;
+  }
+
+  /**
+   * Save responses can only replace the snapshot when they include every merge field
+   */
+  private hasMergeFieldValues(data: Partial<SharePointListItem>): boolean {
+    return (this.options.mergeFields || []).every(field => field.split('/')[0] in data);
+  }
+
   /**
    * Validate save response data for optimistic updates
    */
@@ -1,4 +1,5 @@
 import {
+  ChoiceGroup,
   DefaultButton,
   Dialog,
   DialogFooter,
@@ -15,7 +16,14 @@ import {
 } from '@fluentui/react';
 import * as React from 'react';
 import { useCallback, useEffect, useMemo, useState } from 'react';
-import { ConflictInfo, ConflictResolutionAction } from './types';
+import { resolveMerge } from './threeWayMerge';
+import {
+  ConflictInfo,
+  ConflictResolutionAction,
+  FieldMergeChoice,
+  FieldMergeResult,
+  ResolvedMerge,
+} from './types';
 
 interface ConflictResolutionDialogProps {
   isOpen: boolean;
@@ -26,12 +34,36 @@ interface ConflictResolutionDialogProps {
   showOverwriteOption?: boolean;
   showRefreshOption?: boolean;
   showCancelOption?: boolean;
+  // Offered when mergeResult is provided
+  showMergeOption?: boolean;
+  // Result of computeMerge; enables the merge action
+  mergeResult?: FieldMergeResult;
+  // Display names of the merge fields
+  fieldLabels?: Record<string, string>;
+  formatFieldValue?: (field: string, value: unknown) => string;
   blockingMode?: boolean;
   maxWidth?: string;
   onResolve: (action: ConflictResolutionAction) => void | Promise<void>;
   onDismiss: () => void;
 }
 
+const defaultFormatFieldValue = (field: string, value: unknown): string => {
+  if (value === undefined || value === null || value === '') {
+    return '(empty)';
+  }
+  if (value instanceof Date) {
+    return value.toLocaleString();
+  }
+  if (Array.isArray(value)) {
+    return value.map(entry => defaultFormatFieldValue(field, entry)).join(', ');
+  }
+  if (typeof value === 'object') {
+    const { Title, title } = value as { Title?: string; title?: string };
+    return Title || title || JSON.stringify(value);
+  }
+  return String(value);
+};
+
 export const ConflictResolutionDialog: React.FC<ConflictResolutionDialogProps> = ({
   isOpen,
   conflictInfo,
@@ -41,6 +73,10 @@ export const ConflictResolutionDialog: React.FC<ConflictResolutionDialogProps> =
   showOverwriteOption = true,
   showRefreshOption = true,
   showCancelOption = true,
+  showMergeOption = true,
+  mergeResult,
+  fieldLabels = {},
+  formatFieldValue = defaultFormatFieldValue,
   blockingMode = false,
   maxWidth = '600px',
   onResolve,
@@ -52,15 +88,22 @@ export const ConflictResolutionDialog: React.FC<ConflictResolutionDialogProps> =
   const [processingAction, setProcessingAction] = useState<
     ConflictResolutionAction['type'] | undefined
   >(undefined);
+  const [mergeChoices, setMergeChoices] = useState<Record<string, FieldMergeChoice>>({});
 
   // Reset selected action when dialog opens/closes
   useEffect(() => {
     if (!isOpen) {
       setSelectedAction(undefined);
       setProcessingAction(undefined);
+      setMergeChoices({});
     }
   }, [isOpen]);
 
+  const canMerge = showMergeOption && !!mergeResult;
+  const unresolvedConflicts = mergeResult
+    ? mergeResult.conflicts.filter(entry => !mergeChoices[entry.field]).length
+    : 0;
+
   // Don't render if no conflict info
   if (!conflictInfo?.hasConflict) {
     return null;
@@ -96,13 +139,25 @@ export const ConflictResolutionDialog: React.FC<ConflictResolutionDialogProps> =
         case 'cancel':
           message = 'User cancelled the operation';
           break;
+        case 'merge':
+          message = 'User chose to merge their changes with the saved changes';
+          break;
         default:
           message = `User selected action: ${actionType}`;
       }
 
+      let mergedChanges: ResolvedMerge | undefined;
+      if (actionType === 'merge') {
+        if (!mergeResult) {
+          return;
+        }
+        mergedChanges = resolveMerge(mergeResult, mergeChoices);
+      }
+
       const action: ConflictResolutionAction = {
         type: actionType,
         message,
+        mergedChanges,
       };
 
       setSelectedAction(actionType);
@@ -116,7 +171,7 @@ export const ConflictResolutionDialog: React.FC<ConflictResolutionDialogProps> =
         setProcessingAction(undefined);
       }
     },
-    [onResolve]
+    [onResolve, mergeResult, mergeChoices]
   );
 
   const handleDismiss = useCallback(() => {
@@ -133,13 +188,18 @@ export const ConflictResolutionDialog: React.FC<ConflictResolutionDialogProps> =
     }
 
     try {
+      if (canMerge) {
+        return `This record has been modified by another user while you were editing it.
+        You can merge your changes with theirs, refresh to see the latest changes, or continue
+        to overwrite them with your changes.`;
+      }
       return `This record has been modified by another user while you were editing it.
         You can refresh to see the latest changes, or continue to overwrite them with your changes.`;
     } catch (error) {
       console.error('Error creating dialog message:', error);
       return 'This record has been modified by another user while you were editing it.';
     }
-  }, [customMessage]);
+  }, [customMessage, canMerge]);
 
   const dialogContentProps = useMemo(
     () => ({
@@ -192,6 +252,72 @@ export const ConflictResolutionDialog: React.FC<ConflictResolutionDialogProps> =
     );
   }, [conflictInfo, formatDateTime]);
 
+  const mergeDetails = useMemo(() => {
+    if (!canMerge || !mergeResult) return undefined;
+
+    const otherUser = conflictInfo?.lastModifiedBy || 'Other user';
+    const mineCount = mergeResult.fields.filter(entry => entry.status === 'mine').length;
+    const theirsCount = mergeResult.fields.filter(entry => entry.status === 'theirs').length;
+    const getLabel = (field: string): string => fieldLabels[field] || field;
+
+    return (
+      <Stack tokens={{ childrenGap: 12 }}>
+        <Text variant='mediumPlus' styles={{ root: { fontWeight: 600 } }}>
+          Merge Changes:
+        </Text>
+
+        <Text variant='small'>
+          {mineCount} of your change{mineCount === 1 ? '' : 's'} and {theirsCount} change
+          {theirsCount === 1 ? '' : 's'} by {otherUser} will be merged automatically.
+        </Text>
+
+        {mergeResult.hasConflicts && (
+          <Stack tokens={{ childrenGap: 12 }}>
+            <Text variant='small'>Both of you changed these fields. Choose the value to keep:</Text>
+
+            {mergeResult.conflicts.map(entry => (
+              <ChoiceGroup
+                key={entry.field}
+                label={getLabel(entry.field)}
+                selectedKey={mergeChoices[entry.field]}
+                disabled={isProcessing || processingAction !== undefined}
+                options={[
+                  {
+                    key: 'mine',
+                    text: `Yours: ${formatFieldValue(entry.field, entry.mine)}`,
+                  },
+                  {
+                    key: 'theirs',
+                    text: `${otherUser}: ${formatFieldValue(entry.field, entry.theirs)}`,
+                  },
+                ]}
+                onChange={(_, option) =>
+                  option &&
+                  setMergeChoices(prev => ({
+                    ...prev,
+                    [entry.field]: option.key as FieldMergeChoice,
+                  }))
+                }
+                styles={{
+                  flexContainer: { display: 'flex', flexWrap: 'wrap', columnGap: '24px' },
+                }}
+              />
+            ))}
+          </Stack>
+        )}
+      </Stack>
+    );
+  }, [
+    canMerge,
+    mergeResult,
+    mergeChoices,
+    conflictInfo?.lastModifiedBy,
+    fieldLabels,
+    formatFieldValue,
+    isProcessing,
+    processingAction,
+  ]);
+
   const processingIndicator = useMemo(() => {
     if (!isProcessing && !processingAction) return undefined;
 
@@ -225,17 +351,31 @@ export const ConflictResolutionDialog: React.FC<ConflictResolutionDialogProps> =
   const actionButtons = useMemo(() => {
     const isButtonDisabled = isProcessing || processingAction !== undefined;
 
+    // Merge is the primary action when offered
+    const RefreshButton = canMerge ? DefaultButton : PrimaryButton;
+
     return (
       <Stack horizontal tokens={{ childrenGap: 8 }}>
+        {/* Merge button */}
+        {canMerge && (
+          <PrimaryButton
+            onClick={() => handleResolve('merge')}
+            disabled={isButtonDisabled || unresolvedConflicts > 0}
+            iconProps={{ iconName: 'BranchMerge' }}
+          >
+            Merge Changes
+          </PrimaryButton>
+        )}
+
         {/* Refresh button */}
         {showRefreshOption && (
-          <PrimaryButton
+          <RefreshButton
             onClick={() => handleResolve('refresh')}
             disabled={isButtonDisabled}
             iconProps={{ iconName: 'Refresh' }}
           >
             Refresh & Reload
-          </PrimaryButton>
+          </RefreshButton>
         )}
 
         {/* Overwrite button */}
@@ -267,6 +407,8 @@ export const ConflictResolutionDialog: React.FC<ConflictResolutionDialogProps> =
       </Stack>
     );
   }, [
+    canMerge,
+    unresolvedConflicts,
     showRefreshOption,
     showOverwriteOption,
     showCancelOption,
@@ -308,6 +450,9 @@ export const ConflictResolutionDialog: React.FC<ConflictResolutionDialogProps> =
         {/* Conflict details */}
         {conflictDetails}
 
+        {/* Field-level merge */}
+        {mergeDetails}
+
         {/* Processing indicator */}
         {processingIndicator}
 
@@ -476,8 +621,10 @@ interface ConflictHandlerProps {
   showDialog?: boolean;
   showNotification?: boolean;
   dialogProps?: Partial<ConflictResolutionDialogProps>;
+  mergeResult?: FieldMergeResult;
   onRefresh?: () => void | Promise<void>;
   onOverwrite?: () => void | Promise<void>;
+  onMerge?: (merge: ResolvedMerge) => void | Promise<void>;
   onDismiss?: () => void;
   onAction?: (action: ConflictResolutionAction) => void | Promise<void>;
 }
@@ -489,8 +636,10 @@ export const ConflictHandler: React.FC<ConflictHandlerProps> = ({
   showDialog = false,
   showNotification = true,
   dialogProps = {},
+  mergeResult,
   onRefresh,
   onOverwrite,
+  onMerge,
   onDismiss,
   onAction,
 }) => {
@@ -529,6 +678,11 @@ export const ConflictHandler: React.FC<ConflictHandlerProps> = ({
               onDismiss();
             }
             break;
+          case 'merge':
+            if (onMerge && action.mergedChanges) {
+              await onMerge(action.mergedChanges);
+            }
+            break;
         }
       } catch (error) {
         console.error('Error handling conflict action:', error);
@@ -539,7 +693,7 @@ export const ConflictHandler: React.FC<ConflictHandlerProps> = ({
         }
       }
     },
-    [onAction, onRefresh, onOverwrite, onDismiss, setProcessing, showDialog, closeDialog]
+    [onAction, onRefresh, onOverwrite, onMerge, onDismiss, setProcessing, showDialog, closeDialog]
   );
 
   // Only import the notification component when needed to avoid circular dependencies
@@ -569,6 +723,7 @@ export const ConflictHandler: React.FC<ConflictHandlerProps> = ({
       {/* Resolution Dialog */}
       {showDialog && (
         <ConflictResolutionDialog
+          mergeResult={mergeResult}
           {...dialogProps}
           isOpen={isOpen}
           conflictInfo={conflictInfo}
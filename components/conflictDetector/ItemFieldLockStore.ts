@@ -0,0 +1,111 @@
+import { SPFI } from '@pnp/sp';
+import '@pnp/sp/items';
+import { IItem } from '@pnp/sp/items';
+import '@pnp/sp/lists';
+import '@pnp/sp/webs';
+import {
+  CaptureServerTime,
+  isPreconditionFailed,
+  parseJson,
+  parseLease,
+  readEtag,
+  serializeLease,
+} from './sectionLeaseStorage';
+import {
+  CONFLICT_DETECTION_CONSTANTS,
+  SectionLease,
+  SectionLockStore,
+  StoredSectionLease,
+} from './types';
+
+/**
+ * Keeps the leases of all sections as JSON in a multiline text field of the item itself and
+ * writes them with the item's ETag.
+ *
+ * Every lock change is an item update: it adds a version, changes the ETag and shows up in
+ * conflict detection. Use ListLockStore when that matters.
+ */
+export class ItemFieldLockStore implements SectionLockStore {
+  private readonly sp: SPFI;
+  private readonly listId: string;
+  private readonly itemId: number;
+  private readonly fieldName: string;
+  // The whole map is written back, so keep what the last read saw
+  private lastRead: { version: string | undefined; leases: Record<string, unknown> } | undefined =
+    undefined;
+
+  constructor(
+    sp: SPFI,
+    listId: string,
+    itemId: number,
+    fieldName: string = CONFLICT_DETECTION_CONSTANTS.DEFAULT_LOCK_FIELD
+  ) {
+    this.sp = sp;
+    this.listId = listId;
+    this.itemId = itemId;
+    this.fieldName = fieldName;
+  }
+
+  public async read(section: string): Promise<StoredSectionLease> {
+    let serverTime: Date | undefined;
+    const { version, leases } = await this.readLeases(time => (serverTime = time));
+    return { lease: parseLease(leases[section]), version, serverTime };
+  }
+
+  public async write(
+    section: string,
+    lease: SectionLease | undefined,
+    version: string | undefined
+  ): Promise<boolean> {
+    const current =
+      this.lastRead && this.lastRead.version === version ? this.lastRead : await this.readLeases();
+    if (current.version !== version) {
+      return false;
+    }
+
+    const leases = { ...current.leases };
+    if (lease) {
+      leases[section] = serializeLease(lease);
+    } else {
+      delete leases[section];
+    }
+
+    try {
+      // Without an ETag the write can't be checked; only hosts that omit ETags end up here
+      await this.getItem().update(
+        { [this.fieldName]: Object.keys(leases).length ? JSON.stringify(leases) : null },
+        version || '*'
+      );
+      this.lastRead = undefined;
+      return true;
+    } catch (error) {
+      if (isPreconditionFailed(error)) {
+        this.lastRead = undefined;
+        return false;
+      }
+      throw error;
+    }
+  }
+
+  private async readLeases(
+    onServerTime: (serverTime: Date) => void = () => undefined
+  ): Promise<{
+    version: string | undefined;
+    leases: Record<string, unknown>;
+  }> {
+    const item = await this.getItem()
+      .select('Id', this.fieldName)
+      .using(CaptureServerTime(onServerTime))();
+    const parsed = parseJson(item[this.fieldName]);
+
+    this.lastRead = {
+      version: readEtag(item),
+      leases: parsed && typeof parsed === 'object' ? (parsed as Record<string, unknown>) : {},
+    };
+    return this.lastRead;
+  }
+
+  private getItem(): IItem {
+    return this.sp.web.lists.getById(this.listId).items.getById(this.itemId);
+  }
+}
@@ -0,0 +1,244 @@
+import { SPFI } from '@pnp/sp';
+import '@pnp/sp/lists';
+import '@pnp/sp/webs';
+import {
+  CONFLICT_DETECTION_CONSTANTS,
+  ItemChangeNotification,
+  ItemChangeNotifier,
+  ListChangeFeedOptions,
+} from './types';
+
+type ChangeListener = (change: ItemChangeNotification) => void;
+
+interface SharePointChange {
+  ItemId?: number;
+  ChangeToken?: { StringValue: string };
+}
+
+const normalizeListId = (listId: string): string =>
+  listId.trim().toLowerCase().replace(/^\{|\}$/g, '');
+
+// One feed per list, shared by every subscriber on the page
+const feeds = new Map<string, ListChangeFeed>();
+
+/**
+ * Polls a list's GetChanges with a change token and notifies subscribers of changed items.
+ * One request per list replaces one request per watched item.
+ */
+export class ListChangeFeed implements ItemChangeNotifier {
+  private readonly sp: SPFI;
+  private readonly listId: string;
+  private readonly options: ListChangeFeedOptions;
+  private listeners: ChangeListener[] = [];
+  private changeToken: string | undefined = undefined;
+  private timer: number | undefined = undefined;
+  private isFetching = false;
+  private isRefreshQueued = false;
+  private errorCount = 0;
+  private disconnectRelay: (() => void) | undefined = undefined;
+
+  /**
+   * Get the shared feed of a list; the options of the first caller apply until the last
+   * subscriber leaves
+   */
+  public static forList(
+    sp: SPFI,
+    listId: string,
+    options: ListChangeFeedOptions = {}
+  ): ListChangeFeed {
+    const key = normalizeListId(listId);
+    let feed = feeds.get(key);
+    if (!feed) {
+      feed = new ListChangeFeed(sp, listId, options);
+      feeds.set(key, feed);
+    }
+    return feed;
+  }
+
+  constructor(sp: SPFI, listId: string, options: ListChangeFeedOptions = {}) {
+    this.sp = sp;
+    this.listId = listId.trim();
+    this.options = options;
+  }
+
+  /**
+   * Subscribe to changed items; the feed runs while it has subscribers
+   */
+  public onItemSaved(listener: ChangeListener): () => void {
+    this.listeners.push(listener);
+    if (this.listeners.length === 1) {
+      this.start();
+    }
+
+    return () => {
+      const index = this.listeners.indexOf(listener);
+      if (index < 0) {
+        return;
+      }
+      this.listeners.splice(index, 1);
+      if (!this.listeners.length) {
+        this.stop();
+      }
+    };
+  }
+
+  /**
+   * Fetch changes now instead of waiting for the next interval
+   */
+  public async refresh(): Promise<void> {
+    if (!this.listeners.length) {
+      return;
+    }
+    if (this.isFetching) {
+      // e.g. a relay notification during a scheduled call
+      this.isRefreshQueued = true;
+      return;
+    }
+
+    this.isFetching = true;
+    try {
+      await this.fetchChanges();
+      this.errorCount = 0;
+    } catch (error) {
+      this.errorCount++;
+      console.warn(`List change feed for ${this.listId} failed:`, error);
+    } finally {
+      this.isFetching = false;
+      this.schedule(this.isRefreshQueued ? 0 : this.getInterval());
+      this.isRefreshQueued = false;
+    }
+  }
+
+  public get subscriberCount(): number {
+    return this.listeners.length;
+  }
+
+  private start(): void {
+    if (typeof document !== 'undefined') {
+      document.addEventListener('visibilitychange', this.handleVisibilityChange);
+    }
+
+    if (this.options.relay) {
+      try {
+        this.disconnectRelay = this.options.relay.connect(this.listId, () => {
+          this.refresh().catch(() => undefined);
+        });
+      } catch (error) {
+        console.warn('Change feed relay failed to connect, polling instead:', error);
+        this.disconnectRelay = undefined;
+      }
+    }
+
+    // The first call only reads the current change token
+    this.refresh().catch(() => undefined);
+  }
+
+  private stop(): void {
+    if (this.timer !== undefined) {
+      clearTimeout(this.timer);
+      this.timer = undefined;
+    }
+    if (typeof document !== 'undefined') {
+      document.removeEventListener('visibilitychange', this.handleVisibilityChange);
+    }
+    this.disconnectRelay?.();
+    this.disconnectRelay = undefined;
+    this.changeToken = undefined;
+    this.errorCount = 0;
+    this.isRefreshQueued = false;
+
+    const key = normalizeListId(this.listId);
+    if (feeds.get(key) === this) {
+      feeds.delete(key);
+    }
+  }
+
+  private async fetchChanges(): Promise<void> {
+    const list = this.sp.web.lists.getById(this.listId);
+
+    if (!this.changeToken) {
+      const { CurrentChangeToken } = await list.select('CurrentChangeToken')();
+      this.changeToken = CurrentChangeToken.StringValue;
+      return;
+    }
+
+    const changes: SharePointChange[] = await list.getChanges({
+      ChangeTokenStart: { StringValue: this.changeToken },
+      Item: true,
+      Update: true,
+      DeleteObject: true,
+      Restore: true,
+      SystemUpdate: true,
+    });
+    if (!changes.length) {
+      return;
+    }
+
+    const lastToken = changes[changes.length - 1].ChangeToken?.StringValue;
+    if (lastToken) {
+      this.changeToken = lastToken;
+    }
+
+    // One notification per item, however many times it changed
+    const itemIds = changes
+      .map(change => change.ItemId)
+      .filter((itemId, index, all): itemId is number => !!itemId && all.indexOf(itemId) === index);
+
+    itemIds.forEach(itemId => {
+      // Copy: a listener may unsubscribe while we notify
+      this.listeners.slice().forEach(listener => {
+        try {
+          listener({ listId: this.listId, itemId });
+        } catch (error) {
+          console.error('Error in change feed listener:', error);
+        }
+      });
+    });
+  }
+
+  private schedule(delay: number): void {
+    if (this.timer !== undefined) {
+      clearTimeout(this.timer);
+      this.timer = undefined;
+    }
+    if (!this.listeners.length) {
+      return;
+    }
+
+    this.timer = window.setTimeout(() => {
+      this.timer = undefined;
+      this.refresh().catch(() => undefined);
+    }, delay);
+  }
+
+  private getInterval(): number {
+    const {
+      interval = CONFLICT_DETECTION_CONSTANTS.DEFAULT_FEED_INTERVAL,
+      hiddenInterval = CONFLICT_DETECTION_CONSTANTS.DEFAULT_FEED_HIDDEN_INTERVAL,
+      maxErrorInterval = CONFLICT_DETECTION_CONSTANTS.DEFAULT_FEED_MAX_ERROR_INTERVAL,
+      relayFallbackInterval = CONFLICT_DETECTION_CONSTANTS.DEFAULT_FEED_RELAY_FALLBACK_INTERVAL,
+    } = this.options;
+
+    let delay = interval;
+    if (this.disconnectRelay) {
+      // The relay pushes changes; polling only covers missed notifications
+      delay = relayFallbackInterval;
+    } else if (typeof document !== 'undefined' && document.hidden) {
+      delay = hiddenInterval;
+    }
+
+    if (this.errorCount > 0) {
+      delay = Math.min(delay * Math.pow(2, this.errorCount), maxErrorInterval);
+    }
+    return delay;
+  }
+
+  private readonly handleVisibilityChange = (): void => {
+    if (document.hidden) {
+      // Calls after the pending one use the hidden interval
+      return;
+    }
+    // Catch up as soon as the tab is visible again
+    this.refresh().catch(() => undefined);
+  };
+}
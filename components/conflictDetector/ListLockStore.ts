@@ -0,0 +1,163 @@
+import { SPFI } from '@pnp/sp';
+import '@pnp/sp/fields';
+import '@pnp/sp/items';
+import { IList } from '@pnp/sp/lists';
+import '@pnp/sp/lists';
+import '@pnp/sp/webs';
+import {
+  CaptureServerTime,
+  isNotFound,
+  isPreconditionFailed,
+  normalizeListId,
+  parseJson,
+  parseLease,
+  readEtag,
+  serializeLease,
+} from './sectionLeaseStorage';
+import {
+  CONFLICT_DETECTION_CONSTANTS,
+  ConflictDetectionError,
+  SectionLease,
+  SectionLockStore,
+  StoredSectionLease,
+} from './types';
+
+interface LockListItem {
+  Id: number;
+  Title: string;
+  LockData: string | null;
+}
+
+/**
+ * Keeps leases in a separate lock list, one item per locked section with the key
+ * `<list id>:<item id>:<section>` as Title. Lock changes leave the locked item untouched.
+ */
+export class ListLockStore implements SectionLockStore {
+  private readonly sp: SPFI;
+  private readonly listId: string;
+  private readonly itemId: number;
+  private readonly listTitle: string;
+
+  constructor(
+    sp: SPFI,
+    listId: string,
+    itemId: number,
+    listTitle: string = CONFLICT_DETECTION_CONSTANTS.DEFAULT_LOCK_LIST_TITLE
+  ) {
+    this.sp = sp;
+    this.listId = listId;
+    this.itemId = itemId;
+    this.listTitle = listTitle;
+  }
+
+  /**
+   * Create the hidden lock list and its fields if they don't exist yet.
+   * Requires Manage Lists permission; run it once from a provisioning step.
+   */
+  public async ensureList(): Promise<void> {
+    const { created, list } = await this.sp.web.lists.ensure(
+      this.listTitle,
+      'Section locks of list items (check-out leases)',
+      100,
+      false,
+      { Hidden: true }
+    );
+    if (!created) {
+      return;
+    }
+
+    await list.fields.addMultilineText('LockData', { RichText: false });
+  }
+
+  /**
+   * @throws ConflictDetectionError with code `LOCK_STORE_UNAVAILABLE` when the lock list
+   * doesn't exist (ensureList() was never run)
+   */
+  public async read(section: string): Promise<StoredSectionLease> {
+    let serverTime: Date | undefined;
+    let item: LockListItem | undefined;
+    try {
+      item = await this.findLockItem(section, time => (serverTime = time));
+    } catch (error) {
+      if (isNotFound(error)) {
+        throw new ConflictDetectionError(
+          `Lock list "${this.listTitle}" does not exist`,
+          'LOCK_STORE_UNAVAILABLE',
+          error
+        );
+      }
+      throw error;
+    }
+    if (!item) {
+      return { lease: undefined, version: undefined, serverTime };
+    }
+
+    const etag = readEtag(item);
+    return {
+      lease: parseLease(parseJson(item.LockData)),
+      version: etag ? `${item.Id}|${etag}` : undefined,
+      serverTime,
+    };
+  }
+
+  public async write(
+    section: string,
+    lease: SectionLease | undefined,
+    version: string | undefined
+  ): Promise<boolean> {
+    const lockData = lease ? JSON.stringify(serializeLease(lease)) : null;
+
+    if (version) {
+      const separator = version.indexOf('|');
+      const id = Number(version.substring(0, separator));
+      const etag = version.substring(separator + 1);
+      try {
+        await this.getList().items.getById(id).update({ LockData: lockData }, etag);
+        return true;
+      } catch (error) {
+        if (isPreconditionFailed(error)) {
+          return false;
+        }
+        throw error;
+      }
+    }
+
+    if (!lease) {
+      // Nothing stored, nothing to release
+      return true;
+    }
+
+    // Two tabs may add the same key at once: the lowest ID wins and the other removes its item
+    const added = await this.getList().items.add({
+      Title: this.getKey(section),
+      LockData: lockData,
+    });
+    const winner = await this.findLockItem(section);
+    if (winner && winner.Id !== added.data.Id) {
+      await this.getList().items.getById(added.data.Id).delete();
+      return false;
+    }
+    return true;
+  }
+
+  private async findLockItem(
+    section: string,
+    onServerTime: (serverTime: Date) => void = () => undefined
+  ): Promise<LockListItem | undefined> {
+    const items: LockListItem[] = await this.getList()
+      .items.select('Id', 'Title', 'LockData')
+      .filter(`Title eq '${this.getKey(section).replace(/'/g, "''")}'`)
+      .orderBy('Id', true)
+      .top(1)
+      .using(CaptureServerTime(onServerTime))();
+    return items[0];
+  }
+
+  private getKey(section: string): string {
+    return `${normalizeListId(this.listId)}:${this.itemId}:${section}`;
+  }
+
+  private getList(): IList {
+    return this.sp.web.lists.getByTitle(this.listTitle);
+  }
+}
@@ -0,0 +1,89 @@
+import { MessageBar, MessageBarButton, MessageBarType } from '@fluentui/react';
+import * as React from 'react';
+import { useCallback, useState } from 'react';
+import { LockOwner, SectionLease } from './types';
+
+interface SectionLockBannerProps {
+  lease: SectionLease | undefined;
+  isLockedByOther: boolean;
+  // Locking can't be used here; others may edit the section at the same time
+  isUnavailable?: boolean;
+  sectionLabel?: string;
+  // Email of the current user, to tell a lock held in another of their tabs apart
+  currentUserEmail?: string;
+  canBreakLock?: boolean;
+  onBreakLock?: () => Promise<boolean> | void;
+  className?: string;
+}
+
+const formatTime = (date: Date): string =>
+  date.toLocaleTimeString('en-US', { hour: '2-digit', minute: '2-digit' });
+
+const isSameUser = (owner: LockOwner, email: string | undefined): boolean =>
+  !!email && owner.email.toLowerCase() === email.toLowerCase();
+
+/**
+ * Explains why a section is read-only while someone else has it checked out
+ */
+export const SectionLockBanner: React.FC<SectionLockBannerProps> = ({
+  lease,
+  isLockedByOther,
+  isUnavailable = false,
+  sectionLabel = 'This section',
+  currentUserEmail,
+  canBreakLock = false,
+  onBreakLock,
+  className,
+}) => {
+  const [isBreaking, setIsBreaking] = useState(false);
+
+  const handleBreakLock = useCallback(async () => {
+    if (!onBreakLock) {
+      return;
+    }
+
+    setIsBreaking(true);
+    try {
+      await onBreakLock();
+    } catch (error) {
+      console.error('Error breaking section lock:', error);
+    } finally {
+      setIsBreaking(false);
+    }
+  }, [onBreakLock]);
+
+  if (isUnavailable) {
+    return (
+      <MessageBar className={className} messageBarType={MessageBarType.warning}>
+        {`${sectionLabel} can't be locked for editing right now, so someone else may be ` +
+          'changing it at the same time. Ask a site owner to set up the section lock list.'}
+      </MessageBar>
+    );
+  }
+
+  if (!lease || !isLockedByOther) {
+    return null;
+  }
+
+  const holder = isSameUser(lease.owner, currentUserEmail)
+    ? 'you in another tab or window'
+    : lease.owner.title || lease.owner.email;
+
+  return (
+    <MessageBar
+      className={className}
+      messageBarType={MessageBarType.warning}
+      isMultiline={false}
+      actions={
+        canBreakLock && onBreakLock ? (
+          <MessageBarButton onClick={handleBreakLock} disabled={isBreaking}>
+            {isBreaking ? 'Breaking lock...' : 'Break lock'}
+          </MessageBarButton>
+        ) : undefined
+      }
+    >
+      {`${sectionLabel} is locked by ${holder} until ${formatTime(lease.expiresAt)}. ` +
+        'It is read-only until they finish or the lock expires.'}
+    </MessageBar>
+  );
+};
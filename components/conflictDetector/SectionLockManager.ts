@@ -0,0 +1,173 @@
+import {
+  CONFLICT_DETECTION_CONSTANTS,
+  ConflictDetectionError,
+  LockOwner,
+  SectionLease,
+  SectionLockOptions,
+  SectionLockResult,
+  SectionLockStore,
+  StoredSectionLease,
+} from './types';
+
+// Attempts when another tab writes between our read and write
+const MAX_WRITE_ATTEMPTS = 3;
+
+const createLockId = (): string =>
+  `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+
+/**
+ * Lease-based soft locks for item sections: one tab at a time may edit a section, and a lease
+ * that isn't renewed expires on its own
+ */
+export class SectionLockManager {
+  public readonly lockId: string;
+  private readonly store: SectionLockStore;
+  private readonly owner: LockOwner;
+  private readonly options: SectionLockOptions;
+  // Server clock minus this browser's clock, from the server time of the last read
+  private clockOffset = 0;
+
+  constructor(store: SectionLockStore, owner: LockOwner, options: SectionLockOptions = {}) {
+    if (!store) {
+      throw new ConflictDetectionError('Lock store is required', 'INVALID_LOCK_STORE');
+    }
+    if (!owner?.email) {
+      throw new ConflictDetectionError('Lock owner email is required', 'INVALID_LOCK_OWNER');
+    }
+
+    this.store = store;
+    this.owner = owner;
+    this.options = options;
+    this.lockId = createLockId();
+  }
+
+  /**
+   * Get the active lease of a section, if any
+   */
+  public async getLock(section: string): Promise<SectionLease | undefined> {
+    const { lease } = await this.read(section);
+    return lease && this.isActive(lease) ? lease : undefined;
+  }
+
+  /**
+   * Take the lock unless someone else holds an active lease
+   */
+  public async acquire(section: string): Promise<SectionLockResult> {
+    return this.claim(section, false);
+  }
+
+  /**
+   * Extend our lease; fails when it expired and someone else took the lock
+   */
+  public async renew(section: string): Promise<SectionLockResult> {
+    return this.claim(section, true);
+  }
+
+  /**
+   * Give up our lease; does nothing when we don't hold it
+   */
+  public async release(section: string): Promise<void> {
+    for (let attempt = 0; attempt < MAX_WRITE_ATTEMPTS; attempt++) {
+      const { lease, version } = await this.read(section);
+      if (!lease || !this.isOwnLease(lease)) {
+        return;
+      }
+      if (await this.store.write(section, undefined, version)) {
+        return;
+      }
+    }
+  }
+
+  /**
+   * Remove another user's lease (administrators only)
+   * @returns false when the lock changed while breaking it
+   */
+  public async breakLock(section: string): Promise<boolean> {
+    if (!(await this.canBreakLocks())) {
+      throw new ConflictDetectionError('Not allowed to break section locks', 'NOT_AUTHORIZED');
+    }
+
+    const { lease, version } = await this.read(section);
+    if (!lease) {
+      return true;
+    }
+    return this.store.write(section, undefined, version);
+  }
+
+  public async canBreakLocks(): Promise<boolean> {
+    try {
+      return this.options.canBreakLocks ? await this.options.canBreakLocks() : false;
+    } catch (error) {
+      console.error('Error in canBreakLocks callback:', error);
+      return false;
+    }
+  }
+
+  public isOwnLease(lease: SectionLease | undefined): boolean {
+    return !!lease && lease.lockId === this.lockId;
+  }
+
+  public isActive(lease: SectionLease): boolean {
+    return lease.expiresAt.getTime() > Date.now();
+  }
+
+  public getOptions(): Required<Omit<SectionLockOptions, 'canBreakLocks'>> {
+    return {
+      leaseDuration:
+        this.options.leaseDuration ?? CONFLICT_DETECTION_CONSTANTS.DEFAULT_LEASE_DURATION,
+      renewInterval:
+        this.options.renewInterval ?? CONFLICT_DETECTION_CONSTANTS.DEFAULT_LEASE_RENEW_INTERVAL,
+      pollInterval:
+        this.options.pollInterval ?? CONFLICT_DETECTION_CONSTANTS.DEFAULT_LOCK_POLL_INTERVAL,
+    };
+  }
+
+  /**
+   * Read the stored lease with its times moved to this browser's clock. Leases are stored on
+   * the server's clock, so a client whose clock runs fast doesn't see live leases as expired.
+   */
+  private async read(section: string): Promise<StoredSectionLease> {
+    const sentAt = Date.now();
+    const stored = await this.store.read(section);
+    if (stored.serverTime) {
+      this.clockOffset = stored.serverTime.getTime() - Math.round((sentAt + Date.now()) / 2);
+    }
+    return {
+      ...stored,
+      lease: stored.lease && this.shiftLease(stored.lease, -this.clockOffset),
+    };
+  }
+
+  private shiftLease(lease: SectionLease, offset: number): SectionLease {
+    return {
+      ...lease,
+      acquiredAt: new Date(lease.acquiredAt.getTime() + offset),
+      expiresAt: new Date(lease.expiresAt.getTime() + offset),
+    };
+  }
+
+  private async claim(section: string, isRenewal: boolean): Promise<SectionLockResult> {
+    for (let attempt = 0; attempt < MAX_WRITE_ATTEMPTS; attempt++) {
+      const { lease, version } = await this.read(section);
+      if (lease && this.isActive(lease) && !this.isOwnLease(lease)) {
+        return { acquired: false, lease };
+      }
+
+      const now = new Date();
+      const next: SectionLease = {
+        section,
+        owner: this.owner,
+        lockId: this.lockId,
+        acquiredAt: isRenewal && lease && this.isOwnLease(lease) ? lease.acquiredAt : now,
+        expiresAt: new Date(now.getTime() + this.getOptions().leaseDuration),
+      };
+
+      if (await this.store.write(section, this.shiftLease(next, this.clockOffset), version)) {
+        return { acquired: true, lease: next };
+      }
+    }
+
+    // Another tab kept winning the race
+    return { acquired: false, lease: await this.getLock(section) };
+  }
+}
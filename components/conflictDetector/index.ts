@@ -24,6 +24,27 @@ export type {
   EnhancedConflictInfo, PollingControl, PreSaveCheckResult, SharePointApiResponse, SharePointListItem, UseConflictDetectionProps, UseConflictDetectionReturn
 } from './types';
 
+// Field-level three-way merge
+export type {
+  FieldMergeChoice, FieldMergeEntry, FieldMergeResult, FieldMergeStatus, ResolvedMerge
+} from './types';
+
+export { areFieldValuesEqual, computeThreeWayMerge, resolveMerge } from './threeWayMerge';
+
+// Shared list change feed
+export { ListChangeFeed } from './ListChangeFeed';
+export type {
+  ChangeFeedRelay, ItemChangeNotification, ItemChangeNotifier, ListChangeFeedOptions
+} from './types';
+
+// Section locks (check-out leases)
+export { ItemFieldLockStore } from './ItemFieldLockStore';
+export { ListLockStore } from './ListLockStore';
+export { SectionLockManager } from './SectionLockManager';
+export type {
+  LockOwner, SectionLease, SectionLockOptions, SectionLockResult, SectionLockStore, StoredSectionLease, UseSectionLockProps, UseSectionLockReturn
+} from './types';
+
 // Constants and presets
 export {
   CONFLICT_DETECTION_CONSTANTS, CONFLICT_DETECTION_PRESETS, ConflictDetectionError, DEFAULT_CONFLICT_OPTIONS, isConflictInfo,
@@ -39,6 +60,8 @@ export {
   useFormConflictDetection, usePreSaveConflictCheck
 } from './useConflictDetection';
 
+export { useSectionLock } from './useSectionLock';
+
 // =====================================================================================
 // React Context and Provider
 // =====================================================================================
@@ -67,6 +90,9 @@ export {
   EnhancedConflictResolutionDialog, useConflictResolutionDialog
 } from './ConflictResolutionDialog';
 
+// Section lock banner
+export { SectionLockBanner } from './SectionLockBanner';
+
 // =====================================================================================
 // Component Helpers (from separate file)
 // =====================================================================================
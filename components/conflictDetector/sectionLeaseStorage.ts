@@ -0,0 +1,83 @@
+import type { Queryable } from '@pnp/queryable';
+import { SectionLease } from './types';
+
+interface SerializedLease {
+  section: string;
+  owner: SectionLease['owner'];
+  lockId: string;
+  acquiredAt: string;
+  expiresAt: string;
+}
+
+export const serializeLease = (lease: SectionLease): SerializedLease => ({
+  section: lease.section,
+  owner: lease.owner,
+  lockId: lease.lockId,
+  acquiredAt: lease.acquiredAt.toISOString(),
+  expiresAt: lease.expiresAt.toISOString(),
+});
+
+/**
+ * Read a stored lease; anything malformed counts as no lease
+ */
+export const parseLease = (value: unknown): SectionLease | undefined => {
+  const lease = value as Partial<SerializedLease> | null | undefined;
+  if (!lease || typeof lease !== 'object' || !lease.lockId || !lease.owner?.email) {
+    return undefined;
+  }
+
+  const expiresAt = new Date(lease.expiresAt || '');
+  if (isNaN(expiresAt.getTime())) {
+    return undefined;
+  }
+  const acquiredAt = new Date(lease.acquiredAt || '');
+
+  return {
+    section: lease.section || '',
+    owner: lease.owner,
+    lockId: lease.lockId,
+    acquiredAt: isNaN(acquiredAt.getTime()) ? expiresAt : acquiredAt,
+    expiresAt,
+  };
+};
+
+export const parseJson = (text: string | null | undefined): unknown => {
+  if (!text) {
+    return undefined;
+  }
+  try {
+    return JSON.parse(text);
+  } catch {
+    return undefined;
+  }
+};
+
+// ETag of an item read with either the verbose or the minimal metadata format
+export const readEtag = (item: Record<string, any>): string | undefined =>
+  item.__metadata?.etag ?? item['odata.etag'];
+
+// PnP rejects with an HttpRequestError carrying the status when If-Match fails
+export const isPreconditionFailed = (error: unknown): boolean =>
+  (error as { status?: number } | undefined)?.status === 412;
+
+export const isNotFound = (error: unknown): boolean =>
+  (error as { status?: number } | undefined)?.status === 404;
+
+/**
+ * PnP behavior passing on the response's Date header: the server clock at the time of a read
+ */
+export const CaptureServerTime =
+  (onServerTime: (serverTime: Date) => void) =>
+  (instance: Queryable): Queryable => {
+    instance.on.parse.prepend(async function (url: URL, response: Response, result: any) {
+      const serverTime = new Date(response.headers.get('Date') || '');
+      if (!isNaN(serverTime.getTime())) {
+        onServerTime(serverTime);
+      }
+      return [url, response, result];
+    });
+    return instance;
+  };
+
+export const normalizeListId = (listId: string): string =>
+  listId.trim().toLowerCase().replace(/^\{|\}$/g, '');
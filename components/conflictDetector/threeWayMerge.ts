@@ -0,0 +1,120 @@
+import { isEqual } from '@microsoft/sp-lodash-subset';
+import {
+  FieldMergeChoice,
+  FieldMergeEntry,
+  FieldMergeResult,
+  FieldMergeStatus,
+  ResolvedMerge,
+} from './types';
+
+const ISO_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?$/;
+
+/**
+ * Compare field values the way SharePoint stores them: empty values are equal, and dates
+ * are equal when they are the same instant (Date objects or ISO strings)
+ */
+export const areFieldValuesEqual = (a: unknown, b: unknown): boolean => {
+  return isEqual(normalizeFieldValue(a), normalizeFieldValue(b));
+};
+
+/**
+ * Compute a three-way merge of the merge fields
+ * @param base - Values when the item was loaded
+ * @param mine - Values in the form; fields left out are treated as unchanged
+ * @param theirs - Values saved since
+ * @param fields - Fields to merge
+ * @param currentVersion - ETag of the saved version
+ */
+export const computeThreeWayMerge = (
+  base: Record<string, unknown>,
+  mine: Record<string, unknown>,
+  theirs: Record<string, unknown>,
+  fields: string[],
+  currentVersion: string
+): FieldMergeResult => {
+  const entries: FieldMergeEntry[] = fields.map(field => {
+    const mineValue = field in mine ? mine[field] : base[field];
+    return {
+      field,
+      base: base[field],
+      mine: mineValue,
+      theirs: theirs[field],
+      status: getMergeStatus(base[field], mineValue, theirs[field]),
+    };
+  });
+  const conflicts = entries.filter(entry => entry.status === 'conflict');
+
+  return {
+    fields: entries,
+    conflicts,
+    hasConflicts: conflicts.length > 0,
+    currentVersion,
+  };
+};
+
+/**
+ * Apply choices for the conflicting fields; non-conflicting changes merge automatically
+ * @param result - Result of computeThreeWayMerge
+ * @param choices - 'mine' or 'theirs' for each conflicting field
+ */
+export const resolveMerge = (
+  result: FieldMergeResult,
+  choices: Record<string, FieldMergeChoice> = {}
+): ResolvedMerge => {
+  const unresolved = result.conflicts.filter(entry => !choices[entry.field]);
+  if (unresolved.length) {
+    throw new Error(
+      `Choose a value for conflicting fields: ${unresolved.map(entry => entry.field).join(', ')}`
+    );
+  }
+
+  const values: Record<string, unknown> = {};
+  const updates: Record<string, unknown> = {};
+
+  result.fields.forEach(entry => {
+    const keepMine =
+      entry.status === 'mine' || (entry.status === 'conflict' && choices[entry.field] === 'mine');
+    values[entry.field] = keepMine ? entry.mine : entry.theirs;
+    if (keepMine) {
+      updates[entry.field] = entry.mine;
+    }
+  });
+
+  return { values, updates, currentVersion: result.currentVersion };
+};
+
+const getMergeStatus = (base: unknown, mine: unknown, theirs: unknown): FieldMergeStatus => {
+  const mineChanged = !areFieldValuesEqual(base, mine);
+  const theirsChanged = !areFieldValuesEqual(base, theirs);
+
+  if (mineChanged && theirsChanged) {
+    return areFieldValuesEqual(mine, theirs) ? 'both' : 'conflict';
+  }
+  if (mineChanged) {
+    return 'mine';
+  }
+  return theirsChanged ? 'theirs' : 'unchanged';
+};
+
+const normalizeFieldValue = (value: unknown): unknown => {
+  if (value === undefined || value === null || value === '') {
+    return null;
+  }
+  if (value instanceof Date) {
+    return value.getTime();
+  }
+  if (typeof value === 'string' && ISO_DATE_PATTERN.test(value)) {
+    return new Date(value).getTime();
+  }
+  if (Array.isArray(value)) {
+    return value.length ? value.map(normalizeFieldValue) : null;
+  }
+  if (typeof value === 'object') {
+    // Multi-value fields in verbose responses: { results: [...] }
+    const results = (value as { results?: unknown }).results;
+    if (Array.isArray(results)) {
+      return normalizeFieldValue(results);
+    }
+  }
+  return value;
+};
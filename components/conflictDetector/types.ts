@@ -13,6 +13,40 @@ export interface ConflictDetectionOptions {
   customMessage?: string;
   onConflictDetected?: (conflict: ConflictInfo) => void;
   onConflictResolved?: () => void;
+
+  // Save notifications from other tabs (e.g. SPFxContext.crossTab); triggers an immediate check
+  changeNotifications?: ItemChangeNotifier;
+
+  // Fields captured at load for three-way merges (e.g. 'Title', 'AttorneyId', 'Status')
+  mergeFields?: string[];
+
+  // Watch the list's change feed (shared by every detector on the list) instead of polling the item
+  changeFeed?: boolean | ListChangeFeedOptions;
+}
+
+export interface ListChangeFeedOptions {
+  interval?: number; // milliseconds between GetChanges calls while the tab is visible
+  hiddenInterval?: number; // milliseconds between calls while the tab is hidden
+  maxErrorInterval?: number; // upper limit of the backoff after failed calls
+  relay?: ChangeFeedRelay;
+  relayFallbackInterval?: number; // milliseconds between calls while the relay is connected
+}
+
+// Pushes list change notifications, e.g. a SignalR hub fed by a SharePoint webhook
+export interface ChangeFeedRelay {
+  // Call onNotify whenever the list changes; returns a function that disconnects
+  connect(listId: string, onNotify: () => void): () => void;
+}
+
+export interface ItemChangeNotification {
+  listId?: string;
+  listTitle?: string;
+  itemId: number;
+  savedBy?: string;
+}
+
+export interface ItemChangeNotifier {
+  onItemSaved(listener: (change: ItemChangeNotification) => void): () => void;
 }
 
 export interface ConflictInfo {
@@ -24,6 +58,8 @@ export interface ConflictInfo {
   originalModified: Date;
   itemId: number;
   listId: string;
+  // Values of the merge fields in this version
+  fieldValues?: Record<string, unknown>;
 }
 
 export interface ConflictDetectionState {
@@ -41,8 +77,116 @@ export interface ConflictDetectionResult {
 }
 
 export interface ConflictResolutionAction {
-  type: 'refresh' | 'overwrite' | 'cancel';
+  type: 'refresh' | 'overwrite' | 'cancel' | 'merge';
   message: string;
+  // Merged values for 'merge' actions
+  mergedChanges?: ResolvedMerge;
+}
+
+// How a field changed since it was loaded: only by me, only by them, by both to the same
+// value, or by both to different values
+export type FieldMergeStatus = 'unchanged' | 'mine' | 'theirs' | 'both' | 'conflict';
+
+export interface FieldMergeEntry {
+  field: string;
+  base: unknown;
+  mine: unknown;
+  theirs: unknown;
+  status: FieldMergeStatus;
+}
+
+export interface FieldMergeResult {
+  fields: FieldMergeEntry[];
+  conflicts: FieldMergeEntry[];
+  hasConflicts: boolean;
+  // ETag of the version "theirs" was read from; save against it
+  currentVersion: string;
+}
+
+export type FieldMergeChoice = 'mine' | 'theirs';
+
+export interface ResolvedMerge {
+  // Merged value of every merge field, for the form
+  values: Record<string, unknown>;
+  // Fields whose merged value differs from the saved item, for the update
+  updates: Record<string, unknown>;
+  currentVersion: string;
+}
+
+// Holder of a section lock
+export interface LockOwner {
+  id?: string;
+  title: string;
+  email: string;
+}
+
+// Exclusive, expiring right to edit one section of an item
+export interface SectionLease {
+  section: string;
+  owner: LockOwner;
+  // Identifies the tab holding the lease; the same user in another tab doesn't own it
+  lockId: string;
+  acquiredAt: Date;
+  expiresAt: Date;
+}
+
+export interface StoredSectionLease {
+  lease: SectionLease | undefined;
+  // Version to compare-and-swap against (e.g. an ETag)
+  version: string | undefined;
+  // Server clock when read (e.g. the response's Date header); stored lease times are on this
+  // clock, so clients with wrong clocks agree on when a lease expires
+  serverTime?: Date;
+}
+
+// Where leases are kept: fields of the item itself or a separate lock list
+export interface SectionLockStore {
+  read(section: string): Promise<StoredSectionLease>;
+  // Write only if the stored version still matches; false when someone else wrote first
+  write(
+    section: string,
+    lease: SectionLease | undefined,
+    version: string | undefined
+  ): Promise<boolean>;
+}
+
+export interface SectionLockOptions {
+  leaseDuration?: number; // milliseconds a lease lasts without renewal
+  renewInterval?: number; // milliseconds between automatic renewals
+  pollInterval?: number; // milliseconds between checks while someone else holds the lock
+  // Whether the current user may break other users' locks
+  canBreakLocks?: () => boolean | Promise<boolean>;
+}
+
+export interface SectionLockResult {
+  acquired: boolean;
+  lease: SectionLease | undefined;
+}
+
+export interface UseSectionLockProps {
+  store: SectionLockStore;
+  owner: LockOwner;
+  section: string;
+  options?: SectionLockOptions;
+  // Acquire as soon as the section is shown (check-out on open)
+  autoAcquire?: boolean;
+  enabled?: boolean;
+}
+
+export interface UseSectionLockReturn {
+  lease: SectionLease | undefined;
+  isOwner: boolean;
+  isLockedByOther: boolean;
+  lockedBy: LockOwner | undefined;
+  canBreakLock: boolean;
+  isLoading: boolean;
+  error: string | undefined;
+  // The lock store can't be used (e.g. its list is missing); the section isn't protected
+  isUnavailable: boolean;
+  acquire: () => Promise<boolean>;
+  release: () => Promise<void>;
+  breakLock: () => Promise<boolean>;
+  refresh: () => Promise<void>;
 }
 
 // Enhanced detection hook return interface
@@ -57,6 +201,7 @@ export interface UseConflictDetectionReturn {
 
   // Actions
   checkForConflicts: () => Promise<boolean>;
+  computeMerge: (mine: Record<string, unknown>) => Promise<FieldMergeResult | undefined>;
   hasChangedSinceLastCheck: () => Promise<boolean>;
   updateSnapshot: () => Promise<boolean>;
   initialize: () => Promise<boolean>;
@@ -133,6 +278,7 @@ export interface ConflictDetector {
   checkForConflicts(): Promise<ConflictDetectionResult>;
   hasChangedSinceLastCheck(): Promise<ConflictDetectionResult>;
   updateSnapshot(): Promise<ConflictDetectionResult>;
+  computeMerge(mine: Record<string, unknown>): Promise<FieldMergeResult>;
   startPolling(): void;
   stopPolling(): void;
   pausePolling(): void;
@@ -250,4 +396,13 @@ export const CONFLICT_DETECTION_CONSTANTS = {
   RECENT_CONFLICT_THRESHOLD: 300000, // 5 minutes
   HIGH_SEVERITY_THRESHOLD: 60000, // 1 minute
   MEDIUM_SEVERITY_THRESHOLD: 300000, // 5 minutes
+  DEFAULT_FEED_INTERVAL: 15000, // 15 seconds
+  DEFAULT_FEED_HIDDEN_INTERVAL: 120000, // 2 minutes
+  DEFAULT_FEED_MAX_ERROR_INTERVAL: 300000, // 5 minutes
+  DEFAULT_FEED_RELAY_FALLBACK_INTERVAL: 300000, // 5 minutes
+  DEFAULT_LEASE_DURATION: 300000, // 5 minutes
+  DEFAULT_LEASE_RENEW_INTERVAL: 120000, // 2 minutes
+  DEFAULT_LOCK_POLL_INTERVAL: 30000, // 30 seconds
+  DEFAULT_LOCK_LIST_TITLE: 'SectionLocks',
+  DEFAULT_LOCK_FIELD: 'SectionLocks',
 } as const;
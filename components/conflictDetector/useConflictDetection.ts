@@ -6,6 +6,7 @@ import {
   ConflictDetectionOptions,
   ConflictDetectionState,
   DEFAULT_CONFLICT_OPTIONS,
+  FieldMergeResult,
   PreSaveCheckResult,
   UseConflictDetectionProps,
   UseConflictDetectionReturn,
@@ -183,6 +184,26 @@ export const useConflictDetection = ({
     [updateState]
   );
 
+  const computeMerge = useCallback(
+    async (mine: Record<string, unknown>): Promise<FieldMergeResult | undefined> => {
+      if (!detectorRef.current || !isInitializedRef.current) {
+        console.warn('useConflictDetection: Not initialized.');
+        return undefined;
+      }
+
+      try {
+        return await detectorRef.current.computeMerge(mine);
+      } catch (error) {
+        console.error('useConflictDetection: Compute merge failed', error);
+        updateState({
+          error: error instanceof Error ? error.message : 'Compute merge failed',
+        });
+        return undefined;
+      }
+    },
+    [updateState]
+  );
+
   const pausePolling = useCallback(() => {
     if (detectorRef.current) {
       detectorRef.current.pausePolling();
@@ -268,6 +289,7 @@ export const useConflictDetection = ({
 
     // Actions
     checkForConflicts,
+    computeMerge,
     hasChangedSinceLastCheck,
     updateSnapshot,
     initialize,
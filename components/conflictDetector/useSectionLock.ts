@@ -0,0 +1,224 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { SectionLockManager } from './SectionLockManager';
+import {
+  ConflictDetectionError,
+  SectionLease,
+  UseSectionLockProps,
+  UseSectionLockReturn,
+} from './types';
+
+const getErrorMessage = (error: unknown, fallback: string): string =>
+  error instanceof Error ? error.message : fallback;
+
+const isStoreUnavailable = (error: unknown): boolean =>
+  error instanceof ConflictDetectionError && error.code === 'LOCK_STORE_UNAVAILABLE';
+
+/**
+ * Check out a section of an item: holds and renews a lease while the section is open and
+ * watches the lock while someone else holds it
+ */
+export const useSectionLock = ({
+  store,
+  owner,
+  section,
+  options = {},
+  autoAcquire = false,
+  enabled = true,
+}: UseSectionLockProps): UseSectionLockReturn => {
+  const [lease, setLeaseState] = useState<SectionLease | undefined>(undefined);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | undefined>(undefined);
+  const [isUnavailable, setIsUnavailable] = useState(false);
+  const [canBreakLock, setCanBreakLock] = useState(false);
+
+  const managerRef = useRef<SectionLockManager | undefined>(undefined);
+  const leaseRef = useRef<SectionLease | undefined>(undefined);
+  const checkRef = useRef<() => Promise<void>>(() => Promise.resolve());
+  // Whether this tab wants the lock: from autoAcquire or acquire(), until release()
+  const wantsLockRef = useRef(autoAcquire);
+
+  const setLease = useCallback((next: SectionLease | undefined) => {
+    leaseRef.current = next;
+    setLeaseState(next);
+  }, []);
+
+  useEffect(() => {
+    if (!enabled || !store || !section || !owner?.email) {
+      managerRef.current = undefined;
+      setLease(undefined);
+      setIsLoading(false);
+      return undefined;
+    }
+
+    let isCurrent = true;
+    let timer: number | undefined;
+    const manager = new SectionLockManager(store, owner, options);
+    const { renewInterval, pollInterval } = manager.getOptions();
+    managerRef.current = manager;
+    wantsLockRef.current = autoAcquire;
+    setLease(undefined);
+
+    const schedule = (delay: number): void => {
+      if (timer !== undefined) {
+        clearTimeout(timer);
+      }
+      timer = window.setTimeout(() => {
+        timer = undefined;
+        check().catch(() => undefined);
+      }, delay);
+    };
+
+    // Renew our lease, take a free lock we want, or just read who holds it
+    const check = async (): Promise<void> => {
+      try {
+        let next: SectionLease | undefined;
+        if (manager.isOwnLease(leaseRef.current)) {
+          next = (await manager.renew(section)).lease;
+        } else if (wantsLockRef.current) {
+          next = (await manager.acquire(section)).lease;
+        } else {
+          next = await manager.getLock(section);
+        }
+
+        // release() ran while the claim was in flight: give back what the claim took
+        if (!wantsLockRef.current && manager.isOwnLease(next)) {
+          await manager.release(section);
+          next = undefined;
+        }
+
+        if (!isCurrent) {
+          return;
+        }
+        setLease(next);
+        setError(undefined);
+        setIsUnavailable(false);
+        schedule(manager.isOwnLease(next) ? renewInterval : pollInterval);
+      } catch (checkError) {
+        if (!isCurrent) {
+          return;
+        }
+        setError(getErrorMessage(checkError, 'Section lock check failed'));
+        setIsUnavailable(isStoreUnavailable(checkError));
+        schedule(pollInterval);
+      } finally {
+        if (isCurrent) {
+          setIsLoading(false);
+        }
+      }
+    };
+    checkRef.current = check;
+
+    setIsLoading(true);
+    check().catch(() => undefined);
+
+    manager
+      .canBreakLocks()
+      .then(allowed => isCurrent && setCanBreakLock(allowed))
+      .catch(() => undefined);
+
+    // Closing the tab skips effect cleanup; an unreleased lease still expires on its own
+    const handlePageHide = (): void => {
+      if (manager.isOwnLease(leaseRef.current)) {
+        manager.release(section).catch(() => undefined);
+      }
+    };
+    window.addEventListener('pagehide', handlePageHide);
+
+    return () => {
+      isCurrent = false;
+      if (timer !== undefined) {
+        clearTimeout(timer);
+      }
+      window.removeEventListener('pagehide', handlePageHide);
+      checkRef.current = () => Promise.resolve();
+      if (managerRef.current === manager) {
+        managerRef.current = undefined;
+      }
+      if (manager.isOwnLease(leaseRef.current)) {
+        manager.release(section).catch(releaseError => {
+          console.warn('useSectionLock: Release failed', releaseError);
+        });
+      }
+      leaseRef.current = undefined;
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [store, owner?.email, section, enabled, JSON.stringify(options)]);
+
+  const acquire = useCallback(async (): Promise<boolean> => {
+    const manager = managerRef.current;
+    if (!manager) {
+      return false;
+    }
+
+    wantsLockRef.current = true;
+    try {
+      const result = await manager.acquire(section);
+      if (!wantsLockRef.current) {
+        // Released while acquiring
+        if (result.acquired) {
+          await manager.release(section);
+        }
+        return false;
+      }
+      setLease(result.lease);
+      setError(undefined);
+      return result.acquired;
+    } catch (acquireError) {
+      setError(getErrorMessage(acquireError, 'Failed to acquire section lock'));
+      return false;
+    }
+  }, [section, setLease]);
+
+  const release = useCallback(async (): Promise<void> => {
+    const manager = managerRef.current;
+    wantsLockRef.current = false;
+    if (!manager || !manager.isOwnLease(leaseRef.current)) {
+      return;
+    }
+
+    try {
+      await manager.release(section);
+      setLease(undefined);
+      setError(undefined);
+    } catch (releaseError) {
+      setError(getErrorMessage(releaseError, 'Failed to release section lock'));
+    }
+  }, [section, setLease]);
+
+  const breakLock = useCallback(async (): Promise<boolean> => {
+    const manager = managerRef.current;
+    if (!manager) {
+      return false;
+    }
+
+    try {
+      const broken = await manager.breakLock(section);
+      // Takes the lock when this tab wants it
+      await checkRef.current();
+      return broken;
+    } catch (breakError) {
+      setError(getErrorMessage(breakError, 'Failed to break section lock'));
+      return false;
+    }
+  }, [section]);
+
+  const refresh = useCallback((): Promise<void> => checkRef.current(), []);
+
+  const isOwner = !!lease && !!managerRef.current?.isOwnLease(lease);
+  const isLockedByOther = !!lease && !isOwner;
+
+  return {
+    lease,
+    isOwner,
+    isLockedByOther,
+    lockedBy: isLockedByOther ? lease?.owner : undefined,
+    canBreakLock,
+    isLoading,
+    error,
+    isUnavailable,
+    acquire,
+    release,
+    breakLock,
+    refresh,
+  };
+};
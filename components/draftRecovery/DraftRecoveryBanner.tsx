@@ -0,0 +1,93 @@
+import { MessageBar, MessageBarButton, MessageBarType } from '@fluentui/react';
+import * as React from 'react';
+import { memo, useCallback, useMemo, useState } from 'react';
+import styles from './DraftRecoveryBanner.module.scss';
+import { diffDraft, formatDraftValue } from './draftDiff';
+import type { DraftRecoveryBannerProps } from './types';
+
+// Offers unsaved input found on open, with what restoring it would change
+export const DraftRecoveryBanner = memo<DraftRecoveryBannerProps>(
+  ({
+    draft,
+    serverValues,
+    fieldLabels = {},
+    formatValue,
+    onRestore,
+    onDiscard,
+    className = '',
+    style,
+  }) => {
+    const [isDiscarding, setIsDiscarding] = useState(false);
+    const changes = useMemo(
+      () => (draft ? diffDraft(draft, serverValues) : []),
+      [draft, serverValues]
+    );
+
+    const handleDiscard = useCallback(async () => {
+      setIsDiscarding(true);
+      try {
+        await onDiscard();
+      } catch (error) {
+        console.error('Error discarding draft:', error);
+      } finally {
+        setIsDiscarding(false);
+      }
+    }, [onDiscard]);
+
+    if (!draft) {
+      return null;
+    }
+
+    const format = (field: string, value: unknown): string =>
+      formatValue ? formatValue(field, value) : formatDraftValue(value);
+    const changedOnServer = changes.some(change => change.changedOnServer);
+    const savedAt = new Date(draft.timestamp).toLocaleString();
+
+    return (
+      <MessageBar
+        className={`${styles.draftRecoveryBanner} ${className}`}
+        style={style}
+        messageBarType={changedOnServer ? MessageBarType.warning : MessageBarType.info}
+        isMultiline={true}
+        actions={
+          <div>
+            <MessageBarButton onClick={onRestore} disabled={isDiscarding}>
+              Restore
+            </MessageBarButton>
+            <MessageBarButton onClick={handleDiscard} disabled={isDiscarding}>
+              {isDiscarding ? 'Discarding...' : 'Discard'}
+            </MessageBarButton>
+          </div>
+        }
+      >
+        <div>
+          {changes.length
+            ? `You have unsaved changes from ${savedAt}.`
+            : `You have unsaved changes from ${savedAt} that match the saved values.`}
+          {changedOnServer && ' Someone has saved some of these fields since.'}
+        </div>
+        {changes.length > 0 && (
+          <ul className={styles.changes}>
+            {changes.map(change => (
+              <li key={change.field} className={styles.change}>
+                <span className={styles.fieldLabel}>
+                  {fieldLabels[change.field] || change.field}:
+                </span>{' '}
+                <span className={styles.serverValue}>
+                  {format(change.field, change.serverValue)}
+                </span>
+                {' → '}
+                <span className={styles.draftValue}>{format(change.field, change.draftValue)}</span>
+                {change.changedOnServer && (
+                  <span className={styles.changedOnServer}>changed by someone else</span>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+      </MessageBar>
+    );
+  }
+);
+
+DraftRecoveryBanner.displayName = 'DraftRecoveryBanner';
@@ -0,0 +1,199 @@
+import type { FieldValues } from 'react-hook-form';
+import { IndexedDbDraftStore } from './IndexedDbDraftStore';
+import { LocalStorageDraftStore } from './LocalStorageDraftStore';
+import {
+  DRAFT_CONSTANTS,
+  DraftKey,
+  DraftRecord,
+  DraftStorageOptions,
+  DraftStorageType,
+  DraftStore,
+} from './types';
+
+// JSON turns dates into strings; drafts mark them so they come back as Date objects
+const DATE_MARKER = '$date';
+
+function replaceDates(this: Record<string, unknown>, key: string, value: unknown): unknown {
+  const raw = this[key];
+  return raw instanceof Date ? { [DATE_MARKER]: raw.toISOString() } : value;
+}
+
+const reviveDates = (_key: string, value: any): unknown =>
+  value && typeof value === 'object' && typeof value[DATE_MARKER] === 'string'
+    ? new Date(value[DATE_MARKER])
+    : value;
+
+/**
+ * Keeps form drafts per list, item, user and form, with the same expiry and cleanup rules as
+ * the Card StorageService. Uses IndexedDB, falling back to localStorage.
+ */
+export class DraftStorageService {
+  private static instance: DraftStorageService;
+  private store: DraftStore | undefined;
+  private storageType: DraftStorageType;
+  private readonly prefix: string;
+  private readonly expiration: number;
+
+  constructor(options: DraftStorageOptions = {}) {
+    this.prefix = options.prefix || DRAFT_CONSTANTS.DEFAULT_PREFIX;
+    this.expiration = options.expiration || DRAFT_CONSTANTS.DEFAULT_EXPIRATION;
+
+    if (options.store) {
+      this.store = options.store;
+      this.storageType = 'custom';
+    } else if (IndexedDbDraftStore.isSupported()) {
+      this.store = new IndexedDbDraftStore();
+      this.storageType = 'indexedDB';
+    } else if (LocalStorageDraftStore.isSupported()) {
+      this.store = new LocalStorageDraftStore();
+      this.storageType = 'localStorage';
+    } else {
+      console.warn('[DraftStorage] No storage available, drafts disabled');
+      this.storageType = 'none';
+    }
+  }
+
+  /**
+   * Get the shared instance; options apply to the first call only
+   */
+  public static getInstance(options?: DraftStorageOptions): DraftStorageService {
+    if (!DraftStorageService.instance) {
+      DraftStorageService.instance = new DraftStorageService(options);
+    }
+    return DraftStorageService.instance;
+  }
+
+  public buildKey(draftKey: DraftKey): string {
+    const listId = draftKey.listId.trim().toLowerCase().replace(/^\{|\}$/g, '');
+    const itemId = draftKey.itemId ?? 'new';
+    return `${this.prefix}-${listId}-${itemId}-${draftKey.userId.toLowerCase()}-${draftKey.formId}`;
+  }
+
+  /**
+   * Save the changed fields of a form
+   * @param values - Changed fields
+   * @param baseValues - The same fields as they were loaded
+   */
+  public async saveDraft<T extends FieldValues>(
+    draftKey: DraftKey,
+    values: Partial<T>,
+    baseValues: Partial<T> = {}
+  ): Promise<boolean> {
+    const key = this.buildKey(draftKey);
+    const record: DraftRecord<T> = {
+      key,
+      values,
+      baseValues,
+      timestamp: Date.now(),
+      version: DRAFT_CONSTANTS.STORAGE_VERSION,
+    };
+
+    try {
+      const serialized = JSON.stringify(record, replaceDates);
+      await this.run(store => store.set(key, serialized));
+      return true;
+    } catch (error) {
+      console.error(`[DraftStorage] Failed to save draft ${key}:`, error);
+      return false;
+    }
+  }
+
+  /**
+   * Load a draft; expired drafts and drafts of another storage version are removed
+   */
+  public async loadDraft<T extends FieldValues>(
+    draftKey: DraftKey
+  ): Promise<DraftRecord<T> | undefined> {
+    const key = this.buildKey(draftKey);
+
+    try {
+      const stored = await this.run(store => store.get(key));
+      if (!stored) {
+        return undefined;
+      }
+
+      const record: DraftRecord<T> = JSON.parse(stored, reviveDates);
+      if (this.isExpired(record.timestamp) || record.version !== DRAFT_CONSTANTS.STORAGE_VERSION) {
+        await this.run(store => store.remove(key));
+        return undefined;
+      }
+      return record;
+    } catch (error) {
+      console.error(`[DraftStorage] Failed to load draft ${key}:`, error);
+      return undefined;
+    }
+  }
+
+  public async removeDraft(draftKey: DraftKey): Promise<boolean> {
+    const key = this.buildKey(draftKey);
+
+    try {
+      await this.run(store => store.remove(key));
+      return true;
+    } catch (error) {
+      console.error(`[DraftStorage] Failed to remove draft ${key}:`, error);
+      return false;
+    }
+  }
+
+  /**
+   * Remove expired and unreadable drafts
+   */
+  public async cleanup(): Promise<number> {
+    let cleanedCount = 0;
+
+    try {
+      const keys = await this.run(store => store.keys(`${this.prefix}-`));
+      for (const key of keys) {
+        const stored = await this.run(store => store.get(key));
+        let isStale = !stored;
+        try {
+          isStale = isStale || this.isExpired(JSON.parse(stored!).timestamp);
+        } catch (parseError) {
+          // Invalid data, mark for removal
+          isStale = true;
+        }
+
+        if (isStale) {
+          await this.run(store => store.remove(key));
+          cleanedCount++;
+        }
+      }
+
+      if (cleanedCount > 0) {
+        console.log(`[DraftStorage] Cleaned up ${cleanedCount} expired drafts`);
+      }
+    } catch (error) {
+      console.error('[DraftStorage] Error during cleanup:', error);
+    }
+
+    return cleanedCount;
+  }
+
+  public getStorageType(): DraftStorageType {
+    return this.storageType;
+  }
+
+  private isExpired(timestamp: number): boolean {
+    return !timestamp || Date.now() - timestamp > this.expiration;
+  }
+
+  private async run<R>(operation: (store: DraftStore) => Promise<R>): Promise<R> {
+    if (!this.store) {
+      throw new Error('Draft storage not available');
+    }
+
+    try {
+      return await operation(this.store);
+    } catch (error) {
+      // IndexedDB can exist and still refuse to open (e.g. private browsing)
+      if (this.storageType !== 'indexedDB' || !LocalStorageDraftStore.isSupported()) {
+        throw error;
+      }
+      console.warn('[DraftStorage] IndexedDB not available, using localStorage', error);
+      this.store = new LocalStorageDraftStore();
+      this.storageType = 'localStorage';
+      return operation(this.store);
+    }
+  }
+}
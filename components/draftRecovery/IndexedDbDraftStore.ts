@@ -0,0 +1,67 @@
+import { DRAFT_CONSTANTS, DraftStore } from './types';
+
+/**
+ * Keeps drafts in an IndexedDB object store. Larger than localStorage and not shared with
+ * other scripts' quota-hungry keys.
+ */
+export class IndexedDbDraftStore implements DraftStore {
+  private readonly databaseName: string;
+  private database: Promise<IDBDatabase> | undefined = undefined;
+
+  public static isSupported(): boolean {
+    return typeof indexedDB !== 'undefined';
+  }
+
+  constructor(databaseName: string = DRAFT_CONSTANTS.DATABASE_NAME) {
+    this.databaseName = databaseName;
+  }
+
+  public async get(key: string): Promise<string | undefined> {
+    const result = await this.request<unknown>('readonly', store => store.get(key));
+    return typeof result === 'string' ? result : undefined;
+  }
+
+  public async set(key: string, value: string): Promise<void> {
+    await this.request('readwrite', store => store.put(value, key));
+  }
+
+  public async remove(key: string): Promise<void> {
+    await this.request('readwrite', store => store.delete(key));
+  }
+
+  public async keys(prefix: string): Promise<string[]> {
+    const keys = await this.request<IDBValidKey[]>('readonly', store => store.getAllKeys());
+    return keys.map(String).filter(key => key.startsWith(prefix));
+  }
+
+  private async request<R>(
+    mode: IDBTransactionMode,
+    operation: (store: IDBObjectStore) => IDBRequest
+  ): Promise<R> {
+    const database = await this.open();
+    return new Promise<R>((resolve, reject) => {
+      const transaction = database.transaction(DRAFT_CONSTANTS.OBJECT_STORE_NAME, mode);
+      const request = operation(transaction.objectStore(DRAFT_CONSTANTS.OBJECT_STORE_NAME));
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.database) {
+      this.database = new Promise<IDBDatabase>((resolve, reject) => {
+        const request = indexedDB.open(this.databaseName, 1);
+        request.onupgradeneeded = () => {
+          request.result.createObjectStore(DRAFT_CONSTANTS.OBJECT_STORE_NAME);
+        };
+        request.onsuccess = () => resolve(request.result);
+        // e.g. private browsing; the next call tries again
+        request.onerror = () => {
+          this.database = undefined;
+          reject(request.error);
+        };
+      });
+    }
+    return this.database;
+  }
+}
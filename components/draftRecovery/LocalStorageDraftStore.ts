@@ -0,0 +1,40 @@
+import { DraftStore } from './types';
+
+/**
+ * Keeps drafts in localStorage, the fallback where IndexedDB isn't available
+ */
+export class LocalStorageDraftStore implements DraftStore {
+  public static isSupported(): boolean {
+    try {
+      const test = '__storage_test__';
+      window.localStorage.setItem(test, test);
+      window.localStorage.removeItem(test);
+      return true;
+    } catch (error) {
+      return false;
+    }
+  }
+
+  public async get(key: string): Promise<string | undefined> {
+    return window.localStorage.getItem(key) ?? undefined;
+  }
+
+  public async set(key: string, value: string): Promise<void> {
+    window.localStorage.setItem(key, value);
+  }
+
+  public async remove(key: string): Promise<void> {
+    window.localStorage.removeItem(key);
+  }
+
+  public async keys(prefix: string): Promise<string[]> {
+    const keys: string[] = [];
+    for (let i = 0; i < window.localStorage.length; i++) {
+      const key = window.localStorage.key(i);
+      if (key && key.startsWith(prefix)) {
+        keys.push(key);
+      }
+    }
+    return keys;
+  }
+}
@@ -0,0 +1,34 @@
+import { DraftStore } from './types';
+
+/**
+ * Keeps drafts in memory, for tests, storybooks or a local workbench
+ */
+export class MemoryDraftStore implements DraftStore {
+  private readonly values = new Map<string, string>();
+
+  public async get(key: string): Promise<string | undefined> {
+    return this.values.get(key);
+  }
+
+  public async set(key: string, value: string): Promise<void> {
+    this.values.set(key, value);
+  }
+
+  public async remove(key: string): Promise<void> {
+    this.values.delete(key);
+  }
+
+  public async keys(prefix: string): Promise<string[]> {
+    const keys: string[] = [];
+    this.values.forEach((_value, key) => {
+      if (key.startsWith(prefix)) {
+        keys.push(key);
+      }
+    });
+    return keys;
+  }
+
+  public clear(): void {
+    this.values.clear();
+  }
+}
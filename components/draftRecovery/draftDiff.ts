@@ -0,0 +1,52 @@
+import { areFieldValuesEqual } from '../conflictDetector';
+import { DraftFieldDiff, DraftRecord } from './types';
+
+/**
+ * Fields where restoring the draft would change the current value
+ * @param draft - Stored draft
+ * @param serverValues - Current values by form field name; without them the draft's base
+ * values stand in for the server
+ */
+export const diffDraft = (
+  draft: DraftRecord,
+  serverValues?: Record<string, unknown>
+): DraftFieldDiff[] => {
+  return Object.keys(draft.values)
+    .map((field): DraftFieldDiff => {
+      const baseValue = draft.baseValues[field];
+      const hasServerValue = !!serverValues && field in serverValues;
+      const serverValue = hasServerValue ? serverValues![field] : baseValue;
+      return {
+        field,
+        draftValue: draft.values[field],
+        serverValue,
+        baseValue,
+        changedOnServer: hasServerValue && !areFieldValuesEqual(serverValue, baseValue),
+      };
+    })
+    .filter(diff => !areFieldValuesEqual(diff.draftValue, diff.serverValue));
+};
+
+/**
+ * Display text for a draft or server value
+ */
+export const formatDraftValue = (value: unknown): string => {
+  if (value === undefined || value === null || value === '') {
+    return '(empty)';
+  }
+  if (value instanceof Date) {
+    return value.toLocaleString();
+  }
+  if (typeof value === 'boolean') {
+    return value ? 'Yes' : 'No';
+  }
+  if (Array.isArray(value)) {
+    return value.length ? value.map(formatDraftValue).join(', ') : '(empty)';
+  }
+  if (typeof value === 'object') {
+    const item = value as Record<string, unknown>;
+    const text = item.title ?? item.Title ?? item.text ?? item.value ?? item.Id;
+    return text !== undefined ? String(text) : JSON.stringify(value);
+  }
+  return String(value);
+};
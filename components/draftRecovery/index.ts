@@ -0,0 +1,29 @@
+// Components
+export { DraftRecoveryBanner } from './DraftRecoveryBanner';
+
+// Hook
+export { useDraftAutosave } from './useDraftAutosave';
+
+// Service and stores
+export { DraftStorageService } from './DraftStorageService';
+export { IndexedDbDraftStore } from './IndexedDbDraftStore';
+export { LocalStorageDraftStore } from './LocalStorageDraftStore';
+export { MemoryDraftStore } from './MemoryDraftStore';
+
+// Helpers
+export { diffDraft, formatDraftValue } from './draftDiff';
+
+// TypeScript types
+export type {
+  DraftFieldDiff,
+  DraftKey,
+  DraftRecord,
+  DraftRecoveryBannerProps,
+  DraftStorageOptions,
+  DraftStorageType,
+  DraftStore,
+  UseDraftAutosaveProps,
+  UseDraftAutosaveReturn,
+} from './types';
+
+export { DRAFT_CONSTANTS } from './types';
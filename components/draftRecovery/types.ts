@@ -0,0 +1,92 @@
+import type { CSSProperties } from 'react';
+import type { FieldValues, UseFormReturn } from 'react-hook-form';
+import type { DraftStorageService } from './DraftStorageService';
+
+// Identifies one user's draft of one form of an item
+export interface DraftKey {
+  listId: string;
+  // Undefined for an item that hasn't been saved yet
+  itemId?: number;
+  // e.g. the user's email
+  userId: string;
+  // Card or form the draft belongs to, e.g. 'request-info'
+  formId: string;
+}
+
+// Unsaved input of a form, changed fields only
+export interface DraftRecord<T extends FieldValues = FieldValues> {
+  key: string;
+  values: Partial<T>;
+  // The same fields as they were loaded when editing started
+  baseValues: Partial<T>;
+  timestamp: number;
+  version: string;
+}
+
+// Where drafts are kept: IndexedDB, localStorage, or an in-memory stand-in
+export interface DraftStore {
+  get(key: string): Promise<string | undefined>;
+  set(key: string, value: string): Promise<void>;
+  remove(key: string): Promise<void>;
+  keys(prefix: string): Promise<string[]>;
+}
+
+export type DraftStorageType = 'indexedDB' | 'localStorage' | 'custom' | 'none';
+
+export interface DraftStorageOptions {
+  prefix?: string;
+  expiration?: number; // milliseconds a draft is kept
+  store?: DraftStore;
+}
+
+// A field whose draft value differs from the value on the server
+export interface DraftFieldDiff {
+  field: string;
+  draftValue: unknown;
+  serverValue: unknown;
+  baseValue: unknown;
+  // Someone saved a different value since the draft was started
+  changedOnServer: boolean;
+}
+
+export interface UseDraftAutosaveProps<T extends FieldValues> {
+  form: Pick<UseFormReturn<T>, 'watch' | 'setValue' | 'formState'>;
+  // Undefined while the form can't be keyed yet (e.g. no user)
+  draftKey: DraftKey | undefined;
+  // Values the form was loaded with, stored next to the draft for the recovery diff
+  baseValues?: Partial<T>;
+  storage?: DraftStorageService;
+  debounceMs?: number;
+  enabled?: boolean;
+}
+
+export interface UseDraftAutosaveReturn<T extends FieldValues> {
+  // Draft found on open, waiting for restore or discard; autosave is paused meanwhile
+  draft: DraftRecord<T> | undefined;
+  lastSavedAt: Date | undefined;
+  restore: () => void;
+  discard: () => Promise<void>;
+  // Remove the draft after the form was saved
+  clear: () => Promise<void>;
+}
+
+export interface DraftRecoveryBannerProps {
+  draft: DraftRecord | undefined;
+  // Current values by form field name; the draft's base values are used without them
+  serverValues?: Record<string, unknown>;
+  fieldLabels?: Record<string, string>;
+  formatValue?: (field: string, value: unknown) => string;
+  onRestore: () => void;
+  onDiscard: () => void | Promise<void>;
+  className?: string;
+  style?: CSSProperties;
+}
+
+export const DRAFT_CONSTANTS = {
+  DEFAULT_PREFIX: 'spfx-drafts',
+  DEFAULT_EXPIRATION: 7 * 24 * 60 * 60 * 1000, // 7 days
+  DEFAULT_DEBOUNCE: 1000, // 1 second
+  DATABASE_NAME: 'spfx-drafts',
+  OBJECT_STORE_NAME: 'drafts',
+  STORAGE_VERSION: '1.0.0',
+} as const;
@@ -0,0 +1,186 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import type { FieldValues, Path, PathValue } from 'react-hook-form';
+import { DraftStorageService } from './DraftStorageService';
+import {
+  DRAFT_CONSTANTS,
+  DraftRecord,
+  UseDraftAutosaveProps,
+  UseDraftAutosaveReturn,
+} from './types';
+
+const pickFields = <T extends FieldValues>(
+  values: Partial<T> | undefined,
+  fields: string[]
+): Partial<T> =>
+  fields.reduce<Record<string, unknown>>((picked, field) => {
+    picked[field] = (values as FieldValues | undefined)?.[field];
+    return picked;
+  }, {}) as Partial<T>;
+
+/**
+ * Autosave the changed fields of a react-hook-form form and offer the draft again when the
+ * form is reopened, e.g. after a crash or an expired session
+ */
+export const useDraftAutosave = <T extends FieldValues>({
+  form,
+  draftKey,
+  baseValues,
+  storage,
+  debounceMs = DRAFT_CONSTANTS.DEFAULT_DEBOUNCE,
+  enabled = true,
+}: UseDraftAutosaveProps<T>): UseDraftAutosaveReturn<T> => {
+  const service = storage || DraftStorageService.getInstance();
+  const [draft, setDraft] = useState<DraftRecord<T> | undefined>(undefined);
+  const [isLoaded, setIsLoaded] = useState(false);
+  const [lastSavedAt, setLastSavedAt] = useState<Date | undefined>(undefined);
+
+  // Reading formState during render subscribes to it
+  const { isDirty, dirtyFields } = form.formState;
+  const values = form.watch();
+  const dirtyMap = dirtyFields as Record<string, unknown>;
+  const dirtyKeys = Object.keys(dirtyMap).filter(field => !!dirtyMap[field]);
+  const changedValues = pickFields<T>(values as Partial<T>, dirtyKeys);
+  const changedSnapshot = isDirty ? JSON.stringify(changedValues) : '';
+
+  const key = enabled && draftKey ? service.buildKey(draftKey) : undefined;
+  const latestRef = useRef({ draftKey, changedValues, dirtyKeys, baseValues });
+  latestRef.current = { draftKey, changedValues, dirtyKeys, baseValues };
+  const pendingSaveRef = useRef<number | undefined>(undefined);
+  const hasSavedRef = useRef(false);
+
+  const saveNow = useCallback(async (): Promise<void> => {
+    const latest = latestRef.current;
+    if (!latest.draftKey || !latest.dirtyKeys.length) {
+      return;
+    }
+
+    const saved = await service.saveDraft<T>(
+      latest.draftKey,
+      latest.changedValues,
+      pickFields<T>(latest.baseValues, latest.dirtyKeys)
+    );
+    if (saved) {
+      hasSavedRef.current = true;
+      setLastSavedAt(new Date());
+    }
+  }, [service]);
+
+  const cancelPendingSave = useCallback((): void => {
+    if (pendingSaveRef.current !== undefined) {
+      clearTimeout(pendingSaveRef.current);
+      pendingSaveRef.current = undefined;
+    }
+  }, []);
+
+  const flushPendingSave = useCallback((): void => {
+    if (pendingSaveRef.current !== undefined) {
+      cancelPendingSave();
+      saveNow().catch(() => undefined);
+    }
+  }, [cancelPendingSave, saveNow]);
+
+  // Look for a draft whenever the form gets a new key
+  useEffect(() => {
+    setDraft(undefined);
+    setIsLoaded(false);
+    hasSavedRef.current = false;
+    if (!key || !draftKey) {
+      return undefined;
+    }
+
+    let isCurrent = true;
+    service
+      .loadDraft<T>(draftKey)
+      .then(record => {
+        if (isCurrent) {
+          setDraft(record);
+          setIsLoaded(true);
+        }
+      })
+      .catch(() => {
+        if (isCurrent) {
+          setIsLoaded(true);
+        }
+      });
+
+    return () => {
+      isCurrent = false;
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [key, service]);
+
+  // Save after a pause in typing; wait until a found draft is restored or discarded
+  useEffect(() => {
+    if (!key || !isLoaded || draft) {
+      return undefined;
+    }
+
+    if (!changedSnapshot) {
+      // Every change was undone
+      if (hasSavedRef.current && latestRef.current.draftKey) {
+        hasSavedRef.current = false;
+        service.removeDraft(latestRef.current.draftKey).catch(() => undefined);
+      }
+      return undefined;
+    }
+
+    cancelPendingSave();
+    pendingSaveRef.current = window.setTimeout(() => {
+      pendingSaveRef.current = undefined;
+      saveNow().catch(() => undefined);
+    }, debounceMs);
+
+    return cancelPendingSave;
+  }, [key, isLoaded, draft, changedSnapshot, debounceMs, service, saveNow, cancelPendingSave]);
+
+  // Keep the last keystrokes when the tab is closed or the form unmounts
+  useEffect(() => {
+    window.addEventListener('pagehide', flushPendingSave);
+    return () => {
+      window.removeEventListener('pagehide', flushPendingSave);
+      flushPendingSave();
+    };
+  }, [flushPendingSave]);
+
+  const restore = useCallback((): void => {
+    if (!draft) {
+      return;
+    }
+
+    const draftValues = draft.values as FieldValues;
+    Object.keys(draftValues).forEach(field => {
+      form.setValue(field as Path<T>, draftValues[field] as PathValue<T, Path<T>>, {
+        shouldDirty: true,
+        shouldValidate: true,
+      });
+    });
+    setDraft(undefined);
+  }, [draft, form]);
+
+  const discard = useCallback(async (): Promise<void> => {
+    setDraft(undefined);
+    if (draftKey) {
+      await service.removeDraft(draftKey);
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [key, service]);
+
+  const clear = useCallback(async (): Promise<void> => {
+    cancelPendingSave();
+    hasSavedRef.current = false;
+    setDraft(undefined);
+    setLastSavedAt(undefined);
+    if (draftKey) {
+      await service.removeDraft(draftKey);
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [key, service, cancelPendingSave]);
+
+  return {
+    draft,
+    lastSavedAt,
+    restore,
+    discard,
+    clear,
+  };
+};
@@ -0,0 +1,35 @@
+import { PresenceEntry, PresenceStore } from './types';
+
+/**
+ * Keeps presence in memory. Share one instance between services to simulate several users
+ * in tests, storybooks or a local workbench.
+ */
+export class MemoryPresenceStore implements PresenceStore {
+  private readonly entries = new Map<string, PresenceEntry>();
+
+  public async heartbeat(entry: PresenceEntry): Promise<void> {
+    this.entries.set(entry.sessionId, { ...entry });
+  }
+
+  public async leave(entry: PresenceEntry): Promise<void> {
+    this.entries.delete(entry.sessionId);
+  }
+
+  public async getPresence(listId: string, itemId: number, since: Date): Promise<PresenceEntry[]> {
+    const result: PresenceEntry[] = [];
+    this.entries.forEach(entry => {
+      if (
+        entry.listId.toLowerCase() === listId.toLowerCase() &&
+        entry.itemId === itemId &&
+        entry.lastSeen >= since
+      ) {
+        result.push({ ...entry });
+      }
+    });
+    return result;
+  }
+
+  public clear(): void {
+    this.entries.clear();
+  }
+}
@@ -0,0 +1,111 @@
+import { Icon } from '@fluentui/react/lib/Icon';
+import { Persona, PersonaSize } from '@fluentui/react/lib/Persona';
+import { TooltipHost } from '@fluentui/react/lib/Tooltip';
+import { LivePersona } from '@pnp/spfx-controls-react/lib/LivePersona';
+import * as React from 'react';
+import { memo, useMemo } from 'react';
+import styles from './PresenceIndicator.module.scss';
+import type { PresenceEntry, PresenceIndicatorProps, SectionPresenceProps } from './types';
+
+// "Jane Doe", "Jane Doe and John Smith", "Jane Doe and 2 others"
+const formatNames = (entries: PresenceEntry[]): string => {
+  const names = entries.map(entry => entry.user.title || entry.user.email);
+  if (names.length <= 2) {
+    return names.join(' and ');
+  }
+  return `${names[0]} and ${names.length - 1} others`;
+};
+
+const getLabel = (entries: PresenceEntry[]): string => {
+  const editors = entries.filter(entry => entry.state === 'editing');
+  if (editors.length) {
+    return `${formatNames(editors)} ${editors.length === 1 ? 'is' : 'are'} editing`;
+  }
+  return `${formatNames(entries)} ${entries.length === 1 ? 'is' : 'are'} viewing`;
+};
+
+// Avatars of the other users who have the item open
+export const PresenceIndicator = memo<PresenceIndicatorProps>(
+  ({ context, entries, maxAvatars = 3, showLabel = true, className = '', style }) => {
+    const visible = useMemo(() => entries.slice(0, maxAvatars), [entries, maxAvatars]);
+
+    if (!entries.length) {
+      return null;
+    }
+
+    const overflow = entries.slice(maxAvatars);
+    const label = getLabel(entries);
+
+    return (
+      <div
+        className={[styles.presenceIndicator, className].filter(Boolean).join(' ')}
+        style={style}
+        role='status'
+        aria-label={label}
+      >
+        <div className={styles.avatars}>
+          {visible.map(entry => (
+            <span
+              key={entry.sessionId}
+              className={entry.state === 'editing' ? styles.avatarEditing : styles.avatar}
+            >
+              <LivePersona
+                upn={entry.user.email}
+                serviceScope={context.serviceScope}
+                template={
+                  <Persona
+                    text={entry.user.title}
+                    secondaryText={entry.state === 'editing' ? 'Editing' : 'Viewing'}
+                    size={PersonaSize.size24}
+                    hidePersonaDetails
+                  />
+                }
+              />
+              {entry.state === 'editing' && (
+                <Icon iconName='Edit' className={styles.editBadge} aria-hidden='true' />
+              )}
+            </span>
+          ))}
+          {overflow.length > 0 && (
+            <TooltipHost content={formatNames(overflow)}>
+              <span className={styles.overflow}>+{overflow.length}</span>
+            </TooltipHost>
+          )}
+        </div>
+        {showLabel && <span className={styles.label}>{label}</span>}
+      </div>
+    );
+  }
+);
+
+PresenceIndicator.displayName = 'PresenceIndicator';
+
+// "Currently being edited by ..." for one card or form section
+export const SectionPresence = memo<SectionPresenceProps>(
+  ({ context, entries, section, className = '', style }) => {
+    const editors = useMemo(
+      () => entries.filter(entry => entry.state === 'editing' && entry.section === section),
+      [entries, section]
+    );
+
+    if (!editors.length) {
+      return null;
+    }
+
+    return (
+      <div
+        className={[styles.sectionPresence, className].filter(Boolean).join(' ')}
+        style={style}
+        role='status'
+      >
+        <Icon iconName='Edit' className={styles.sectionIcon} aria-hidden='true' />
+        <span className={styles.sectionText}>
+          Currently being edited by {formatNames(editors)}
+        </span>
+        <PresenceIndicator context={context} entries={editors} maxAvatars={2} showLabel={false} />
+      </div>
+    );
+  }
+);
+
+SectionPresence.displayName = 'SectionPresence';
@@ -0,0 +1,146 @@
+import type { IPrincipal } from '../activityItem';
+import {
+  PRESENCE_CONSTANTS,
+  PresenceEntry,
+  PresenceOptions,
+  PresenceState,
+  PresenceStore,
+} from './types';
+
+const createSessionId = (): string =>
+  `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+
+/**
+ * Announces the current user's presence on an item with periodic heartbeats and reads the
+ * presence of everyone else. One service per open item.
+ */
+export class PresenceService {
+  public readonly sessionId: string;
+  private readonly store: PresenceStore;
+  private readonly options: Required<PresenceOptions>;
+  private entry: PresenceEntry;
+  private heartbeatTimer: number | undefined = undefined;
+  private isJoined = false;
+  // Store calls run one at a time, so a session is never added twice or left before it's added
+  private pending: Promise<void> = Promise.resolve();
+
+  constructor(
+    store: PresenceStore,
+    user: IPrincipal,
+    listId: string,
+    itemId: number,
+    options: PresenceOptions = {}
+  ) {
+    this.store = store;
+    this.sessionId = createSessionId();
+    this.options = {
+      heartbeatInterval: PRESENCE_CONSTANTS.DEFAULT_HEARTBEAT_INTERVAL,
+      pollInterval: PRESENCE_CONSTANTS.DEFAULT_POLL_INTERVAL,
+      staleAfter: PRESENCE_CONSTANTS.DEFAULT_STALE_AFTER,
+      ...options,
+    };
+    this.entry = {
+      sessionId: this.sessionId,
+      listId,
+      itemId,
+      user,
+      state: 'viewing',
+      lastSeen: new Date(),
+    };
+  }
+
+  /**
+   * Start sending heartbeats
+   */
+  public async join(state: PresenceState = 'viewing', section?: string): Promise<void> {
+    this.entry = { ...this.entry, state, section };
+    this.isJoined = true;
+
+    if (this.heartbeatTimer === undefined) {
+      this.heartbeatTimer = window.setInterval(() => {
+        this.heartbeat().catch(error => console.warn('Presence heartbeat failed:', error));
+      }, this.options.heartbeatInterval);
+    }
+
+    await this.heartbeat();
+  }
+
+  /**
+   * Change between viewing and editing; others see it with the next poll
+   */
+  public async update(state: PresenceState, section?: string): Promise<void> {
+    if (this.entry.state === state && this.entry.section === section) {
+      return;
+    }
+
+    this.entry = { ...this.entry, state, section };
+    if (this.isJoined) {
+      await this.heartbeat();
+    }
+  }
+
+  /**
+   * Stop sending heartbeats and remove this session
+   */
+  public async leave(): Promise<void> {
+    if (this.heartbeatTimer !== undefined) {
+      clearInterval(this.heartbeatTimer);
+      this.heartbeatTimer = undefined;
+    }
+    if (!this.isJoined) {
+      return;
+    }
+
+    this.isJoined = false;
+    await this.enqueue(() => this.store.leave(this.entry));
+  }
+
+  /**
+   * Other users with the item open, one entry per user; editing wins over viewing
+   */
+  public async getOthers(): Promise<PresenceEntry[]> {
+    const since = new Date(Date.now() - this.options.staleAfter);
+    const entries = await this.store.getPresence(this.entry.listId, this.entry.itemId, since);
+    const ownEmail = this.entry.user.email.toLowerCase();
+
+    const byUser = new Map<string, PresenceEntry>();
+    entries
+      .filter(
+        entry => entry.sessionId !== this.sessionId && entry.user.email.toLowerCase() !== ownEmail
+      )
+      .forEach(entry => {
+        const key = entry.user.email.toLowerCase();
+        const existing = byUser.get(key);
+        if (!existing || isMoreRelevant(entry, existing)) {
+          byUser.set(key, entry);
+        }
+      });
+
+    const others: PresenceEntry[] = [];
+    byUser.forEach(entry => others.push(entry));
+    return others.sort((a, b) => a.user.title.localeCompare(b.user.title));
+  }
+
+  public getOptions(): Required<PresenceOptions> {
+    return { ...this.options };
+  }
+
+  private heartbeat(): Promise<void> {
+    return this.enqueue(() => {
+      this.entry = { ...this.entry, lastSeen: new Date() };
+      return this.store.heartbeat(this.entry);
+    });
+  }
+
+  private enqueue(operation: () => Promise<void>): Promise<void> {
+    this.pending = this.pending.catch(() => undefined).then(operation);
+    return this.pending;
+  }
+}
+
+function isMoreRelevant(entry: PresenceEntry, existing: PresenceEntry): boolean {
+  if (entry.state !== existing.state) {
+    return entry.state === 'editing';
+  }
+  return entry.lastSeen > existing.lastSeen;
+}
@@ -0,0 +1,178 @@
+import { SPFI } from '@pnp/sp';
+import '@pnp/sp/fields';
+import '@pnp/sp/items';
+import { IList } from '@pnp/sp/lists';
+import '@pnp/sp/lists';
+import '@pnp/sp/webs';
+import { PRESENCE_CONSTANTS, PresenceEntry, PresenceState, PresenceStore } from './types';
+
+// Fields getPresence and removeStale filter on; without indexes the queries hit the list view
+// threshold once the list holds more than 5,000 sessions
+const INDEXED_FIELDS = ['TargetListId', 'Modified'];
+
+interface PresenceListItem {
+  Id: number;
+  Title: string;
+  TargetListId: string;
+  TargetItemId: number;
+  UserEmail: string;
+  UserTitle: string;
+  PresenceState: PresenceState;
+  PresenceSection: string | null;
+  Modified: string;
+}
+
+/**
+ * Stores heartbeats as items of a hidden list, one item per session. The item's Modified date
+ * is the heartbeat time, so every user is measured against the server clock: the cutoff passed
+ * to `getPresence` is moved by how far this browser's clock is off from the server's.
+ */
+export class SharePointPresenceStore implements PresenceStore {
+  private readonly sp: SPFI;
+  private readonly listTitle: string;
+  // Session ID -> presence list item ID
+  private readonly itemIds = new Map<string, number>();
+  // Server clock minus browser clock, measured when a session item is added
+  private clockOffset = 0;
+
+  constructor(sp: SPFI, listTitle: string = PRESENCE_CONSTANTS.DEFAULT_LIST_TITLE) {
+    this.sp = sp;
+    this.listTitle = listTitle;
+  }
+
+  /**
+   * Create the hidden presence list and its fields if they don't exist yet, and index the
+   * fields the queries filter on. Requires Manage Lists permission; run it once from a
+   * provisioning step (see PS/ItemPresence).
+   */
+  public async ensureList(): Promise<void> {
+    const { created, list } = await this.sp.web.lists.ensure(
+      this.listTitle,
+      'Who has list items open (presence heartbeats)',
+      100,
+      false,
+      { Hidden: true }
+    );
+    if (created) {
+      await list.fields.addText('TargetListId');
+      await list.fields.addNumber('TargetItemId');
+      await list.fields.addText('UserEmail');
+      await list.fields.addText('UserTitle');
+      await list.fields.addText('PresenceState');
+      await list.fields.addText('PresenceSection');
+    }
+
+    // Also for lists created before the indexes were added
+    for (const field of INDEXED_FIELDS) {
+      await list.fields.getByInternalNameOrTitle(field).update({ Indexed: true });
+    }
+  }
+
+  public async heartbeat(entry: PresenceEntry): Promise<void> {
+    const values = {
+      Title: entry.sessionId,
+      TargetListId: normalizeListId(entry.listId),
+      TargetItemId: entry.itemId,
+      UserEmail: entry.user.email,
+      UserTitle: entry.user.title,
+      PresenceState: entry.state,
+      PresenceSection: entry.section || null,
+    };
+
+    const itemId = this.itemIds.get(entry.sessionId);
+    if (itemId !== undefined) {
+      try {
+        // Updating bumps Modified even when nothing else changed
+        await this.getList().items.getById(itemId).update(values);
+        return;
+      } catch (error) {
+        if (!isNotFound(error)) {
+          throw error;
+        }
+        // Removed by a cleanup job; add it again
+        this.itemIds.delete(entry.sessionId);
+      }
+    }
+
+    const sentAt = Date.now();
+    const result = await this.getList().items.add(values);
+    this.itemIds.set(entry.sessionId, result.data.Id);
+    this.updateClockOffset(result.data.Modified, sentAt);
+  }
+
+  public async leave(entry: PresenceEntry): Promise<void> {
+    const itemId = this.itemIds.get(entry.sessionId);
+    if (itemId === undefined) {
+      return;
+    }
+
+    this.itemIds.delete(entry.sessionId);
+    await this.getList().items.getById(itemId).delete();
+  }
+
+  public async getPresence(listId: string, itemId: number, since: Date): Promise<PresenceEntry[]> {
+    // `since` comes from the browser clock, Modified from the server's
+    const serverSince = new Date(since.getTime() + this.clockOffset);
+    const items: PresenceListItem[] = await this.getList()
+      .items.select(
+        'Id',
+        'Title',
+        'TargetListId',
+        'TargetItemId',
+        'UserEmail',
+        'UserTitle',
+        'PresenceState',
+        'PresenceSection',
+        'Modified'
+      )
+      .filter(
+        `TargetListId eq '${normalizeListId(listId)}' and TargetItemId eq ${itemId} ` +
+          `and Modified ge datetime'${serverSince.toISOString()}'`
+      )
+      .top(100)();
+
+    return items.map((item): PresenceEntry => ({
+      sessionId: item.Title,
+      listId: item.TargetListId,
+      itemId: item.TargetItemId,
+      user: { id: item.UserEmail, title: item.UserTitle, email: item.UserEmail },
+      state: item.PresenceState === 'editing' ? 'editing' : 'viewing',
+      section: item.PresenceSection || undefined,
+      lastSeen: new Date(item.Modified),
+    }));
+  }
+
+  /**
+   * Delete sessions that stopped sending heartbeats, e.g. closed without leaving
+   * @param olderThan - Last heartbeat before this time
+   */
+  public async removeStale(olderThan: Date): Promise<number> {
+    const items: Array<{ Id: number }> = await this.getList()
+      .items.select('Id')
+      .filter(`Modified lt datetime'${olderThan.toISOString()}'`)
+      .top(500)();
+
+    for (const item of items) {
+      await this.getList().items.getById(item.Id).delete();
+    }
+    return items.length;
+  }
+
+  // Modified has whole seconds, close enough next to the stale timeout
+  private updateClockOffset(modified: string | undefined, sentAt: number): void {
+    const serverTime = modified ? Date.parse(modified) : NaN;
+    if (!isNaN(serverTime)) {
+      this.clockOffset = serverTime - Math.round((sentAt + Date.now()) / 2);
+    }
+  }
+
+  private getList(): IList {
+    return this.sp.web.lists.getByTitle(this.listTitle);
+  }
+}
+
+const isNotFound = (error: unknown): boolean =>
+  (error as { status?: number } | undefined)?.status === 404;
+
+const normalizeListId = (listId: string): string =>
+  listId.trim().toLowerCase().replace(/^\{|\}$/g, '');
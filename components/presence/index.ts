@@ -0,0 +1,24 @@
+// Components
+export { PresenceIndicator, SectionPresence } from './PresenceIndicator';
+
+// Hook
+export { usePresence } from './usePresence';
+
+// Service and stores
+export { PresenceService } from './PresenceService';
+export { SharePointPresenceStore } from './SharePointPresenceStore';
+export { MemoryPresenceStore } from './MemoryPresenceStore';
+
+// TypeScript types
+export type {
+  PresenceEntry,
+  PresenceIndicatorProps,
+  PresenceOptions,
+  PresenceState,
+  PresenceStore,
+  SectionPresenceProps,
+  UsePresenceProps,
+  UsePresenceReturn,
+} from './types';
+
+export { PRESENCE_CONSTANTS } from './types';
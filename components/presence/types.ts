@@ -0,0 +1,76 @@
+import type { WebPartContext } from '@microsoft/sp-webpart-base';
+import type { CSSProperties } from 'react';
+import type { IPrincipal } from '../activityItem';
+
+export type PresenceState = 'viewing' | 'editing';
+
+// One open tab looking at an item
+export interface PresenceEntry {
+  sessionId: string;
+  listId: string;
+  itemId: number;
+  user: IPrincipal;
+  state: PresenceState;
+  // Card or form section being edited
+  section?: string;
+  lastSeen: Date;
+}
+
+// Where heartbeats are stored: a hidden SharePoint list, a relay, or an in-memory stand-in
+export interface PresenceStore {
+  heartbeat(entry: PresenceEntry): Promise<void>;
+  leave(entry: PresenceEntry): Promise<void>;
+  // Entries of an item seen since the given time
+  getPresence(listId: string, itemId: number, since: Date): Promise<PresenceEntry[]>;
+}
+
+export interface PresenceOptions {
+  heartbeatInterval?: number; // milliseconds between heartbeats
+  pollInterval?: number; // milliseconds between reads of other sessions
+  staleAfter?: number; // sessions without a heartbeat for this long are gone
+}
+
+export interface UsePresenceProps {
+  store: PresenceStore;
+  user: IPrincipal;
+  listId: string;
+  itemId: number;
+  state?: PresenceState;
+  section?: string;
+  options?: PresenceOptions;
+  enabled?: boolean;
+}
+
+export interface UsePresenceReturn {
+  // Other users with the item open, one entry per user
+  others: PresenceEntry[];
+  viewers: PresenceEntry[];
+  editors: PresenceEntry[];
+  getSectionEditors: (section: string) => PresenceEntry[];
+  error: string | undefined;
+}
+
+export interface PresenceIndicatorProps {
+  context: WebPartContext;
+  entries: PresenceEntry[];
+  // Avatars before the "+N" overflow
+  maxAvatars?: number;
+  showLabel?: boolean;
+  className?: string;
+  style?: CSSProperties;
+}
+
+export interface SectionPresenceProps {
+  context: WebPartContext;
+  entries: PresenceEntry[];
+  section: string;
+  className?: string;
+  style?: CSSProperties;
+}
+
+export const PRESENCE_CONSTANTS = {
+  DEFAULT_HEARTBEAT_INTERVAL: 30000, // 30 seconds
+  DEFAULT_POLL_INTERVAL: 15000, // 15 seconds
+  DEFAULT_STALE_AFTER: 90000, // 90 seconds
+  DEFAULT_LIST_TITLE: 'ItemPresence',
+} as const;
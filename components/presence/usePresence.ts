@@ -0,0 +1,107 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { PresenceService } from './PresenceService';
+import { PresenceEntry, UsePresenceProps, UsePresenceReturn } from './types';
+
+/**
+ * Announce the current user on an item and track everyone else who has it open.
+ * Pass `state: 'editing'` and a `section` while the user edits part of the item.
+ */
+export const usePresence = ({
+  store,
+  user,
+  listId,
+  itemId,
+  state = 'viewing',
+  section,
+  options = {},
+  enabled = true,
+}: UsePresenceProps): UsePresenceReturn => {
+  const [others, setOthers] = useState<PresenceEntry[]>([]);
+  const [error, setError] = useState<string | undefined>(undefined);
+  const serviceRef = useRef<PresenceService | undefined>(undefined);
+
+  // Latest values for the join effect, which only restarts when the item or user changes
+  const latestRef = useRef({ user, state, section });
+  latestRef.current = { user, state, section };
+
+  useEffect(() => {
+    if (!enabled || !store || !listId || !itemId || !user?.email) {
+      setOthers([]);
+      return undefined;
+    }
+
+    let isCurrent = true;
+    const { user: currentUser, state: currentState, section: currentSection } = latestRef.current;
+    const service = new PresenceService(store, currentUser, listId, itemId, options);
+    serviceRef.current = service;
+
+    service.join(currentState, currentSection).catch(joinError => {
+      console.warn('usePresence: Join failed', joinError);
+    });
+
+    const poll = (): void => {
+      // Nobody sees the avatars while the tab is hidden
+      if (typeof document !== 'undefined' && document.hidden) {
+        return;
+      }
+
+      service
+        .getOthers()
+        .then(result => {
+          if (isCurrent) {
+            setOthers(result);
+            setError(undefined);
+          }
+        })
+        .catch(pollError => {
+          if (isCurrent) {
+            setError(pollError instanceof Error ? pollError.message : 'Presence check failed');
+          }
+        });
+    };
+
+    poll();
+    const timer = window.setInterval(poll, service.getOptions().pollInterval);
+
+    // Closing the tab skips effect cleanup
+    const handlePageHide = (): void => {
+      service.leave().catch(() => undefined);
+    };
+    window.addEventListener('pagehide', handlePageHide);
+
+    return () => {
+      isCurrent = false;
+      clearInterval(timer);
+      window.removeEventListener('pagehide', handlePageHide);
+      serviceRef.current = undefined;
+      service.leave().catch(leaveError => {
+        console.warn('usePresence: Leave failed', leaveError);
+      });
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [store, user?.email, listId, itemId, enabled, JSON.stringify(options)]);
+
+  // Announce state changes right away instead of with the next heartbeat
+  useEffect(() => {
+    serviceRef.current?.update(state, section).catch(updateError => {
+      console.warn('usePresence: Update failed', updateError);
+    });
+  }, [state, section]);
+
+  const viewers = useMemo(() => others.filter(entry => entry.state === 'viewing'), [others]);
+  const editors = useMemo(() => others.filter(entry => entry.state === 'editing'), [others]);
+
+  const getSectionEditors = useCallback(
+    (sectionName: string): PresenceEntry[] =>
+      editors.filter(entry => entry.section === sectionName),
+    [editors]
+  );
+
+  return {
+    others,
+    viewers,
+    editors,
+    getSectionEditors,
+    error,
+  };
+};
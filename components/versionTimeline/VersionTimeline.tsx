@@ -0,0 +1,126 @@
+import { MessageBar, MessageBarType } from '@fluentui/react/lib/MessageBar';
+import { Persona, PersonaSize } from '@fluentui/react/lib/Persona';
+import { Spinner, SpinnerSize } from '@fluentui/react/lib/Spinner';
+import { Text } from '@fluentui/react/lib/Text';
+import * as React from 'react';
+import { useMemo } from 'react';
+import type { ListSchema } from '../../utilities/listItemHelper';
+import type { IFieldChange, VersionDiff } from '../../utilities/versionHistory';
+import { useVersionHistory } from './useVersionHistory';
+import styles from './VersionTimeline.module.scss';
+import type { VersionTimelineProps } from './VersionTimeline.types';
+
+// "dueDate" -> "Due date"
+const humanize = (property: string): string => {
+  const words = property
+    .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+    .replace(/_/g, ' ')
+    .toLowerCase();
+  return words.charAt(0).toUpperCase() + words.slice(1);
+};
+
+// Version timeline: who changed which fields of an item, and when
+export const VersionTimeline = <S extends ListSchema>({
+  labels,
+  newestFirst = true,
+  showUnchangedVersions = false,
+  className = '',
+  style,
+  ...historyProps
+}: VersionTimelineProps<S>): React.ReactElement => {
+  const { diffs, isLoading, error } = useVersionHistory(historyProps);
+
+  const entries = useMemo(() => {
+    const visible = showUnchangedVersions ? diffs : diffs.filter(diff => diff.changes.length);
+    return newestFirst ? visible.slice().reverse() : visible;
+  }, [diffs, newestFirst, showUnchangedVersions]);
+
+  const getLabel = (change: IFieldChange): string =>
+    (labels as Record<string, string | undefined> | undefined)?.[change.property] ??
+    humanize(change.property);
+
+  const renderChange = (change: IFieldChange, isCreation: boolean): React.ReactNode => (
+    <li key={change.property} className={styles.change}>
+      <span className={styles.field}>{getLabel(change)}</span>
+      {!isCreation && (
+        <>
+          <span className={styles.oldValue}>{change.oldText || '(empty)'}</span>
+          <span className={styles.arrow} aria-label='changed to'>
+            →
+          </span>
+        </>
+      )}
+      <span className={styles.newValue}>{change.newText || '(empty)'}</span>
+    </li>
+  );
+
+  const renderEntry = (diff: VersionDiff<S>): React.ReactNode => {
+    const isCreation = !diff.fromVersion;
+    const title = isCreation
+      ? `Version ${diff.toVersion.versionLabel} created`
+      : diff.fromVersion && diff.fromVersion.versionId !== diff.toVersion.versionId - 1
+      ? `Version ${diff.fromVersion.versionLabel} → ${diff.toVersion.versionLabel}`
+      : `Version ${diff.toVersion.versionLabel}`;
+
+    return (
+      <li key={diff.toVersion.versionId} className={styles.entry}>
+        <span className={styles.marker} aria-hidden='true' />
+        <div className={styles.header}>
+          <Text variant='mediumPlus' className={styles.version}>
+            {title}
+          </Text>
+          <Text variant='small' className={styles.date}>
+            {diff.changedOn.toLocaleString()}
+          </Text>
+        </div>
+        {diff.changedBy && (
+          <Persona
+            text={diff.changedBy.title}
+            secondaryText={diff.changedBy.email}
+            size={PersonaSize.size24}
+            className={styles.persona}
+          />
+        )}
+        {diff.changes.length ? (
+          <ul className={styles.changes}>
+            {diff.changes.map(change => renderChange(change, isCreation))}
+          </ul>
+        ) : (
+          <Text variant='small' className={styles.noChanges}>
+            No tracked fields changed
+          </Text>
+        )}
+      </li>
+    );
+  };
+
+  const classes = [styles.versionTimeline, className].filter(Boolean).join(' ');
+
+  if (isLoading) {
+    return (
+      <div className={classes} style={style}>
+        <Spinner size={SpinnerSize.small} label='Loading version history...' />
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className={classes} style={style}>
+        <MessageBar messageBarType={MessageBarType.error}>
+          Unable to load version history: {error}
+        </MessageBar>
+      </div>
+    );
+  }
+
+  return (
+    <div className={classes} style={style}>
+      {entries.length ? (
+        <ol className={styles.timeline}>{entries.map(renderEntry)}</ol>
+      ) : (
+        <Text className={styles.empty}>No changes to show</Text>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,54 @@
+import { SPFI } from '@pnp/sp';
+import { CSSProperties } from 'react';
+import type { ISPTimeZone, ListSchema } from '../../utilities/listItemHelper';
+import type { VersionDiff } from '../../utilities/versionHistory';
+
+export interface UseVersionHistoryProps<S extends ListSchema> {
+  sp: SPFI;
+
+  /** List title or ID */
+  listName: string;
+
+  /** Item whose versions are compared */
+  itemId: number;
+
+  /** Fields to compare; define it outside the component so it keeps its identity */
+  schema: S;
+
+  /** Web time zone for date-only fields (see loadSiteTimeZone) */
+  timeZone?: ISPTimeZone;
+
+  /** Only show changes made after this version label (e.g. "2.0") */
+  fromVersion?: string;
+
+  /** Only show changes up to this version label; the current version when omitted */
+  toVersion?: string;
+
+  /** Show a single diff between `fromVersion` and `toVersion` instead of one per version */
+  combined?: boolean;
+}
+
+export interface UseVersionHistoryReturn<S extends ListSchema> {
+  /** Diffs, oldest first */
+  diffs: VersionDiff<S>[];
+  isLoading: boolean;
+  error: string | undefined;
+  reload: () => void;
+}
+
+export interface VersionTimelineProps<S extends ListSchema> extends UseVersionHistoryProps<S> {
+  /** Display names of schema properties; property names are humanized otherwise */
+  labels?: Partial<Record<keyof S, string>>;
+
+  /** Show the newest version at the top (default: true) */
+  newestFirst?: boolean;
+
+  /** Show versions where none of the schema fields changed (default: false) */
+  showUnchangedVersions?: boolean;
+
+  /** Custom CSS class */
+  className?: string;
+
+  /** Custom styles */
+  style?: CSSProperties;
+}
@@ -0,0 +1,15 @@
+// Main component
+export { VersionTimeline } from './VersionTimeline';
+
+// Hook
+export { useVersionHistory } from './useVersionHistory';
+
+// TypeScript types
+export type {
+  VersionTimelineProps,
+  UseVersionHistoryProps,
+  UseVersionHistoryReturn,
+} from './VersionTimeline.types';
+
+// Default export
+export { VersionTimeline as default } from './VersionTimeline';
@@ -0,0 +1,98 @@
+import { useCallback, useEffect, useState } from 'react';
+import type { ListSchema } from '../../utilities/listItemHelper';
+import {
+  createVersionHistoryService,
+  ItemVersion,
+  VersionDiff,
+} from '../../utilities/versionHistory';
+import type { UseVersionHistoryProps, UseVersionHistoryReturn } from './VersionTimeline.types';
+
+/**
+ * Load an item's version history as per-field diffs
+ */
+export const useVersionHistory = <S extends ListSchema>({
+  sp,
+  listName,
+  itemId,
+  schema,
+  timeZone,
+  fromVersion,
+  toVersion,
+  combined = false,
+}: UseVersionHistoryProps<S>): UseVersionHistoryReturn<S> => {
+  const [diffs, setDiffs] = useState<VersionDiff<S>[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | undefined>(undefined);
+  const [reloadCount, setReloadCount] = useState(0);
+
+  useEffect(() => {
+    // Ignore responses for earlier props once they change or the component unmounts
+    let isCurrent = true;
+    setIsLoading(true);
+    setError(undefined);
+
+    const service = createVersionHistoryService(sp, { timeZone });
+    service
+      .getVersions(listName, itemId, schema)
+      .then(versions => {
+        const start = findVersion(versions, fromVersion, 0);
+        const end = findVersion(versions, toVersion, versions.length - 1);
+
+        let result: VersionDiff<S>[];
+        if (combined) {
+          const baseline = fromVersion ? versions[start] : undefined;
+          result = versions.length ? [service.diffVersions(schema, baseline, versions[end])] : [];
+        } else {
+          // Without fromVersion the first entry lists the values the item was created with
+          const first = fromVersion ? start + 1 : start;
+          result = versions
+            .slice(first, end + 1)
+            .map((version, index) =>
+              service.diffVersions(
+                schema,
+                first + index > 0 ? versions[first + index - 1] : undefined,
+                version
+              )
+            );
+        }
+
+        if (isCurrent) {
+          setDiffs(result);
+        }
+      })
+      .catch((loadError: unknown) => {
+        if (isCurrent) {
+          setDiffs([]);
+          setError(loadError instanceof Error ? loadError.message : String(loadError));
+        }
+      })
+      .then(() => {
+        if (isCurrent) {
+          setIsLoading(false);
+        }
+      });
+
+    return () => {
+      isCurrent = false;
+    };
+  }, [sp, listName, itemId, schema, timeZone, fromVersion, toVersion, combined, reloadCount]);
+
+  const reload = useCallback(() => setReloadCount(count => count + 1), []);
+
+  return { diffs, isLoading, error, reload };
+};
+
+function findVersion<S extends ListSchema>(
+  versions: ItemVersion<S>[],
+  label: string | undefined,
+  fallback: number
+): number {
+  if (!label) {
+    return fallback;
+  }
+  const index = versions.findIndex(version => version.versionLabel === label);
+  if (index < 0) {
+    throw new Error(`Version ${label} not found`);
+  }
+  return index;
+}
@@ -3,8 +3,12 @@
  * PnP caching behavior configurations for different strategies
  */
 
+import { noInherit } from '@pnp/core';
 import { Caching, CachingPessimisticRefresh } from '@pnp/queryable';
-import type { CacheStrategy, CacheBehaviorConfig } from '../utils/types';
+import type { Queryable } from '@pnp/queryable';
+import type { CacheStrategy, CacheBehaviorConfig, CacheMetrics } from '../utils/types';
+
+export type { CacheMetrics } from '../utils/types';
 
 // Default cache TTL values
 const DEFAULT_TTL = {
@@ -14,25 +18,78 @@ const DEFAULT_TTL = {
 
 /**
  * Creates a standard caching behavior for PnP
+ * Hits, misses and errors are recorded when a metrics collector is given
  */
-export function createCacheBehavior(ttlMs: number) {
-  return Caching({
+export function createCacheBehavior(ttlMs: number, metrics?: CacheMetricsCollector) {
+  const caching = Caching({
     store: 'local',
     keyFactory: (url: string) => url.toLowerCase(),
     expireFunc: () => new Date(Date.now() + ttlMs),
   });
+  return withCacheMetrics(caching, metrics);
 }
 
 /**
  * Creates a pessimistic refresh caching behavior for PnP
  * This strategy serves cached data immediately but refreshes in background
  */
-export function createPessimisticBehavior(ttlMs: number) {
-  return CachingPessimisticRefresh({
+export function createPessimisticBehavior(ttlMs: number, metrics?: CacheMetricsCollector) {
+  const caching = CachingPessimisticRefresh({
     store: 'local',
     keyFactory: (url: string) => url.toLowerCase(),
     expireFunc: () => new Date(Date.now() + ttlMs),
   });
+  return withCacheMetrics(caching, metrics);
+}
+
+/**
+ * PnP behavior that records cache outcomes; must be applied after the caching behavior
+ * so a cached result is already set when it runs
+ */
+export function TrackCacheMetrics(metrics: CacheMetricsCollector) {
+  return (instance: Queryable) => {
+    instance.on.pre(async function (url: string, init: RequestInit, result: any) {
+      const headers = (init.headers ?? {}) as Record<string, string>;
+      const cacheable =
+        /^get$/i.test(init.method ?? 'GET') &&
+        !Object.keys(headers).some(key => /^x-pnp-cachenever$/i.test(key));
+
+      if (!cacheable) {
+        return [url, init, result];
+      }
+
+      if (result !== undefined) {
+        metrics.recordHit();
+      } else {
+        // A failed request counts as an error only, not also as a miss
+        this.on.data(
+          noInherit(function () {
+            metrics.recordMiss();
+          })
+        );
+        this.on.error(
+          noInherit(function () {
+            metrics.recordError();
+          })
+        );
+      }
+
+      return [url, init, result];
+    });
+
+    return instance;
+  };
+}
+
+function withCacheMetrics(
+  caching: (instance: Queryable) => Queryable,
+  metrics?: CacheMetricsCollector
+) {
+  if (!metrics) {
+    return caching;
+  }
+  const tracking = TrackCacheMetrics(metrics);
+  return (instance: Queryable) => tracking(caching(instance));
 }
 
 /**
@@ -41,6 +98,7 @@ export function createPessimisticBehavior(ttlMs: number) {
 export class CacheBehaviorFactory {
   private readonly shortTtl: number;
   private readonly longTtl: number;
+  private readonly metrics = new Map<CacheStrategy, CacheMetricsCollector>();
 
   constructor(shortTtlMs?: number, longTtlMs?: number) {
     this.shortTtl = shortTtlMs ?? DEFAULT_TTL.SHORT;
@@ -53,13 +111,13 @@ export class CacheBehaviorFactory {
   getBehavior(strategy: CacheStrategy) {
     switch (strategy) {
       case 'short':
-        return createCacheBehavior(this.shortTtl);
+        return createCacheBehavior(this.shortTtl, this.getMetricsCollector(strategy));
 
       case 'long':
-        return createCacheBehavior(this.longTtl);
+        return createCacheBehavior(this.longTtl, this.getMetricsCollector(strategy));
 
       case 'pessimistic':
-        return createPessimisticBehavior(this.longTtl);
+        return createPessimisticBehavior(this.longTtl, this.getMetricsCollector(strategy));
 
       case 'none':
       default:
@@ -114,6 +172,29 @@ export class CacheBehaviorFactory {
       long: this.longTtl,
     };
   }
+
+  /**
+   * Gets the metrics collector for a strategy (created on first use)
+   */
+  getMetricsCollector(strategy: CacheStrategy): CacheMetricsCollector {
+    let collector = this.metrics.get(strategy);
+    if (!collector) {
+      collector = new CacheMetricsCollector();
+      this.metrics.set(strategy, collector);
+    }
+    return collector;
+  }
+
+  /**
+   * Gets metrics for every strategy that has a collector
+   */
+  getAllMetrics(): Partial<Record<CacheStrategy, CacheMetrics>> {
+    const result: Partial<Record<CacheStrategy, CacheMetrics>> = {};
+    this.metrics.forEach((collector, strategy) => {
+      result[strategy] = collector.getMetrics();
+    });
+    return result;
+  }
 }
 
 /**
@@ -204,6 +285,27 @@ export class CacheKeyUtils {
     return `${baseKey}|site:${site}`;
   }
 
+  /**
+   * Generates a cache key that varies by request headers (order and case insensitive)
+   */
+  static headerSpecific(
+    baseKey: string,
+    headers?: Record<string, string>,
+    ignoreHeaders: string[] = []
+  ): string {
+    if (!headers) {
+      return baseKey;
+    }
+
+    const ignored = ignoreHeaders.map(header => header.toLowerCase());
+    const parts = Object.keys(headers)
+      .filter(key => !ignored.includes(key.toLowerCase()))
+      .map(key => `${key.toLowerCase()}=${headers[key]}`)
+      .sort();
+
+    return parts.length > 0 ? `${baseKey}|headers:${parts.join('&')}` : baseKey;
+  }
+
   /**
    * Generates a cache key with version for cache busting
    */
@@ -236,18 +338,6 @@ export class CacheKeyUtils {
   }
 }
 
-/**
- * Cache performance metrics
- */
-export interface CacheMetrics {
-  hits: number;
-  misses: number;
-  errors: number;
-  totalRequests: number;
-  hitRatio: number;
-  lastUpdated: number;
-}
-
 /**
  * Simple cache metrics collector
  */
@@ -0,0 +1,327 @@
+/**
+ * src/context/caching/invalidation.ts
+ * Tagged eviction of PnP cache entries by list and item
+ */
+
+import { noInherit } from '@pnp/core';
+import type { Queryable } from '@pnp/queryable';
+import type { CacheInvalidationTarget } from '../utils/types';
+
+/**
+ * List and item a cached request refers to, derived from its URL
+ */
+export interface CacheTags {
+  /** Lower-case list GUID when the list is addressed by ID */
+  listId?: string;
+  /** Lower-case list title when the list is addressed by title */
+  listTitle?: string;
+  itemId?: number;
+  /** True when the request reads list items (collections or single items) */
+  isItemQuery: boolean;
+}
+
+/**
+ * Invalidation listener (receives the target and the number of evicted entries)
+ */
+export type CacheInvalidationListener = (target: CacheInvalidationTarget, evicted: number) => void;
+
+const GUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * Derives list/item tags from a SharePoint REST URL
+ * (lists(guid'...'), lists/getById('...'), lists/getByTitle('...'), items(1), items/getById(1))
+ */
+export function parseCacheTags(url: string): CacheTags {
+  const path = safeDecode(url.split('?')[0]).toLowerCase();
+  const tags: CacheTags = { isItemQuery: false };
+
+  const byId =
+    /\/lists\(guid'([0-9a-f-]{36})'\)/.exec(path) ||
+    /\/lists\('([0-9a-f-]{36})'\)/.exec(path) ||
+    /\/lists\/getbyid\('([0-9a-f-]{36})'\)/.exec(path);
+  if (byId) {
+    tags.listId = byId[1];
+  } else {
+    const byTitle = /\/lists\/getbytitle\('((?:[^']|'')*)'\)/.exec(path);
+    if (byTitle) {
+      tags.listTitle = byTitle[1].replace(/''/g, "'");
+    }
+  }
+
+  if (!tags.listId && !tags.listTitle) {
+    return tags;
+  }
+
+  const listEnd = path.search(/\/lists(\(|\/getby)/);
+  const rest = path.substring(listEnd);
+  tags.isItemQuery = /\/items(\(|\/|$)/.test(rest) || /\/getitems$/.test(rest);
+
+  const item = /\/items\((\d+)\)/.exec(rest) || /\/items\/getbyid\((\d+)\)/.exec(rest);
+  if (item) {
+    tags.itemId = parseInt(item[1], 10);
+  }
+
+  return tags;
+}
+
+/**
+ * Evicts PnP cache entries (keyed by lower-case request URL) that belong to a list or item.
+ * Lists can be targeted by ID or title; aliases learned from list responses let either match.
+ */
+export class CacheInvalidator {
+  private readonly aliases = new Map<string, string>();
+  private readonly listeners: CacheInvalidationListener[] = [];
+  private readonly writeListeners: Array<(target: CacheInvalidationTarget) => void> = [];
+
+  constructor(private readonly stores: Array<() => Storage | undefined> = defaultStores()) {}
+
+  /**
+   * Records that a list ID and title refer to the same list
+   */
+  registerListAlias(listId: string, listTitle: string): void {
+    if (!listId || !listTitle) {
+      return;
+    }
+    const id = listId.toLowerCase();
+    const title = listTitle.toLowerCase();
+    this.aliases.set(`id:${id}`, title);
+    this.aliases.set(`title:${title}`, id);
+  }
+
+  /**
+   * Evicts cached entries for a list, or for one item and the list's item collections.
+   * `listId` accepts a GUID or a list title.
+   * @returns Number of evicted entries
+   */
+  invalidate(target: CacheInvalidationTarget): number {
+    const { ids, titles } = this.resolveList(target);
+    if (ids.length === 0 && titles.length === 0) {
+      return 0;
+    }
+
+    const evicted = this.evict(tags => {
+      const sameList =
+        (tags.listId !== undefined && ids.indexOf(tags.listId) >= 0) ||
+        (tags.listTitle !== undefined && titles.indexOf(tags.listTitle) >= 0);
+      if (!sameList) {
+        return false;
+      }
+      if (target.itemId === undefined) {
+        return true;
+      }
+      // An item change affects that item and any collection query that may include it
+      return tags.isItemQuery && (tags.itemId === undefined || tags.itemId === target.itemId);
+    });
+
+    this.notify(target, evicted);
+    return evicted;
+  }
+
+  /**
+   * Evicts the entries affected by a write to the given REST URL
+   * @returns Number of evicted entries
+   */
+  invalidateForUrl(url: string): number {
+    const tags = parseCacheTags(url);
+    if (!tags.listId && !tags.listTitle) {
+      return 0;
+    }
+
+    const target: CacheInvalidationTarget = {
+      listId: tags.listId ?? tags.listTitle,
+      itemId: tags.isItemQuery ? tags.itemId : undefined,
+    };
+    this.notifyWrite(target);
+    return this.invalidate(target);
+  }
+
+  /**
+   * Evicts every PnP cache entry
+   * @returns Number of evicted entries
+   */
+  clear(): number {
+    const evicted = this.evict(() => true);
+    this.notify({}, evicted);
+    return evicted;
+  }
+
+  /**
+   * Subscribes to invalidations; returns an unsubscribe function
+   */
+  onInvalidate(listener: CacheInvalidationListener): () => void {
+    this.listeners.push(listener);
+    return () => {
+      const index = this.listeners.indexOf(listener);
+      if (index >= 0) {
+        this.listeners.splice(index, 1);
+      }
+    };
+  }
+
+  /**
+   * Subscribes to writes seen by `invalidateForUrl`; the target carries the list ID
+   * and title when an alias is known. Returns an unsubscribe function.
+   */
+  onWrite(listener: (target: CacheInvalidationTarget) => void): () => void {
+    this.writeListeners.push(listener);
+    return () => {
+      const index = this.writeListeners.indexOf(listener);
+      if (index >= 0) {
+        this.writeListeners.splice(index, 1);
+      }
+    };
+  }
+
+  /**
+   * Learns list ID/title aliases from list metadata responses
+   */
+  observeResponse(url: string, value: any): void {
+    if (!value || typeof value !== 'object') {
+      return;
+    }
+
+    const tags = parseCacheTags(url);
+    if (tags.isItemQuery || (!tags.listId && !tags.listTitle)) {
+      return;
+    }
+
+    const id = typeof value.Id === 'string' ? value.Id : tags.listId;
+    const title = typeof value.Title === 'string' ? value.Title : tags.listTitle;
+    if (id && title && GUID_PATTERN.test(id)) {
+      this.registerListAlias(id, title);
+    }
+  }
+
+  private resolveList(target: CacheInvalidationTarget): { ids: string[]; titles: string[] } {
+    const ids: string[] = [];
+    const titles: string[] = [];
+
+    const add = (value: string | undefined) => {
+      if (!value) return;
+      const normalized = value.toLowerCase().replace(/^\{|\}$/g, '');
+      if (GUID_PATTERN.test(normalized)) {
+        ids.push(normalized);
+        const alias = this.aliases.get(`id:${normalized}`);
+        if (alias) titles.push(alias);
+      } else {
+        titles.push(normalized);
+        const alias = this.aliases.get(`title:${normalized}`);
+        if (alias) ids.push(alias);
+      }
+    };
+
+    add(target.listId);
+    add(target.listTitle);
+    return { ids, titles };
+  }
+
+  private evict(matches: (tags: CacheTags) => boolean): number {
+    let evicted = 0;
+
+    this.stores.forEach(getStore => {
+      const store = getStore();
+      if (!store) {
+        return;
+      }
+
+      try {
+        const keys: string[] = [];
+        for (let i = 0; i < store.length; i++) {
+          const key = store.key(i);
+          if (key && key.indexOf('/_api/') >= 0) {
+            keys.push(key);
+          }
+        }
+
+        keys.forEach(key => {
+          const raw = store.getItem(key);
+          // Only entries written by PnP storage ({"pnp":1,...})
+          const isPnPEntry = !!raw && raw.substring(0, 16).indexOf('"pnp":1') >= 0;
+          if (isPnPEntry && matches(parseCacheTags(key))) {
+            store.removeItem(key);
+            evicted++;
+          }
+        });
+      } catch (error) {
+        console.warn('Cache invalidation failed:', error);
+      }
+    });
+
+    return evicted;
+  }
+
+  private notify(target: CacheInvalidationTarget, evicted: number): void {
+    this.listeners.forEach(listener => {
+      try {
+        listener(target, evicted);
+      } catch (error) {
+        console.warn('Cache invalidation listener error:', error);
+      }
+    });
+  }
+
+  private notifyWrite(target: CacheInvalidationTarget): void {
+    if (this.writeListeners.length === 0) {
+      return;
+    }
+
+    const { ids, titles } = this.resolveList(target);
+    const resolved: CacheInvalidationTarget = {
+      listId: ids[0],
+      listTitle: titles[0],
+      itemId: target.itemId,
+    };
+    this.writeListeners.forEach(listener => {
+      try {
+        listener(resolved);
+      } catch (error) {
+        console.warn('Cache write listener error:', error);
+      }
+    });
+  }
+}
+
+/**
+ * PnP behavior that evicts affected cache entries after a successful write
+ * (any non-GET request addressing a list) and learns list ID/title aliases from reads
+ */
+export function InvalidateOnWrite(invalidator: CacheInvalidator) {
+  return (instance: Queryable) => {
+    instance.on.pre(async function (url: string, init: RequestInit, result: any) {
+      const isRead = /^get$/i.test(init.method ?? 'GET');
+
+      this.on.data(
+        noInherit(function (value: any) {
+          if (isRead) {
+            invalidator.observeResponse(url, value);
+          } else {
+            invalidator.invalidateForUrl(url);
+          }
+        })
+      );
+
+      return [url, init, result];
+    });
+
+    return instance;
+  };
+}
+
+function safeDecode(value: string): string {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return value;
+  }
+}
+
+function defaultStores(): Array<() => Storage | undefined> {
+  const read = (name: 'localStorage' | 'sessionStorage') => () => {
+    try {
+      return typeof window !== 'undefined' ? window[name] : undefined;
+    } catch {
+      return undefined;
+    }
+  };
+  return [read('localStorage'), read('sessionStorage')];
+}
@@ -5,23 +5,38 @@
 
 import { LogLevel, Logger as PnPLogger } from '@pnp/logging';
 import { spfi, SPFI, SPFx } from '@pnp/sp';
+import '@pnp/sp/webs';
 import { CacheBehaviorFactory } from './caching/behaviors';
+import { CacheInvalidator, InvalidateOnWrite } from './caching/invalidation';
+import { DiagnosticsPanel } from './devtools/diagnosticsPanel';
 import {
   detectBuildMode,
-  detectSiteEnvironment,
+  detectEnvironment,
   generateCorrelationId,
   getDefaultCacheStrategy,
   getDefaultLogLevel,
   readUrlOverrides,
+  resolveEnvironmentSettings,
 } from './environment/detector';
+import { Deduplicate, RequestDeduplicator } from './http/deduplication';
 import { SPFxHttpGateway } from './http/gateway';
-import { LoggerFactory } from './logging/logger';
+import { LoggerFactory, MemorySink, SPFxLogger } from './logging/logger';
 import { SPFxPerformanceTracker } from './logging/performance';
+import {
+  BatchingSink,
+  HttpEndpointSink,
+  LOG_TRANSPORT_KEY,
+  SharePointListSink,
+} from './logging/sinks';
+import { SettingsRegistry } from './settings/registry';
+import { CrossTabChannel } from './sync/crossTab';
 import { SPFxLinkBuilder } from './utils/links';
 import type {
   CacheStrategy,
   ContextInitOptions,
+  ContextLogger,
   RuntimeConfig,
+  SettingsDefinitions,
   SPFxContext,
   SPFxContextInput
 } from './utils/types';
@@ -34,6 +49,10 @@ class ContextManager {
   private context: SPFxContext | null = null;
   private isInitialized = false;
   private runtimeConfig: RuntimeConfig | null = null;
+  private diagnosticsPanel: DiagnosticsPanel | null = null;
+  private crossTab: CrossTabChannel | null = null;
+  // Remote sinks created here; they run timers and page listeners until disposed
+  private logSinks: BatchingSink[] = [];
 
   static get current(): SPFxContext {
     if (!ContextManager.instance?.context) {
@@ -86,6 +105,12 @@ class ContextManager {
    */
   static reset(): void {
     if (ContextManager.instance) {
+      ContextManager.instance.diagnosticsPanel?.dispose();
+      ContextManager.instance.diagnosticsPanel = null;
+      ContextManager.instance.crossTab?.dispose();
+      ContextManager.instance.crossTab = null;
+      ContextManager.instance.logSinks.forEach(sink => sink.dispose());
+      ContextManager.instance.logSinks = [];
       ContextManager.instance.context = null;
       ContextManager.instance.isInitialized = false;
       ContextManager.instance.runtimeConfig = null;
@@ -111,21 +136,53 @@ class ContextManager {
 
       const buildMode = detectBuildMode();
       const urlOverrides = readUrlOverrides();
-      const detectedEnv = detectSiteEnvironment(webAbsoluteUrl, webServerRelativeUrl);
-      const environment = urlOverrides?.environment ?? detectedEnv;
+      const siteId = this.extractId(pageContext.site);
+      const webId = this.extractId(pageContext.web);
+      const detected = await detectEnvironment(
+        {
+          webAbsoluteUrl,
+          webServerRelativeUrl,
+          siteId,
+          webId,
+          loadPropertyBag: () => spfi().using(SPFx(spfxContext)).web.allProperties(),
+        },
+        {
+          patterns: options.environment?.patterns,
+          rules: options.environment?.rules,
+        }
+      );
+      // Gates for URL-driven features use the detected site, which `?env=` can't change
+      const isDevSite = detected.environment === 'dev' || buildMode === 'development';
+      const isProdSite = detected.environment === 'prod';
+      // `?env=` only switches environments on dev sites and builds; everywhere else endpoints,
+      // list names and settings come from the detected site
+      const environmentOverride = isDevSite ? urlOverrides?.environment : undefined;
+      const environment = environmentOverride ?? detected.environment;
+      const environmentSource = environmentOverride ? 'url-override' : detected.source;
+      const environmentSettings = resolveEnvironmentSettings(
+        environment,
+        options.environment?.environments
+      );
 
       // Configuration resolution
       const correlationId = generateCorrelationId();
       const componentName = options.componentName ?? 'SPFxApp';
 
-      // Logging configuration
+      // Logging configuration (URL override > environment settings > options > default)
       const defaultLogLevel = getDefaultLogLevel(environment, buildMode);
-      const logLevel = urlOverrides?.logLevel ?? options.logging?.level ?? defaultLogLevel;
+      const logLevel =
+        urlOverrides?.logLevel ??
+        environmentSettings.logLevel ??
+        options.logging?.level ??
+        defaultLogLevel;
 
-      // Cache configuration
+      // Cache configuration (URL override > environment settings > options > default)
       const defaultCacheStrategy = getDefaultCacheStrategy(environment);
       const cacheStrategy =
-        urlOverrides?.cacheStrategy ?? options.caching?.defaultStrategy ?? defaultCacheStrategy;
+        urlOverrides?.cacheStrategy ??
+        environmentSettings.cacheStrategy ??
+        options.caching?.defaultStrategy ??
+        defaultCacheStrategy;
 
       // Create logger
       const logger = LoggerFactory.create({
@@ -139,28 +196,77 @@ class ContextManager {
         productionSamplingRate: options.logging?.productionSampling ?? 0.1,
       });
 
+      // Diagnostics panel: dev tools, or `?spfxDebug` outside prod; the option forces it either way
+      const enableDevTools =
+        buildMode === 'development' && options.features?.enableDevTools !== false;
+      const diagnosticsRequested = urlOverrides?.diagnostics === true && !isProdSite;
+      const diagnosticsPanel =
+        options.diagnostics?.enabled ?? (enableDevTools || diagnosticsRequested);
+
+      // Capture recent entries from the start so the panel shows initialization too
+      const recentLogs = diagnosticsPanel
+        ? new MemorySink(options.diagnostics?.maxLogEntries ?? 200)
+        : undefined;
+      if (recentLogs) {
+        (logger as SPFxLogger).addSink(recentLogs);
+      }
+
       // Create cache behavior factory
       const cacheFactory = new CacheBehaviorFactory(
         options.caching?.shortTtlMs,
         options.caching?.longTtlMs
       );
 
-      // Create PnP SP instances with different caching strategies
-      const spBase = spfi().using(SPFx(spfxContext));
-      const spNoCache = spBase;
+      // Writes through any SP instance or the gateway evict the list/item entries they affect
+      const cacheInvalidator = new CacheInvalidator();
+
+      // Other tabs on the same web hear about saves, invalidations and logout
+      const crossTab = new CrossTabChannel({
+        channelName:
+          options.crossTab?.channelName ?? `spfx-context|${webServerRelativeUrl.toLowerCase()}`,
+        enabled: options.crossTab?.enabled !== false,
+      });
+      this.crossTab = crossTab;
+      this.connectCrossTab(crossTab, cacheInvalidator, logger, pageContext.user.loginName);
 
-      // Handle undefined behaviors safely
-      const shortBehavior = cacheFactory.getBehavior('short');
-      const longBehavior = cacheFactory.getBehavior('long');
-      const pessimisticBehavior = cacheFactory.getBehavior('pessimistic');
-      const defaultBehavior = cacheFactory.getBehavior(cacheStrategy);
+      // Identical in-flight GET requests share one network call when enabled
+      const requestDeduplication = options.features?.enableRequestDeduplication ?? false;
+      const deduplicator = requestDeduplication ? new RequestDeduplicator() : undefined;
+      const userLoginName = pageContext.user.loginName;
+
+      // Create PnP SP instances with different caching strategies.
+      // Each instance gets its own root so behaviors don't leak between strategies;
+      // deduplication is applied last so cache hits are served before it.
+      const spBase = spfi().using(SPFx(spfxContext));
+      const withBehaviors = (source: SPFI, strategy: CacheStrategy): SPFI => {
+        const behavior = cacheFactory.getBehavior(strategy);
+        const cached = behavior ? spfi(source).using(behavior) : spfi(source);
+        const instance = cached.using(InvalidateOnWrite(cacheInvalidator));
+        return deduplicator ? instance.using(Deduplicate(deduplicator, userLoginName)) : instance;
+      };
 
-      const spShortCache = shortBehavior ? spBase.using(shortBehavior) : spBase;
-      const spLongCache = longBehavior ? spBase.using(longBehavior) : spBase;
-      const spPessimistic = pessimisticBehavior ? spBase.using(pessimisticBehavior) : spBase;
+      const spNoCache = withBehaviors(spBase, 'none');
+      const spShortCache = withBehaviors(spBase, 'short');
+      const spLongCache = withBehaviors(spBase, 'long');
+      const spPessimistic = withBehaviors(spBase, 'pessimistic');
 
       // Default SP instance based on strategy
-      const sp = defaultBehavior ? spBase.using(defaultBehavior) : spBase;
+      const sp = withBehaviors(spBase, cacheStrategy);
+
+      // Typed settings registry (URL overrides apply to individual keys on dev sites and builds)
+      const settings = new SettingsRegistry(environment, options.settings?.definitions, {
+        endpoints: environmentSettings.endpoints,
+        urlOverrides:
+          options.features?.enableUrlOverrides !== false ? urlOverrides?.settings : undefined,
+        allowUrlOverrides: isDevSite,
+        logger,
+      });
+      if (options.settings?.sources?.length) {
+        await settings.load(
+          withBehaviors(spBase, options.settings.cacheStrategy ?? 'long'),
+          options.settings.sources
+        );
+      }
 
       // Create performance tracker
       const performance = new SPFxPerformanceTracker({
@@ -172,20 +278,30 @@ class ContextManager {
       });
 
       // Create HTTP gateway
-      const http = new SPFxHttpGateway(spfxContext, {
-        logger,
-        correlationId,
-        timeoutMs: options.http?.timeoutMs ?? 30000,
-        maxRetries: options.http?.retries ?? 3,
-        maxConcurrent: options.http?.maxConcurrent ?? 6,
-      });
+      const createGateway = (gatewayLogger: ContextLogger): SPFxHttpGateway =>
+        new SPFxHttpGateway(spfxContext, {
+          logger: gatewayLogger,
+          correlationId,
+          performance,
+          timeoutMs: options.http?.timeoutMs ?? 30000,
+          maxRetries: options.http?.retries ?? 3,
+          maxConcurrent: options.http?.maxConcurrent ?? 6,
+          respectRetryAfter: options.http?.respectRetryAfter ?? true,
+          maxThrottleDelayMs: options.http?.maxThrottleDelayMs ?? 120000,
+          deduplicator,
+          userLoginName,
+          circuitBreaker: options.http?.circuitBreaker,
+          cacheInvalidator,
+        });
+      const http = createGateway(logger);
+
+      // Attach custom and remote log sinks (remote sinks need the gateway)
+      this.attachLogSinks(logger as SPFxLogger, options, spNoCache, createGateway);
 
       // Create link builder
       const links = new SPFxLinkBuilder(webAbsoluteUrl, webServerRelativeUrl);
 
       // Extract additional context information
-      const siteId = this.extractId(pageContext.site);
-      const webId = this.extractId(pageContext.web);
       const tenantId = this.extractTenantId(pageContext);
 
       // Build the complete context
@@ -203,6 +319,8 @@ class ContextManager {
 
         // Environment information
         environment,
+        environmentSettings,
+        settings,
         buildMode,
         isProdSite: environment === 'prod',
         isProdBuild: buildMode === 'production',
@@ -238,6 +356,16 @@ class ContextManager {
         http,
         links,
         performance,
+        cache: {
+          invalidate: target => {
+            const evicted = cacheInvalidator.invalidate(target);
+            logger.verbose('Cache invalidated', { ...target, evicted }, 'cache');
+            return evicted;
+          },
+          clear: () => cacheInvalidator.clear(),
+          getMetrics: () => cacheFactory.getAllMetrics(),
+        },
+        crossTab,
 
         // Request correlation
         correlationId,
@@ -245,19 +373,20 @@ class ContextManager {
         // Utility methods
         forWeb: (webUrl: string, cacheStrategyOverride?: CacheStrategy): SPFI => {
           const strategy = cacheStrategyOverride ?? cacheStrategy;
-          const webSp = spfi(webUrl).using(SPFx(spfxContext));
-          const behavior = cacheFactory.getBehavior(strategy);
-          return behavior ? webSp.using(behavior) : webSp;
+          return withBehaviors(spfi(webUrl).using(SPFx(spfxContext)), strategy);
         },
 
         withCache: async <T>(
           strategy: CacheStrategy,
           operation: (sp: SPFI) => Promise<T>
         ): Promise<T> => {
-          const behavior = cacheFactory.getBehavior(strategy);
-          const spInstance = behavior ? spBase.using(behavior) : spBase;
+          const spInstance = withBehaviors(spBase, strategy);
           return performance.trackSpQuery(() => operation(spInstance), `withCache(${strategy})`);
         },
+
+        getCircuitBreakerStatus: (url?: string) => http.getCircuitBreakerStatus(url),
+
+        resetCircuitBreaker: (url?: string) => http.resetCircuitBreaker(url),
       };
 
       // Create runtime configuration
@@ -267,14 +396,16 @@ class ContextManager {
         cacheStrategy,
         httpTimeoutMs: options.http?.timeoutMs ?? 30000,
         maxConcurrentRequests: options.http?.maxConcurrent ?? 6,
-        enableDevTools: buildMode === 'development' && options.features?.enableDevTools !== false,
+        enableDevTools,
         environment,
+        environmentSource,
         buildMode,
         correlationId,
         features: {
           performanceMetrics: options.logging?.enablePerformanceMetrics !== false,
-          requestDeduplication: options.features?.enableRequestDeduplication ?? false,
-          urlOverrides: environment !== 'prod' && options.features?.enableUrlOverrides !== false,
+          requestDeduplication,
+          urlOverrides: !isProdSite && options.features?.enableUrlOverrides !== false,
+          diagnosticsPanel,
         },
       };
 
@@ -285,6 +416,21 @@ class ContextManager {
       this.context = context;
       this.isInitialized = true;
 
+      // Diagnostics panel (keyboard shortcut; opened right away with `?spfxDebug`)
+      if (recentLogs) {
+        this.diagnosticsPanel = this.createDiagnosticsPanel(context, {
+          recentLogs,
+          cacheFactory,
+          http,
+          deduplicator,
+          environmentSource,
+          shortcut: options.diagnostics?.shortcut,
+        });
+        if (urlOverrides?.diagnostics) {
+          this.diagnosticsPanel.open();
+        }
+      }
+
       // Development tools
       if (this.runtimeConfig.enableDevTools) {
         this.setupDevTools(context);
@@ -294,6 +440,7 @@ class ContextManager {
       logger.banner(`Context Initialized • ${pageContext.web.title}`, {
         component: componentName,
         environment,
+        environmentSource,
         buildMode,
         cacheStrategy,
         logLevel: LogLevel[logLevel],
@@ -310,6 +457,53 @@ class ContextManager {
     }
   }
 
+  private attachLogSinks(
+    logger: SPFxLogger,
+    options: ContextInitOptions,
+    spNoCache: SPFI,
+    createGateway: (gatewayLogger: ContextLogger) => SPFxHttpGateway
+  ): void {
+    options.logging?.sinks?.forEach(sink => logger.addSink(sink));
+
+    const remote = options.logging?.remote;
+    if (!remote) {
+      return;
+    }
+
+    const batching = {
+      minLevel: remote.minLevel,
+      maxBatchSize: remote.maxBatchSize,
+      flushIntervalMs: remote.flushIntervalMs,
+      maxRetries: remote.maxRetries,
+    };
+
+    try {
+      if (remote.list) {
+        this.logSinks.push(
+          new SharePointListSink({
+            ...batching,
+            sp: spNoCache,
+            listTitle: remote.list.listTitle,
+            fields: remote.list.fields,
+          })
+        );
+      }
+
+      if (remote.endpoint) {
+        // Own gateway whose log entries are tagged, so the sink doesn't send its own failures
+        const transportTag = `http:${remote.endpoint.url.split('?')[0]}`;
+        const http = createGateway(logger.withContext({ [LOG_TRANSPORT_KEY]: transportTag }));
+        this.logSinks.push(
+          new HttpEndpointSink({ ...batching, ...remote.endpoint, http, transportTag })
+        );
+      }
+
+      this.logSinks.forEach(sink => logger.addSink(sink));
+    } catch (error) {
+      console.warn('Failed to attach remote log sinks:', error);
+    }
+  }
+
   private extractId(object: any): string {
     try {
       const id = object?.id;
@@ -360,6 +554,106 @@ class ContextManager {
     }
   }
 
+  /**
+   * Relays local writes and invalidations to other tabs and applies theirs here.
+   * Remote invalidations are re-applied locally (sessionStorage is per tab) without re-broadcasting.
+   */
+  private connectCrossTab(
+    crossTab: CrossTabChannel,
+    cacheInvalidator: CacheInvalidator,
+    logger: ContextLogger,
+    userLoginName: string
+  ): void {
+    if (crossTab.transport === 'none') {
+      return;
+    }
+
+    let applyingRemote = false;
+    const applyRemote = (apply: () => void) => {
+      applyingRemote = true;
+      try {
+        apply();
+      } finally {
+        applyingRemote = false;
+      }
+    };
+
+    cacheInvalidator.onInvalidate(target => {
+      if (!applyingRemote) {
+        crossTab.publish({ type: 'cache-invalidated', target });
+      }
+    });
+
+    cacheInvalidator.onWrite(target => {
+      if (target.itemId !== undefined) {
+        crossTab.announceItemSaved({
+          listId: target.listId,
+          listTitle: target.listTitle,
+          itemId: target.itemId,
+          savedBy: userLoginName,
+        });
+      }
+    });
+
+    crossTab.subscribe('cache-invalidated', message => {
+      const { target } = message;
+      applyRemote(() => {
+        if (target.listId || target.listTitle) {
+          cacheInvalidator.invalidate(target);
+        } else {
+          cacheInvalidator.clear();
+        }
+      });
+      logger.verbose('Cache invalidated by another tab', target, 'cross-tab');
+    });
+
+    crossTab.subscribe('logout', message => {
+      applyRemote(() => cacheInvalidator.clear());
+      logger.info('Signed out in another tab', { reason: message.reason }, 'cross-tab');
+    });
+  }
+
+  private createDiagnosticsPanel(
+    context: SPFxContext,
+    sources: {
+      recentLogs: MemorySink;
+      cacheFactory: CacheBehaviorFactory;
+      http: SPFxHttpGateway;
+      deduplicator?: RequestDeduplicator;
+      environmentSource: string;
+      shortcut?: string;
+    }
+  ): DiagnosticsPanel {
+    const { recentLogs, cacheFactory, http, deduplicator } = sources;
+
+    const panel = new DiagnosticsPanel(
+      {
+        getInfo: () => ({
+          component: this.runtimeConfig?.componentName,
+          environment: `${context.environment} (${sources.environmentSource})`,
+          buildMode: context.buildMode,
+          cacheStrategy: this.runtimeConfig?.cacheStrategy,
+          logLevel: this.runtimeConfig ? LogLevel[this.runtimeConfig.logLevel] : undefined,
+          correlationId: context.correlationId,
+          user: context.currentUser.loginName,
+          webUrl: context.webUrl,
+          page: window.location.pathname,
+        }),
+        getLogEntries: () => recentLogs.getEntries(),
+        clearLogEntries: () => recentLogs.clear(),
+        performance: context.performance as SPFxPerformanceTracker,
+        getCacheMetrics: () => context.cache.getMetrics(),
+        getInFlightRequests: () => http.getInFlightRequests(),
+        getPendingPnpRequests: deduplicator ? () => deduplicator.getInFlightKeys() : undefined,
+        getCircuitBreakerStatus: () => http.getCircuitBreakerStatus(),
+      },
+      { shortcut: sources.shortcut }
+    );
+
+    panel.install();
+    return panel;
+  }
+
   private setupDevTools(context: SPFxContext): void {
     try {
       (window as any).__spfxContext = {
@@ -377,11 +671,17 @@ class ContextManager {
           },
           clear: () => context.performance.clearMetrics(),
         },
+        diagnostics: {
+          open: () => this.diagnosticsPanel?.open(),
+          close: () => this.diagnosticsPanel?.close(),
+          toggle: () => this.diagnosticsPanel?.toggle(),
+          snapshot: () => this.diagnosticsPanel?.getSnapshot(),
+        },
         cache: {
-          clear: () => {
-            // Note: PnP doesn't expose cache clearing directly
-            console.log('Cache clear requested (not implemented by PnP)');
-          },
+          clear: () => context.cache.clear(),
+          invalidate: (listId: string, itemId?: number) =>
+            context.cache.invalidate({ listId, itemId }),
+          getMetrics: () => context.cache.getMetrics(),
         },
         logger: {
           test: (level: string, message: string) => {
@@ -424,3 +724,5 @@ export const getSp = (): SPFI => Context.current().sp;
 export const getLogger = () => Context.current().logger;
 export const getHttp = () => Context.current().http;
 export const getLinks = () => Context.current().links;
+export const getSettings = <D extends SettingsDefinitions = SettingsDefinitions>() =>
+  Context.current().settings as SettingsRegistry<D>;
@@ -0,0 +1,481 @@
+/**
+ * src/context/devtools/diagnosticsPanel.ts
+ * In-page diagnostics overlay for support engineers (no browser devtools needed)
+ */
+
+import { LogLevel } from '@pnp/logging';
+import { PerformanceAnalyzer } from '../logging/performance';
+import type { SPFxPerformanceTracker } from '../logging/performance';
+import type {
+  CacheMetrics,
+  CacheStrategy,
+  CircuitBreakerStatus,
+  InFlightRequest,
+  LogEntry,
+  PerformanceMetric,
+} from '../utils/types';
+
+/**
+ * Data sources read by the panel on every refresh
+ */
+export interface DiagnosticsSources {
+  /** Environment, correlation ID, user and other name/value pairs shown at the top */
+  getInfo: () => Record<string, string | undefined>;
+  getLogEntries: () => LogEntry[];
+  clearLogEntries?: () => void;
+  performance: SPFxPerformanceTracker;
+  getCacheMetrics: () => Partial<Record<CacheStrategy, CacheMetrics>>;
+  getInFlightRequests: () => InFlightRequest[];
+  /** Keys of PnP requests waiting in the deduplicator */
+  getPendingPnpRequests?: () => string[];
+  getCircuitBreakerStatus?: () => CircuitBreakerStatus[];
+}
+
+export interface DiagnosticsPanelOptions {
+  /** Keyboard shortcut that toggles the panel (default: 'ctrl+alt+d') */
+  shortcut?: string;
+  /** Refresh interval while open (default: 1000) */
+  refreshIntervalMs?: number;
+  /** Log rows shown, newest first (default: 50) */
+  maxLogRows?: number;
+  /** Bottlenecks shown, slowest first (default: 10) */
+  maxBottlenecks?: number;
+}
+
+/**
+ * Point-in-time copy of everything the panel shows (also what "Copy" puts on the clipboard)
+ */
+export interface DiagnosticsSnapshot {
+  capturedAt: string;
+  info: Record<string, string | undefined>;
+  logs: Array<{ time: string; level: string; category: string; message: string }>;
+  performance: ReturnType<SPFxPerformanceTracker['getStatistics']>;
+  bottlenecks: ReturnType<typeof PerformanceAnalyzer.identifyBottlenecks>;
+  cache: Partial<Record<CacheStrategy, CacheMetrics>>;
+  inFlight: Array<InFlightRequest & { elapsedMs: number }>;
+  pendingPnpRequests: string[];
+  circuits: CircuitBreakerStatus[];
+}
+
+interface ParsedShortcut {
+  key: string;
+  ctrl: boolean;
+  alt: boolean;
+  shift: boolean;
+  meta: boolean;
+}
+
+const PANEL_ID = 'spfx-diagnostics-panel';
+
+const STYLES = {
+  panel:
+    'position:fixed;right:12px;bottom:12px;width:640px;max-width:calc(100vw - 24px);' +
+    'max-height:70vh;overflow:auto;z-index:2147483000;background:#1e1e1e;color:#d4d4d4;' +
+    'font:12px/1.4 Consolas,Menlo,monospace;border:1px solid #3c3c3c;border-radius:4px;' +
+    'box-shadow:0 8px 24px rgba(0,0,0,.4);',
+  header:
+    'position:sticky;top:0;display:flex;align-items:center;gap:8px;padding:6px 10px;' +
+    'background:#252526;border-bottom:1px solid #3c3c3c;',
+  title: 'flex:1;font-weight:bold;color:#fff;',
+  button:
+    'background:#0e639c;color:#fff;border:none;border-radius:2px;padding:2px 8px;cursor:pointer;' +
+    'font:inherit;',
+  section: 'padding:6px 10px;border-bottom:1px solid #333;',
+  sectionTitle: 'margin:0 0 4px;font-size:12px;color:#9cdcfe;',
+  table: 'width:100%;border-collapse:collapse;',
+  cell: 'padding:1px 6px 1px 0;vertical-align:top;word-break:break-all;',
+  headCell: 'padding:1px 6px 1px 0;text-align:left;color:#808080;font-weight:normal;',
+  empty: 'color:#808080;',
+} as const;
+
+const LEVEL_COLORS: Record<string, string> = {
+  Error: '#f48771',
+  Warning: '#cca700',
+  Info: '#d4d4d4',
+  Verbose: '#808080',
+};
+
+/**
+ * Parses shortcuts such as 'ctrl+alt+d' or 'ctrl+shift+f12'
+ */
+export function parseShortcut(shortcut: string): ParsedShortcut {
+  const parts = shortcut
+    .toLowerCase()
+    .split('+')
+    .map(part => part.trim())
+    .filter(Boolean);
+
+  return {
+    key: parts[parts.length - 1] ?? '',
+    ctrl: parts.indexOf('ctrl') >= 0,
+    alt: parts.indexOf('alt') >= 0,
+    shift: parts.indexOf('shift') >= 0,
+    meta: parts.indexOf('meta') >= 0 || parts.indexOf('cmd') >= 0,
+  };
+}
+
+/**
+ * Toggleable overlay showing recent log entries, performance metrics, bottlenecks,
+ * cache hit ratios, environment details and in-flight gateway requests
+ */
+export class DiagnosticsPanel {
+  private readonly sources: DiagnosticsSources;
+  private readonly shortcut: ParsedShortcut;
+  private readonly refreshIntervalMs: number;
+  private readonly maxLogRows: number;
+  private readonly maxBottlenecks: number;
+  private root: HTMLElement | null = null;
+  private body: HTMLElement | null = null;
+  private timer: number | undefined;
+  private installed = false;
+
+  constructor(sources: DiagnosticsSources, options: DiagnosticsPanelOptions = {}) {
+    this.sources = sources;
+    this.shortcut = parseShortcut(options.shortcut ?? 'ctrl+alt+d');
+    this.refreshIntervalMs = Math.max(250, options.refreshIntervalMs ?? 1000);
+    this.maxLogRows = options.maxLogRows ?? 50;
+    this.maxBottlenecks = options.maxBottlenecks ?? 10;
+  }
+
+  get isOpen(): boolean {
+    return this.root !== null;
+  }
+
+  /**
+   * Registers the keyboard shortcut
+   */
+  install(): void {
+    if (this.installed) {
+      return;
+    }
+    document.addEventListener('keydown', this.handleKeyDown);
+    this.installed = true;
+  }
+
+  open(): void {
+    if (this.root) {
+      return;
+    }
+
+    // Another context instance on the page may have left a panel behind
+    document.getElementById(PANEL_ID)?.remove();
+
+    this.root = this.createRoot();
+    document.body.appendChild(this.root);
+    this.refresh();
+    this.timer = window.setInterval(() => this.refresh(), this.refreshIntervalMs);
+  }
+
+  close(): void {
+    if (this.timer !== undefined) {
+      window.clearInterval(this.timer);
+      this.timer = undefined;
+    }
+    this.root?.remove();
+    this.root = null;
+    this.body = null;
+  }
+
+  toggle(): void {
+    if (this.isOpen) {
+      this.close();
+    } else {
+      this.open();
+    }
+  }
+
+  /**
+   * Closes the panel and removes the keyboard shortcut
+   */
+  dispose(): void {
+    this.close();
+    document.removeEventListener('keydown', this.handleKeyDown);
+    this.installed = false;
+  }
+
+  /**
+   * Collects the data the panel shows
+   */
+  getSnapshot(): DiagnosticsSnapshot {
+    const now = Date.now();
+    const metrics: PerformanceMetric[] = this.sources.performance.getMetrics();
+
+    return {
+      capturedAt: new Date(now).toISOString(),
+      info: this.sources.getInfo(),
+      logs: this.sources
+        .getLogEntries()
+        .slice(-this.maxLogRows)
+        .reverse()
+        .map(entry => ({
+          time: new Date(entry.timestamp).toISOString().substring(11, 23),
+          level: LogLevel[entry.level] ?? String(entry.level),
+          category: entry.category,
+          message: entry.message,
+        })),
+      performance: this.sources.performance.getStatistics(),
+      bottlenecks: PerformanceAnalyzer.identifyBottlenecks(metrics).slice(0, this.maxBottlenecks),
+      cache: this.sources.getCacheMetrics(),
+      inFlight: this.sources
+        .getInFlightRequests()
+        .map(request => ({ ...request, elapsedMs: now - request.startedAt })),
+      pendingPnpRequests: this.sources.getPendingPnpRequests?.() ?? [],
+      circuits: this.sources.getCircuitBreakerStatus?.() ?? [],
+    };
+  }
+
+  private readonly handleKeyDown = (event: KeyboardEvent): void => {
+    const key = (event.key ?? '').toLowerCase();
+    if (
+      key === this.shortcut.key &&
+      event.ctrlKey === this.shortcut.ctrl &&
+      event.altKey === this.shortcut.alt &&
+      event.shiftKey === this.shortcut.shift &&
+      event.metaKey === this.shortcut.meta
+    ) {
+      event.preventDefault();
+      this.toggle();
+    }
+  };
+
+  private createRoot(): HTMLElement {
+    const root = this.element('div', STYLES.panel);
+    root.id = PANEL_ID;
+    root.setAttribute('role', 'dialog');
+    root.setAttribute('aria-label', 'SPFx diagnostics');
+
+    const header = this.element('div', STYLES.header);
+    header.appendChild(this.element('span', STYLES.title, 'SPFx Diagnostics'));
+    header.appendChild(this.button('Copy', () => this.copySnapshot()));
+    if (this.sources.clearLogEntries) {
+      header.appendChild(
+        this.button('Clear logs', () => {
+          this.sources.clearLogEntries!();
+          this.refresh();
+        })
+      );
+    }
+    header.appendChild(this.button('Close', () => this.close()));
+    root.appendChild(header);
+
+    this.body = this.element('div');
+    root.appendChild(this.body);
+    return root;
+  }
+
+  private refresh(): void {
+    if (!this.root || !this.body) {
+      return;
+    }
+
+    let snapshot: DiagnosticsSnapshot;
+    try {
+      snapshot = this.getSnapshot();
+    } catch (error) {
+      this.body.textContent = `Failed to collect diagnostics: ${
+        error instanceof Error ? error.message : String(error)
+      }`;
+      return;
+    }
+
+    // Rebuilding the body resets scroll; keep the reader's position
+    const scrollTop = this.root.scrollTop;
+    const body = this.element('div');
+
+    body.appendChild(
+      this.section(
+        'Environment',
+        this.table(
+          [],
+          Object.keys(snapshot.info).map(key => [key, snapshot.info[key] ?? ''])
+        )
+      )
+    );
+
+    body.appendChild(
+      this.section(
+        `In-flight requests (${snapshot.inFlight.length + snapshot.pendingPnpRequests.length})`,
+        snapshot.inFlight.length === 0 && snapshot.pendingPnpRequests.length === 0
+          ? this.empty('None')
+          : this.table(
+              ['Type', 'Method', 'URL', 'Elapsed'],
+              [
+                ...snapshot.inFlight.map(request => [
+                  request.operationType,
+                  request.method,
+                  request.url,
+                  `${request.elapsedMs}ms`,
+                ]),
+                ...snapshot.pendingPnpRequests.map(key => ['PnP', 'GET', key, '']),
+              ]
+            )
+      )
+    );
+
+    const stats = snapshot.performance;
+    body.appendChild(
+      this.section(
+        'Performance',
+        this.table(
+          [],
+          [
+            ['Operations', String(stats.totalOperations)],
+            ['Success rate', this.percent(stats.successRate)],
+            ['Average', this.ms(stats.averageDuration)],
+            ['p95', this.ms(stats.p95Duration)],
+            ['Max', this.ms(stats.maxDuration)],
+          ]
+        )
+      )
+    );
+
+    body.appendChild(
+      this.section(
+        'Bottlenecks',
+        snapshot.bottlenecks.length === 0
+          ? this.empty('No metrics recorded')
+          : this.table(
+              ['Operation', 'Category', 'Avg', 'Calls', 'Errors'],
+              snapshot.bottlenecks.map(item => [
+                item.operation,
+                item.category,
+                this.ms(item.averageDuration),
+                String(item.callCount),
+                this.percent(item.errorRate),
+              ])
+            )
+      )
+    );
+
+    const strategies = Object.keys(snapshot.cache) as CacheStrategy[];
+    body.appendChild(
+      this.section(
+        'Cache',
+        strategies.length === 0
+          ? this.empty('No cache activity recorded')
+          : this.table(
+              ['Strategy', 'Hits', 'Misses', 'Errors', 'Hit ratio'],
+              strategies.map(strategy => {
+                const metrics = snapshot.cache[strategy]!;
+                return [
+                  strategy,
+                  String(metrics.hits),
+                  String(metrics.misses),
+                  String(metrics.errors),
+                  this.percent(metrics.hitRatio),
+                ];
+              })
+            )
+      )
+    );
+
+    if (snapshot.circuits.length > 0) {
+      body.appendChild(
+        this.section(
+          'Circuits',
+          this.table(
+            ['Endpoint', 'State', 'Failures', 'Last error'],
+            snapshot.circuits.map(circuit => [
+              circuit.endpoint,
+              circuit.state,
+              String(circuit.failures),
+              circuit.lastError ?? '',
+            ])
+          )
+        )
+      );
+    }
+
+    const logTable = this.table(
+      ['Time', 'Level', 'Category', 'Message'],
+      snapshot.logs.map(log => [log.time, log.level, log.category, log.message])
+    );
+    // Color rows by level (first row is the header)
+    snapshot.logs.forEach((log, index) => {
+      const row = logTable.rows[index + 1];
+      if (row) {
+        row.style.color = LEVEL_COLORS[log.level] ?? '';
+      }
+    });
+    body.appendChild(
+      this.section(
+        `Recent log entries (${snapshot.logs.length})`,
+        snapshot.logs.length === 0 ? this.empty('No entries captured') : logTable
+      )
+    );
+
+    this.root.replaceChild(body, this.body);
+    this.body = body;
+    this.root.scrollTop = scrollTop;
+  }
+
+  private copySnapshot(): void {
+    const text = JSON.stringify(this.getSnapshot(), null, 2);
+    const clipboard = (navigator as any).clipboard;
+
+    if (clipboard?.writeText) {
+      clipboard.writeText(text).catch(() => console.log(text));
+    } else {
+      console.log(text);
+    }
+  }
+
+  // DOM helpers (textContent only, so log messages are never parsed as HTML)
+
+  private element<K extends keyof HTMLElementTagNameMap>(
+    tag: K,
+    style?: string,
+    text?: string
+  ): HTMLElementTagNameMap[K] {
+    const element = document.createElement(tag);
+    if (style) {
+      element.style.cssText = style;
+    }
+    if (text !== undefined) {
+      element.textContent = text;
+    }
+    return element;
+  }
+
+  private button(label: string, onClick: () => void): HTMLButtonElement {
+    const button = this.element('button', STYLES.button, label);
+    button.type = 'button';
+    button.addEventListener('click', onClick);
+    return button;
+  }
+
+  private section(title: string, content: HTMLElement): HTMLElement {
+    const section = this.element('div', STYLES.section);
+    section.appendChild(this.element('h4', STYLES.sectionTitle, title));
+    section.appendChild(content);
+    return section;
+  }
+
+  private table(headers: string[], rows: string[][]): HTMLTableElement {
+    const table = this.element('table', STYLES.table);
+
+    if (headers.length > 0) {
+      const headRow = table.insertRow();
+      headers.forEach(header => headRow.appendChild(this.element('th', STYLES.headCell, header)));
+    }
+
+    rows.forEach(cells => {
+      const row = table.insertRow();
+      cells.forEach(cell => row.appendChild(this.element('td', STYLES.cell, cell)));
+    });
+
+    return table;
+  }
+
+  private empty(text: string): HTMLElement {
+    return this.element('div', STYLES.empty, text);
+  }
+
+  private ms(value: number): string {
+    return `${Math.round(value)}ms`;
+  }
+
+  private percent(value: number): string {
+    return `${(value * 100).toFixed(1)}%`;
+  }
+}
@@ -5,7 +5,18 @@
 
 import { Environment, EnvironmentType } from '@microsoft/sp-core-library';
 import type { LogLevel } from '@pnp/logging';
-import type { BuildMode, CacheStrategy, EnvironmentConfig, EnvironmentName } from '../utils/types';
+import type {
+  BuildMode,
+  CacheStrategy,
+  EnvironmentConfig,
+  EnvironmentName,
+  EnvironmentRule,
+  EnvironmentSettings,
+  EnvironmentSource,
+} from '../utils/types';
+
+const ENVIRONMENT_NAMES: EnvironmentName[] = ['dev', 'uat', 'prod'];
+const CACHE_STRATEGIES: CacheStrategy[] = ['none', 'short', 'long', 'pessimistic'];
 
 /**
  * Default environment detection patterns
@@ -104,6 +115,125 @@ export function detectSiteEnvironment(
   }
 }
 
+/**
+ * Inputs for rule-based environment detection
+ */
+export interface EnvironmentDetectionInput {
+  webAbsoluteUrl: string;
+  webServerRelativeUrl: string;
+  siteId?: string;
+  webId?: string;
+  /** Loads the web property bag; only called when a propertyBag rule exists */
+  loadPropertyBag?: () => Promise<Record<string, any>>;
+}
+
+/**
+ * Detects site environment from configured rules, falling back to URL patterns
+ */
+export async function detectEnvironment(
+  input: EnvironmentDetectionInput,
+  config: { patterns?: Partial<EnvironmentConfig['patterns']>; rules?: EnvironmentRule[] } = {}
+): Promise<{ environment: EnvironmentName; source: EnvironmentSource; rule?: EnvironmentRule }> {
+  const rules = config.rules ?? [];
+  let propertyBag: Record<string, any> | undefined;
+
+  if (rules.some(rule => rule.type === 'propertyBag') && input.loadPropertyBag) {
+    try {
+      propertyBag = await input.loadPropertyBag();
+    } catch (error) {
+      console.warn('Error loading property bag for environment detection:', error);
+    }
+  }
+
+  for (const rule of rules) {
+    try {
+      const environment = evaluateEnvironmentRule(rule, input, propertyBag);
+      if (environment) {
+        return { environment, source: 'rule', rule };
+      }
+    } catch (error) {
+      console.warn('Error evaluating environment rule:', rule, error);
+    }
+  }
+
+  const patterns = { ...DEFAULT_PATTERNS, ...config.patterns };
+  return {
+    environment: detectSiteEnvironment(input.webAbsoluteUrl, input.webServerRelativeUrl, patterns),
+    source: 'pattern',
+  };
+}
+
+/**
+ * Evaluates a single environment rule, returning the environment on match
+ */
+export function evaluateEnvironmentRule(
+  rule: EnvironmentRule,
+  input: Pick<
+    EnvironmentDetectionInput,
+    'webAbsoluteUrl' | 'webServerRelativeUrl' | 'siteId' | 'webId'
+  >,
+  propertyBag?: Record<string, any>
+): EnvironmentName | undefined {
+  switch (rule.type) {
+    case 'regex': {
+      const regex = typeof rule.pattern === 'string' ? new RegExp(rule.pattern, 'i') : rule.pattern;
+      const target = rule.target ?? 'url';
+      const value =
+        target === 'host'
+          ? extractHostFromUrl(input.webAbsoluteUrl)
+          : target === 'path'
+          ? input.webServerRelativeUrl || extractPathFromUrl(input.webAbsoluteUrl)
+          : input.webAbsoluteUrl;
+      return regex.test(value) ? rule.environment : undefined;
+    }
+
+    case 'host': {
+      const host = extractHostFromUrl(input.webAbsoluteUrl);
+      return rule.hosts.some(h => h.toLowerCase() === host) ? rule.environment : undefined;
+    }
+
+    case 'siteId': {
+      const ids = [input.siteId, input.webId].filter(Boolean).map(id => normalizeGuid(id!));
+      return rule.siteIds.some(id => ids.includes(normalizeGuid(id)))
+        ? rule.environment
+        : undefined;
+    }
+
+    case 'propertyBag': {
+      const raw = propertyBag ? findPropertyValue(propertyBag, rule.key) : undefined;
+      if (raw === undefined || raw === null || raw === '') {
+        return undefined;
+      }
+
+      const value = String(raw).trim().toLowerCase();
+      if (rule.value !== undefined) {
+        return value === rule.value.toLowerCase() ? rule.environment : undefined;
+      }
+
+      return ENVIRONMENT_NAMES.includes(value as EnvironmentName)
+        ? (value as EnvironmentName)
+        : undefined;
+    }
+
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Gets the configured settings for an environment
+ */
+export function resolveEnvironmentSettings(
+  environment: EnvironmentName,
+  environments?: EnvironmentConfig['environments']
+): EnvironmentSettings {
+  const settings = environments?.[environment];
+  return {
+    ...settings,
+    endpoints: { ...settings?.endpoints },
+  };
+}
+
 /**
  * Reads URL parameter overrides for development/debugging
  */
@@ -142,6 +272,21 @@ export function readUrlOverrides(): EnvironmentConfig['urlOverrides'] {
       overrides.debug = debugParam !== '0' && debugParam !== 'false';
     }
 
+    // Diagnostics panel (`?spfxDebug` without a value opens it too)
+    const diagnosticsParam = searchParams.get('spfxDebug') ?? searchParams.get('spfx-diagnostics');
+    if (diagnosticsParam !== null) {
+      overrides.diagnostics = diagnosticsParam !== '0' && diagnosticsParam !== 'false';
+    }
+
+    // Individual setting overrides
+    const settingPrefix = 'spfx-setting.';
+    searchParams.forEach((value, key) => {
+      if (key.startsWith(settingPrefix) && key.length > settingPrefix.length) {
+        overrides.settings = overrides.settings ?? {};
+        overrides.settings[key.substring(settingPrefix.length)] = value;
+      }
+    });
+
     return Object.keys(overrides).length > 0 ? overrides : undefined;
   } catch (error) {
     console.warn('Error reading URL overrides:', error);
@@ -235,6 +380,69 @@ export function validateEnvironmentConfig(config: Partial<EnvironmentConfig>): {
     }
   }
 
+  if (config.rules !== undefined) {
+    if (!Array.isArray(config.rules)) {
+      errors.push('rules must be an array');
+    } else {
+      config.rules.forEach((rule, index) => validateRule(rule, index, errors));
+    }
+  }
+
+  if (config.environments) {
+    Object.keys(config.environments).forEach(name => {
+      const settings = (config.environments as Record<string, EnvironmentSettings>)[name];
+      const prefix = `environments.${name}`;
+
+      if (!ENVIRONMENT_NAMES.includes(name as EnvironmentName)) {
+        errors.push(`${prefix} is not a known environment (dev, uat, prod)`);
+        return;
+      }
+
+      if (!settings || typeof settings !== 'object') {
+        errors.push(`${prefix} must be an object`);
+        return;
+      }
+
+      if (
+        settings.logLevel !== undefined &&
+        (!Number.isInteger(settings.logLevel) || settings.logLevel < 0 || settings.logLevel > 99)
+      ) {
+        errors.push(`${prefix}.logLevel must be a LogLevel value`);
+      }
+
+      if (
+        settings.cacheStrategy !== undefined &&
+        !CACHE_STRATEGIES.includes(settings.cacheStrategy)
+      ) {
+        errors.push(`${prefix}.cacheStrategy must be one of ${CACHE_STRATEGIES.join(', ')}`);
+      }
+
+      if (settings.endpoints) {
+        Object.keys(settings.endpoints).forEach(key => {
+          const url = settings.endpoints![key];
+          if (typeof url !== 'string' || !isValidEndpointUrl(url)) {
+            errors.push(`${prefix}.endpoints.${key} must be an absolute or server-relative URL`);
+          }
+        });
+      }
+    });
+
+    // Endpoint keys should be declared for every configured environment
+    const configured = ENVIRONMENT_NAMES.filter(name => config.environments![name]?.endpoints);
+    const allKeys = new Set<string>();
+    configured.forEach(name =>
+      Object.keys(config.environments![name]!.endpoints!).forEach(key => allKeys.add(key))
+    );
+    configured.forEach(name => {
+      const missing = Array.from(allKeys).filter(
+        key => !(key in config.environments![name]!.endpoints!)
+      );
+      if (missing.length > 0) {
+        warnings.push(`environments.${name}.endpoints is missing: ${missing.join(', ')}`);
+      }
+    });
+  }
+
   return {
     isValid: errors.length === 0,
     errors,
@@ -244,6 +452,124 @@ export function validateEnvironmentConfig(config: Partial<EnvironmentConfig>): {
 
 // Helper functions
 
+/**
+ * Validates a single environment rule
+ */
+function validateRule(rule: EnvironmentRule, index: number, errors: string[]): void {
+  const prefix = `rules[${index}]`;
+
+  if (!rule || typeof rule !== 'object') {
+    errors.push(`${prefix} must be an object`);
+    return;
+  }
+
+  const environment = (rule as { environment?: EnvironmentName }).environment;
+  if (environment !== undefined && !ENVIRONMENT_NAMES.includes(environment)) {
+    errors.push(`${prefix}.environment must be dev, uat or prod`);
+  }
+
+  switch (rule.type) {
+    case 'regex':
+      if (!rule.environment) {
+        errors.push(`${prefix}.environment is required`);
+      }
+      if (typeof rule.pattern === 'string') {
+        try {
+          new RegExp(rule.pattern, 'i');
+        } catch {
+          errors.push(`${prefix}.pattern is not a valid regular expression`);
+        }
+      } else if (!(rule.pattern instanceof RegExp)) {
+        errors.push(`${prefix}.pattern must be a string or RegExp`);
+      }
+      break;
+
+    case 'host':
+      if (!rule.environment) {
+        errors.push(`${prefix}.environment is required`);
+      }
+      if (!Array.isArray(rule.hosts) || rule.hosts.length === 0) {
+        errors.push(`${prefix}.hosts must be a non-empty array`);
+      }
+      break;
+
+    case 'siteId':
+      if (!rule.environment) {
+        errors.push(`${prefix}.environment is required`);
+      }
+      if (!Array.isArray(rule.siteIds) || rule.siteIds.length === 0) {
+        errors.push(`${prefix}.siteIds must be a non-empty array`);
+      }
+      break;
+
+    case 'propertyBag':
+      if (!rule.key) {
+        errors.push(`${prefix}.key is required`);
+      }
+      if (rule.value !== undefined && !rule.environment) {
+        errors.push(`${prefix}.environment is required when value is set`);
+      }
+      break;
+
+    default:
+      errors.push(`${prefix}.type must be regex, host, siteId or propertyBag`);
+  }
+}
+
+/**
+ * Finds a property bag value by key (case-insensitive, handles OData-encoded keys)
+ */
+function findPropertyValue(propertyBag: Record<string, any>, key: string): any {
+  if (key in propertyBag) {
+    return propertyBag[key];
+  }
+
+  const normalize = (value: string) =>
+    value
+      .replace(/_x005f_/gi, '_')
+      .replace(/_x002e_/gi, '.')
+      .replace(/_x002d_/gi, '-')
+      .toLowerCase();
+  const target = normalize(key);
+  const match = Object.keys(propertyBag).find(k => normalize(k) === target);
+  return match ? propertyBag[match] : undefined;
+}
+
+/**
+ * Normalizes GUIDs for comparison
+ */
+function normalizeGuid(value: string): string {
+  return value.replace(/[{}]/g, '').trim().toLowerCase();
+}
+
+/**
+ * Checks whether an endpoint is an absolute http(s) or server-relative URL
+ */
+function isValidEndpointUrl(url: string): boolean {
+  if (url.startsWith('/')) {
+    return true;
+  }
+
+  try {
+    const parsed = new URL(url);
+    return parsed.protocol === 'https:' || parsed.protocol === 'http:';
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Extracts the lower-cased host from an absolute URL
+ */
+function extractHostFromUrl(absoluteUrl: string): string {
+  try {
+    return new URL(absoluteUrl).host.toLowerCase();
+  } catch {
+    const match = absoluteUrl.match(/https?:\/\/([^/]+)/i);
+    return match ? match[1].toLowerCase() : '';
+  }
+}
+
 /**
  * Parses log level from string parameter
  */
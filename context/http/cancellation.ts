@@ -0,0 +1,143 @@
+/**
+ * src/context/http/cancellation.ts
+ * AbortSignal helpers and the typed cancellation error for the HTTP layer
+ */
+
+/**
+ * Error thrown when a request is cancelled through an AbortSignal.
+ * Cancellation is expected behavior, so the logger does not record it as a failure.
+ */
+export class RequestCancelledError extends Error {
+  public readonly code = 'REQUEST_CANCELLED';
+  public readonly operationType?: string;
+  public readonly reason?: unknown;
+
+  constructor(operationType?: string, reason?: unknown) {
+    super(operationType ? `${operationType} request was cancelled` : 'Request was cancelled');
+    this.name = 'RequestCancelledError';
+    this.operationType = operationType;
+    this.reason = reason;
+
+    // Maintains proper stack trace for where our error was thrown (only available on V8)
+    if (typeof (Error as any).captureStackTrace === 'function') {
+      (Error as any).captureStackTrace(this, RequestCancelledError);
+    }
+  }
+}
+
+/**
+ * Checks whether an error represents a cancelled request
+ * (our typed error or a native/PnP AbortError)
+ */
+export function isCancellationError(error: unknown): boolean {
+  if (!error || typeof error !== 'object') {
+    return false;
+  }
+
+  const { name, code } = error as { name?: string; code?: string };
+  return (
+    error instanceof RequestCancelledError ||
+    name === 'RequestCancelledError' ||
+    name === 'AbortError' ||
+    code === 'REQUEST_CANCELLED'
+  );
+}
+
+/**
+ * Throws a RequestCancelledError when the signal has already been aborted
+ */
+export function throwIfAborted(signal: AbortSignal | undefined, operationType?: string): void {
+  if (signal?.aborted) {
+    throw new RequestCancelledError(operationType, (signal as any).reason);
+  }
+}
+
+/**
+ * Rejects with a RequestCancelledError as soon as the signal aborts.
+ * The wrapped promise keeps running; pass the signal to the underlying call to stop it.
+ */
+export function abortable<T>(
+  promise: Promise<T>,
+  signal: AbortSignal | undefined,
+  operationType?: string
+): Promise<T> {
+  if (!signal) {
+    return promise;
+  }
+
+  if (signal.aborted) {
+    return Promise.reject(new RequestCancelledError(operationType, (signal as any).reason));
+  }
+
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(new RequestCancelledError(operationType, (signal as any).reason));
+    signal.addEventListener('abort', onAbort);
+
+    promise.then(
+      value => {
+        signal.removeEventListener('abort', onAbort);
+        resolve(value);
+      },
+      error => {
+        signal.removeEventListener('abort', onAbort);
+        reject(error);
+      }
+    );
+  });
+}
+
+/**
+ * Sleeps for the given time, waking early with a RequestCancelledError on abort
+ */
+export function cancellableSleep(
+  ms: number,
+  signal?: AbortSignal,
+  operationType?: string
+): Promise<void> {
+  if (!signal) {
+    return new Promise(resolve => setTimeout(resolve, ms));
+  }
+
+  if (signal.aborted) {
+    return Promise.reject(new RequestCancelledError(operationType, (signal as any).reason));
+  }
+
+  return new Promise<void>((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new RequestCancelledError(operationType, (signal as any).reason));
+    };
+    const timer = setTimeout(() => {
+      signal.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal.addEventListener('abort', onAbort);
+  });
+}
+
+/**
+ * Creates an AbortController that also aborts when the parent signal aborts.
+ * Used per attempt so timeouts can stop the underlying request without cancelling the caller.
+ */
+export function createLinkedAbortController(parent?: AbortSignal): {
+  controller: AbortController;
+  dispose: () => void;
+} {
+  const controller = new AbortController();
+
+  if (!parent) {
+    return { controller, dispose: () => undefined };
+  }
+
+  const onAbort = () => controller.abort();
+  if (parent.aborted) {
+    controller.abort();
+  } else {
+    parent.addEventListener('abort', onAbort);
+  }
+
+  return {
+    controller,
+    dispose: () => parent.removeEventListener('abort', onAbort),
+  };
+}
@@ -0,0 +1,287 @@
+/**
+ * src/context/http/circuitBreaker.ts
+ * Per-endpoint circuit breakers for downstream Flow and Function calls
+ */
+
+import type { CircuitBreakerOptions, CircuitBreakerStatus, CircuitState } from '../utils/types';
+
+/**
+ * Default circuit breaker settings
+ */
+const DEFAULT_OPTIONS: Required<CircuitBreakerOptions> = {
+  enabled: true,
+  failureThreshold: 3,
+  resetTimeoutMs: 30000,
+  halfOpenSuccessThreshold: 1,
+};
+
+/**
+ * Error thrown when a call is rejected because the endpoint's circuit is open
+ */
+export class CircuitOpenError extends Error {
+  public readonly code = 'CIRCUIT_OPEN';
+  public readonly endpoint: string;
+  public readonly retryAt: number;
+  public readonly failures: number;
+
+  constructor(endpoint: string, retryAt: number, failures: number, lastError?: string) {
+    const seconds = Math.max(0, Math.ceil((retryAt - Date.now()) / 1000));
+    super(
+      `Circuit open for ${endpoint} after ${failures} consecutive failures` +
+        `${lastError ? ` (last error: ${lastError})` : ''}; ` +
+        `calls are blocked for another ${seconds}s`
+    );
+    this.name = 'CircuitOpenError';
+    this.endpoint = endpoint;
+    this.retryAt = retryAt;
+    this.failures = failures;
+
+    // Maintains proper stack trace for where our error was thrown (only available on V8)
+    if (typeof (Error as any).captureStackTrace === 'function') {
+      (Error as any).captureStackTrace(this, CircuitOpenError);
+    }
+  }
+}
+
+/**
+ * Listener notified whenever an endpoint's circuit changes state
+ */
+export type CircuitStateChangeListener = (
+  status: CircuitBreakerStatus,
+  previousState: CircuitState
+) => void;
+
+interface CircuitEntry {
+  state: CircuitState;
+  failures: number;
+  halfOpenSuccesses: number;
+  trialInFlight: boolean;
+  openedAt: number | null;
+  lastError: string | null;
+  lastStateChange: number;
+}
+
+/**
+ * Tracks closed/open/half-open state for each downstream endpoint (host + path)
+ */
+export class CircuitBreakerRegistry {
+  private readonly options: Required<CircuitBreakerOptions>;
+  private readonly circuits = new Map<string, CircuitEntry>();
+  private readonly listeners: CircuitStateChangeListener[] = [];
+
+  constructor(options: CircuitBreakerOptions = {}) {
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+  }
+
+  /**
+   * Builds the endpoint key (lower-cased host and path, no query string)
+   */
+  static endpointKey(url: string): string {
+    try {
+      const urlObj = new URL(url);
+      return `${urlObj.host}${urlObj.pathname}`.toLowerCase().replace(/\/+$/, '');
+    } catch {
+      return url.split('?')[0].toLowerCase();
+    }
+  }
+
+  get enabled(): boolean {
+    return this.options.enabled;
+  }
+
+  /**
+   * Registers a state change listener
+   */
+  onStateChange(listener: CircuitStateChangeListener): () => void {
+    this.listeners.push(listener);
+    return () => {
+      const index = this.listeners.indexOf(listener);
+      if (index >= 0) {
+        this.listeners.splice(index, 1);
+      }
+    };
+  }
+
+  /**
+   * Throws CircuitOpenError when the endpoint must fail fast.
+   * Moves an open circuit to half-open once the reset timeout has elapsed and lets one trial through.
+   */
+  assertCanRequest(url: string): void {
+    if (!this.options.enabled) return;
+
+    const endpoint = CircuitBreakerRegistry.endpointKey(url);
+    const entry = this.getEntry(endpoint);
+
+    if (entry.state === 'open') {
+      const retryAt = (entry.openedAt ?? 0) + this.options.resetTimeoutMs;
+      if (Date.now() < retryAt) {
+        throw new CircuitOpenError(endpoint, retryAt, entry.failures, entry.lastError ?? undefined);
+      }
+      this.transition(endpoint, entry, 'half-open');
+    }
+
+    if (entry.state === 'half-open') {
+      if (entry.trialInFlight) {
+        throw new CircuitOpenError(
+          endpoint,
+          Date.now() + this.options.resetTimeoutMs,
+          entry.failures,
+          entry.lastError ?? undefined
+        );
+      }
+      entry.trialInFlight = true;
+    }
+  }
+
+  /**
+   * Records a successful call
+   */
+  recordSuccess(url: string): void {
+    if (!this.options.enabled) return;
+
+    const endpoint = CircuitBreakerRegistry.endpointKey(url);
+    const entry = this.getEntry(endpoint);
+    entry.trialInFlight = false;
+
+    if (entry.state === 'half-open') {
+      entry.halfOpenSuccesses++;
+      if (entry.halfOpenSuccesses >= this.options.halfOpenSuccessThreshold) {
+        entry.failures = 0;
+        entry.lastError = null;
+        this.transition(endpoint, entry, 'closed');
+      }
+      return;
+    }
+
+    entry.failures = 0;
+  }
+
+  /**
+   * Records a failed call and opens the circuit when the threshold is reached
+   */
+  recordFailure(url: string, error?: string): void {
+    if (!this.options.enabled) return;
+
+    const endpoint = CircuitBreakerRegistry.endpointKey(url);
+    const entry = this.getEntry(endpoint);
+    entry.trialInFlight = false;
+    entry.failures++;
+    entry.lastError = error ?? null;
+
+    if (entry.state === 'half-open' || entry.failures >= this.options.failureThreshold) {
+      entry.openedAt = Date.now();
+      this.transition(endpoint, entry, 'open');
+    }
+  }
+
+  /**
+   * Releases a half-open trial without counting it (e.g. the caller cancelled)
+   */
+  recordCancelled(url: string): void {
+    if (!this.options.enabled) return;
+
+    const entry = this.circuits.get(CircuitBreakerRegistry.endpointKey(url));
+    if (entry) {
+      entry.trialInFlight = false;
+    }
+  }
+
+  /**
+   * Gets the status of one endpoint
+   */
+  getStatus(url: string): CircuitBreakerStatus {
+    const endpoint = CircuitBreakerRegistry.endpointKey(url);
+    return this.toStatus(endpoint, this.circuits.get(endpoint) ?? this.createEntry());
+  }
+
+  /**
+   * Gets the status of every endpoint seen so far
+   */
+  getAllStatuses(): CircuitBreakerStatus[] {
+    return Array.from(this.circuits.entries()).map(([endpoint, entry]) =>
+      this.toStatus(endpoint, entry)
+    );
+  }
+
+  /**
+   * Closes one endpoint's circuit, or all circuits when no URL is given
+   */
+  reset(url?: string): void {
+    if (url) {
+      const endpoint = CircuitBreakerRegistry.endpointKey(url);
+      const entry = this.circuits.get(endpoint);
+      if (entry && entry.state !== 'closed') {
+        entry.failures = 0;
+        entry.lastError = null;
+        entry.trialInFlight = false;
+        this.transition(endpoint, entry, 'closed');
+      }
+      this.circuits.delete(endpoint);
+      return;
+    }
+
+    this.circuits.forEach((entry, endpoint) => {
+      if (entry.state !== 'closed') {
+        this.transition(endpoint, entry, 'closed');
+      }
+    });
+    this.circuits.clear();
+  }
+
+  private getEntry(endpoint: string): CircuitEntry {
+    let entry = this.circuits.get(endpoint);
+    if (!entry) {
+      entry = this.createEntry();
+      this.circuits.set(endpoint, entry);
+    }
+    return entry;
+  }
+
+  private createEntry(): CircuitEntry {
+    return {
+      state: 'closed',
+      failures: 0,
+      halfOpenSuccesses: 0,
+      trialInFlight: false,
+      openedAt: null,
+      lastError: null,
+      lastStateChange: Date.now(),
+    };
+  }
+
+  private transition(endpoint: string, entry: CircuitEntry, state: CircuitState): void {
+    const previousState = entry.state;
+    if (previousState === state) return;
+
+    entry.state = state;
+    entry.lastStateChange = Date.now();
+    entry.halfOpenSuccesses = 0;
+    if (state === 'closed') {
+      entry.openedAt = null;
+    }
+
+    const status = this.toStatus(endpoint, entry);
+    this.listeners.forEach(listener => {
+      try {
+        listener(status, previousState);
+      } catch (error) {
+        console.warn('Circuit breaker listener error:', error);
+      }
+    });
+  }
+
+  private toStatus(endpoint: string, entry: CircuitEntry): CircuitBreakerStatus {
+    return {
+      endpoint,
+      state: entry.state,
+      failures: entry.failures,
+      openedAt: entry.openedAt,
+      nextAttemptAt:
+        entry.state === 'open' && entry.openedAt !== null
+          ? entry.openedAt + this.options.resetTimeoutMs
+          : null,
+      lastError: entry.lastError,
+      lastStateChange: entry.lastStateChange,
+    };
+  }
+}
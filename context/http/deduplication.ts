@@ -0,0 +1,162 @@
+/**
+ * src/context/http/deduplication.ts
+ * In-flight request deduplication for the HTTP gateway and PnP SP instances
+ */
+
+import { noInherit } from '@pnp/core';
+import type { Queryable } from '@pnp/queryable';
+import { CacheKeyUtils } from '../caching/behaviors';
+
+/**
+ * Headers that differ on every request and must not be part of the key
+ */
+const VOLATILE_HEADERS = ['x-pnpjs-requestid', 'x-correlation-id', 'x-request-id'];
+
+/**
+ * Deduplication statistics
+ */
+export interface DeduplicationStats {
+  inFlight: number;
+  deduplicated: number;
+  started: number;
+}
+
+/**
+ * Builds a deduplication key from normalized URL, headers and user
+ */
+export function buildRequestKey(
+  namespace: string,
+  method: string,
+  url: string,
+  headers?: Record<string, string>,
+  userLoginName?: string
+): string {
+  const baseKey = `${namespace}|${method.toUpperCase()}|${CacheKeyUtils.normalizeUrl(url)}`;
+  return CacheKeyUtils.userSpecific(
+    CacheKeyUtils.headerSpecific(baseKey, headers, VOLATILE_HEADERS),
+    userLoginName
+  );
+}
+
+/**
+ * Shares one promise between identical in-flight requests
+ */
+export class RequestDeduplicator {
+  private readonly inFlight = new Map<string, Promise<any>>();
+  private deduplicated = 0;
+  private started = 0;
+
+  /**
+   * Runs the factory unless an identical request is already in flight,
+   * in which case the existing promise is returned
+   */
+  run<T>(key: string, factory: () => Promise<T>): Promise<T> {
+    const existing = this.inFlight.get(key);
+    if (existing) {
+      this.deduplicated++;
+      return existing as Promise<T>;
+    }
+
+    this.started++;
+    const promise = factory();
+    this.inFlight.set(key, promise);
+
+    const cleanup = () => {
+      if (this.inFlight.get(key) === promise) {
+        this.inFlight.delete(key);
+      }
+    };
+    promise.then(cleanup, cleanup);
+
+    return promise;
+  }
+
+  /**
+   * Gets the in-flight promise for a key, if any
+   */
+  get<T>(key: string): Promise<T> | undefined {
+    return this.inFlight.get(key) as Promise<T> | undefined;
+  }
+
+  /**
+   * Gets keys of requests currently in flight
+   */
+  getInFlightKeys(): string[] {
+    return Array.from(this.inFlight.keys());
+  }
+
+  /**
+   * Gets deduplication statistics
+   */
+  getStats(): DeduplicationStats {
+    return {
+      inFlight: this.inFlight.size,
+      deduplicated: this.deduplicated,
+      started: this.started,
+    };
+  }
+
+  /**
+   * Forgets all in-flight requests (pending callers still receive their results)
+   */
+  clear(): void {
+    this.inFlight.clear();
+    this.deduplicated = 0;
+    this.started = 0;
+  }
+}
+
+/**
+ * PnP behavior that shares one network request between identical in-flight GET calls.
+ * Must be applied after caching behaviors so cache hits are served before deduplication.
+ */
+export function Deduplicate(deduplicator: RequestDeduplicator, userLoginName?: string) {
+  return (instance: Queryable) => {
+    instance.on.pre(async function (url: string, init: RequestInit, result: any) {
+      // Already resolved by an earlier observer (e.g. a cache hit)
+      if (result !== undefined || !/^get$/i.test(init.method ?? 'GET')) {
+        return [url, init, result];
+      }
+
+      const key = buildRequestKey(
+        'pnp',
+        'GET',
+        url,
+        init.headers as Record<string, string>,
+        userLoginName
+      );
+
+      let resolveShared: (value: any) => void;
+      let rejectShared: (reason: any) => void;
+      const shared = new Promise<any>((resolve, reject) => {
+        resolveShared = resolve;
+        rejectShared = reject;
+      });
+      // Avoid unhandled rejections when nobody else joined
+      shared.catch(() => undefined);
+
+      const pending = deduplicator.run(key, () => shared);
+      if (pending !== shared) {
+        // An identical request is in flight; a result from pre skips send/parse/post
+        result = await pending;
+        return [url, init, result];
+      }
+
+      // First caller: share the outcome of this request with any later identical callers
+      this.on.data(
+        noInherit(function (value: any) {
+          resolveShared(value);
+        })
+      );
+      this.on.error(
+        noInherit(function (error: any) {
+          rejectShared(error);
+        })
+      );
+
+      return [url, init, result];
+    });
+
+    return instance;
+  };
+}
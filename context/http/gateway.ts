@@ -18,8 +18,32 @@ import type {
   HttpResult,
   FlowTriggerOptions,
   FunctionCallOptions,
+  CircuitBreakerOptions,
+  CircuitBreakerStatus,
   ContextLogger,
+  InFlightRequest,
+  PerformanceTracker,
+  SpRequestOptions,
 } from '../utils/types';
+import {
+  ThrottleController,
+  ThrottleSource,
+  ThrottleState,
+  getServerRequestedDelay,
+  isThrottleStatus,
+  parseRateLimitHeaders,
+} from './throttling';
+import { RequestDeduplicator, buildRequestKey } from './deduplication';
+import {
+  RequestCancelledError,
+  abortable,
+  cancellableSleep,
+  createLinkedAbortController,
+  isCancellationError,
+  throwIfAborted,
+} from './cancellation';
+import { CircuitBreakerRegistry } from './circuitBreaker';
+import type { CacheInvalidator } from '../caching/invalidation';
 
 /**
  * Enhanced function call options with Azure AD support
@@ -56,11 +80,23 @@ class RequestSemaphore {
 
   constructor(private maxConcurrent: number) {}
 
-  async acquire(): Promise<() => void> {
-    return new Promise<() => void>(resolve => {
+  async acquire(signal?: AbortSignal, operationType?: string): Promise<() => void> {
+    throwIfAborted(signal, operationType);
+
+    return new Promise<() => void>((resolve, reject) => {
+      // Leave the queue when the caller cancels before a slot frees up
+      const onAbort = () => {
+        const index = this.queue.indexOf(tryRun);
+        if (index >= 0) {
+          this.queue.splice(index, 1);
+        }
+        reject(new RequestCancelledError(operationType, (signal as any)?.reason));
+      };
+
       const tryRun = () => {
         if (this.running < this.maxConcurrent) {
           this.running++;
+          signal?.removeEventListener('abort', onAbort);
           resolve(() => {
             this.running--;
             const next = this.queue.shift();
@@ -70,6 +106,8 @@ class RequestSemaphore {
           this.queue.push(tryRun);
         }
       };
+
+      signal?.addEventListener('abort', onAbort);
       tryRun();
     });
   }
@@ -84,28 +122,64 @@ export class SPFxHttpGateway implements HttpGateway {
   private readonly aadHttpClientFactory: AadHttpClientFactory;
   private readonly semaphore: RequestSemaphore;
   private readonly logger: ContextLogger;
+  private readonly performance?: PerformanceTracker;
+  private readonly throttle: ThrottleController;
   private readonly correlationId: string;
   private readonly timeoutMs: number;
   private readonly maxRetries: number;
+  private readonly respectRetryAfter: boolean;
+  private readonly maxThrottleDelayMs: number;
+  private readonly deduplicator?: RequestDeduplicator;
+  private readonly userLoginName?: string;
+  private readonly circuitBreakers: CircuitBreakerRegistry;
+  private readonly inFlight = new Map<number, InFlightRequest>();
+  private inFlightSequence = 0;
+  private readonly cacheInvalidator?: CacheInvalidator;
 
   constructor(
     context: BaseComponentContext,
     options: {
       logger: ContextLogger;
       correlationId: string;
+      performance?: PerformanceTracker;
       timeoutMs?: number;
       maxRetries?: number;
       maxConcurrent?: number;
+      respectRetryAfter?: boolean;
+      maxThrottleDelayMs?: number;
+      /** Shares identical in-flight GET requests when provided */
+      deduplicator?: RequestDeduplicator;
+      userLoginName?: string;
+      circuitBreaker?: CircuitBreakerOptions;
+      /** Evicts cached list/item entries after successful SharePoint writes */
+      cacheInvalidator?: CacheInvalidator;
     }
   ) {
     this.httpClient = context.httpClient;
     this.spHttpClient = (context as any).spHttpClient;
     this.aadHttpClientFactory = context.serviceScope.consume(AadHttpClientFactory.serviceKey);
     this.logger = options.logger;
+    this.performance = options.performance;
+    this.throttle = ThrottleController.getInstance();
     this.correlationId = options.correlationId;
     this.timeoutMs = options.timeoutMs ?? 30000;
     this.maxRetries = options.maxRetries ?? 3;
     this.semaphore = new RequestSemaphore(options.maxConcurrent ?? 6);
+    this.respectRetryAfter = options.respectRetryAfter ?? true;
+    this.maxThrottleDelayMs = options.maxThrottleDelayMs ?? 120000;
+    this.deduplicator = options.deduplicator;
+    this.userLoginName = options.userLoginName;
+    this.circuitBreakers = new CircuitBreakerRegistry(options.circuitBreaker);
+    this.cacheInvalidator = options.cacheInvalidator;
+    this.circuitBreakers.onStateChange((status, previousState) => {
+      const message = `Circuit ${status.state} for ${status.endpoint}`;
+      const data = { ...status, previousState };
+      if (status.state === 'closed') {
+        this.logger.info(message, data, 'circuit-breaker');
+      } else {
+        this.logger.warn(message, data, 'circuit-breaker');
+      }
+    });
   }
 
   get rawSpHttp(): SPHttpClient {
@@ -116,41 +190,67 @@ export class SPFxHttpGateway implements HttpGateway {
     return this.httpClient;
   }
 
+  /**
+   * Current shared throttle state (all gateway instances share one state)
+   */
+  getThrottleState(): ThrottleState {
+    return this.throttle.getState();
+  }
+
+  /**
+   * Circuit breaker status for one endpoint, or for every endpoint called so far
+   */
+  getCircuitBreakerStatus(url?: string): CircuitBreakerStatus[] {
+    return url ? [this.circuitBreakers.getStatus(url)] : this.circuitBreakers.getAllStatuses();
+  }
+
+  /**
+   * Closes the circuit for one endpoint, or for all endpoints
+   */
+  resetCircuitBreaker(url?: string): void {
+    this.circuitBreakers.reset(url);
+  }
+
+  /**
+   * Requests started through the gateway that have not settled yet, oldest first
+   */
+  getInFlightRequests(): InFlightRequest[] {
+    return Array.from(this.inFlight.values());
+  }
+
   /**
    * SharePoint REST API calls
+   * Identical in-flight GET requests share one network call when deduplication is enabled.
+   * A shared call is not tied to any single caller's signal; each caller stops waiting on abort.
    */
   async sp(
     method: 'GET' | 'POST' | 'PATCH' | 'DELETE',
     url: string,
     data?: any,
-    headers: Record<string, string> = {}
+    headers: Record<string, string> = {},
+    options: SpRequestOptions = {}
   ): Promise<HttpResult> {
-    return this.executeWithRetry('SP', async () => {
-      const requestInit = {
-        method,
-        headers: {
-          Accept: 'application/json;odata=nometadata',
-          'X-Correlation-Id': this.correlationId,
-          ...headers,
-        },
-        body: data ? (typeof data === 'string' ? data : JSON.stringify(data)) : undefined,
-      };
-
-      const response: SPHttpClientResponse = await this.withTimeout(
-        this.spHttpClient.fetch(url, SPHttpClient.configurations.v1, requestInit),
-        this.timeoutMs
+    const { signal } = options;
+
+    if (method === 'GET' && this.deduplicator) {
+      throwIfAborted(signal, 'SP');
+      const key = buildRequestKey('http', method, url, headers, this.userLoginName);
+      const shared = this.deduplicator.run(key, () =>
+        this.trackInFlight('SP', method, url, () =>
+          this.executeSpRequest(method, url, data, headers)
+        )
       );
+      return abortable(shared, signal, 'SP');
+    }
 
-      return {
-        ok: response.ok,
-        status: response.status,
-        statusText: response.statusText,
-        url: response.url,
-        body: await response.text(),
-        duration: 0, // Will be set by executeWithRetry
-        headers: this.extractHeaders(response),
-      };
-    });
+    const result = await this.trackInFlight('SP', method, url, () =>
+      this.executeSpRequest(method, url, data, headers, signal)
+    );
+
+    if (result.ok && method !== 'GET' && this.cacheInvalidator) {
+      this.cacheInvalidator.invalidateForUrl(url);
+    }
+    return result;
   }
 
   /**
@@ -166,6 +266,7 @@ export class SPFxHttpGateway implements HttpGateway {
       functionKey,
       useAzureAD = false,
       resourceUri,
+      signal,
     } = options;
 
     this.logger.info('Triggering Power Platform Flow', {
@@ -184,32 +285,51 @@ export class SPFxHttpGateway implements HttpGateway {
       ...headers,
     };
 
-    if (useAzureAD && resourceUri) {
-      return this.executeAadRequest(resourceUri, 'POST', url, data, flowHeaders, timeout, 'Flow');
-    } else {
-      return this.executeWithRetry('Flow', async () => {
-        const response: HttpClientResponse = await this.withTimeout(
-          this.httpClient.post(url, HttpClient.configurations.v1, {
-            headers: flowHeaders,
-            body: JSON.stringify(data || {}),
-          }),
-          timeout
-        );
-
-        const result = {
-          ok: response.ok,
-          status: response.status,
-          statusText: response.statusText,
-          url: response.url,
-          body: await response.text(),
-          duration: 0,
-          headers: this.extractHeaders(response),
-        };
-
-        this.logOperationResult('Flow', result);
-        return result;
-      });
-    }
+    return this.trackInFlight('Flow', 'POST', url, () =>
+      this.withCircuitBreaker(url, () => {
+        if (useAzureAD && resourceUri) {
+          return this.executeAadRequest(
+            resourceUri,
+            'POST',
+            url,
+            data,
+            flowHeaders,
+            timeout,
+            'Flow',
+            signal
+          );
+        } else {
+          return this.executeWithRetry(
+            'Flow',
+            async attemptSignal => {
+              const response: HttpClientResponse = await this.withTimeout(
+                this.httpClient.post(url, HttpClient.configurations.v1, {
+                  headers: flowHeaders,
+                  body: JSON.stringify(data || {}),
+                  signal: attemptSignal,
+                }),
+                timeout,
+                attemptSignal
+              );
+
+              const result = {
+                ok: response.ok,
+                status: response.status,
+                statusText: response.statusText,
+                url: response.url,
+                body: await response.text(),
+                duration: 0,
+                headers: this.extractHeaders(response),
+              };
+
+              this.logOperationResult('Flow', result);
+              return result;
+            },
+            signal
+          );
+        }
+      })
+    );
   }
 
   /**
@@ -226,6 +346,7 @@ export class SPFxHttpGateway implements HttpGateway {
       resourceUri,
       functionKey,
       apiKey,
+      signal,
     } = options;
 
     this.logger.info('Calling Azure Function', {
@@ -244,73 +365,87 @@ export class SPFxHttpGateway implements HttpGateway {
       ...headers,
     };
 
-    if (useAzureAD && resourceUri) {
-      return this.executeAadRequest(
-        resourceUri,
-        method,
-        url,
-        data,
-        functionHeaders,
-        timeout,
-        'Function'
-      );
-    } else {
-      return this.executeWithRetry('Function', async () => {
-        let response: HttpClientResponse;
-        const requestOptions = {
-          headers: functionHeaders,
-          body: data ? JSON.stringify(data) : undefined,
-        };
-
-        switch (method) {
-          case 'GET':
-            response = await this.withTimeout(
-              this.httpClient.get(url, HttpClient.configurations.v1, requestOptions),
-              timeout
-            );
-            break;
-          case 'POST':
-            response = await this.withTimeout(
-              this.httpClient.post(url, HttpClient.configurations.v1, requestOptions),
-              timeout
-            );
-            break;
-          case 'PUT':
-            response = await this.withTimeout(
-              this.httpClient.fetch(url, HttpClient.configurations.v1, {
-                method: 'PUT',
-                ...requestOptions,
-              }),
-              timeout
-            );
-            break;
-          case 'DELETE':
-            response = await this.withTimeout(
-              this.httpClient.fetch(url, HttpClient.configurations.v1, {
-                method: 'DELETE',
-                ...requestOptions,
-              }),
-              timeout
-            );
-            break;
-          default:
-            throw new Error(`Unsupported HTTP method: ${method}`);
+    return this.trackInFlight('Function', method, url, () =>
+      this.withCircuitBreaker(url, () => {
+        if (useAzureAD && resourceUri) {
+          return this.executeAadRequest(
+            resourceUri,
+            method,
+            url,
+            data,
+            functionHeaders,
+            timeout,
+            'Function',
+            signal
+          );
+        } else {
+          return this.executeWithRetry(
+            'Function',
+            async attemptSignal => {
+              let response: HttpClientResponse;
+              const requestOptions = {
+                headers: functionHeaders,
+                body: data ? JSON.stringify(data) : undefined,
+                signal: attemptSignal,
+              };
+
+              switch (method) {
+                case 'GET':
+                  response = await this.withTimeout(
+                    this.httpClient.get(url, HttpClient.configurations.v1, requestOptions),
+                    timeout,
+                    attemptSignal
+                  );
+                  break;
+                case 'POST':
+                  response = await this.withTimeout(
+                    this.httpClient.post(url, HttpClient.configurations.v1, requestOptions),
+                    timeout,
+                    attemptSignal
+                  );
+                  break;
+                case 'PUT':
+                  response = await this.withTimeout(
+                    this.httpClient.fetch(url, HttpClient.configurations.v1, {
+                      method: 'PUT',
+                      ...requestOptions,
+                    }),
+                    timeout,
+                    attemptSignal
+                  );
+                  break;
+                case 'DELETE':
+                  response = await this.withTimeout(
+                    this.httpClient.fetch(url, HttpClient.configurations.v1, {
+                      method: 'DELETE',
+                      ...requestOptions,
+                    }),
+                    timeout,
+                    attemptSignal
+                  );
+                  break;
+                default:
+                  throw new Error(`Unsupported HTTP method: ${method}`);
+              }
+
+              const result = {
+                ok: response.ok,
+                status: response.status,
+                statusText: response.statusText,
+                url: response.url,
+                body: await response.text(),
+                duration: 0,
+                headers: this.extractHeaders(response),
+              };
+
+              this.logOperationResult('Function', result);
+              return result;
+            },
+            signal
+          );
         }
-
-        const result = {
-          ok: response.ok,
-          status: response.status,
-          statusText: response.statusText,
-          url: response.url,
-          body: await response.text(),
-          duration: 0,
-          headers: this.extractHeaders(response),
-        };
-
-        this.logOperationResult('Function', result);
-        return result;
-      });
-    }
+      })
+    );
   }
 
   /**
@@ -336,72 +471,196 @@ export class SPFxHttpGateway implements HttpGateway {
 
   // Private helper methods
 
-  /**
-   * Execute Azure AD authenticated requests
-   */
-  private async executeAadRequest(
-    resourceUri: string,
-    method: string,
+  private async executeSpRequest(
+    method: 'GET' | 'POST' | 'PATCH' | 'DELETE',
     url: string,
     data: any,
     headers: Record<string, string>,
-    timeout: number,
-    operationType: string
+    signal?: AbortSignal
   ): Promise<HttpResult> {
-    return this.executeWithRetry(operationType, async () => {
-      try {
-        const aadClient: AadHttpClient = await this.aadHttpClientFactory.getClient(resourceUri);
-
-        this.logger.verbose('Using Azure AD authentication', {
-          resourceUri: this.sanitizeUrl(resourceUri),
-          method,
-          url: this.sanitizeUrl(url),
-        });
-
-        const requestOptions = {
+    return this.executeWithRetry(
+      'SP',
+      async attemptSignal => {
+        const requestInit = {
           method,
-          headers,
-          body: data ? JSON.stringify(data) : undefined,
+          headers: {
+            Accept: 'application/json;odata=nometadata',
+            'X-Correlation-Id': this.correlationId,
+            ...headers,
+          },
+          body: data ? (typeof data === 'string' ? data : JSON.stringify(data)) : undefined,
+          signal: attemptSignal,
         };
 
-        const response: HttpClientResponse = await this.withTimeout(
-          aadClient.fetch(
-            url,
-            AadHttpClient.configurations.v1 as AadHttpClientConfiguration,
-            requestOptions
-          ),
-          timeout
+        const response: SPHttpClientResponse = await this.withTimeout(
+          this.spHttpClient.fetch(url, SPHttpClient.configurations.v1, requestInit),
+          this.timeoutMs,
+          attemptSignal
         );
 
-        const result = {
+        return {
           ok: response.ok,
           status: response.status,
           statusText: response.statusText,
           url: response.url,
           body: await response.text(),
-          duration: 0,
+          duration: 0, // Will be set by executeWithRetry
           headers: this.extractHeaders(response),
         };
+      },
+      signal
+    );
+  }
 
-        this.logOperationResult(operationType, result);
-        return result;
-      } catch (error) {
-        this.logger.error('Azure AD request failed', {
-          resourceUri: this.sanitizeUrl(resourceUri),
-          method,
+  /**
+   * Execute Azure AD authenticated requests
+   */
+  private async executeAadRequest(
+    resourceUri: string,
+    method: string,
+    url: string,
+    data: any,
+    headers: Record<string, string>,
+    timeout: number,
+    operationType: string,
+    signal?: AbortSignal
+  ): Promise<HttpResult> {
+    return this.executeWithRetry(
+      operationType,
+      async attemptSignal => {
+        try {
+          const aadClient: AadHttpClient = await this.aadHttpClientFactory.getClient(resourceUri);
+
+          this.logger.verbose('Using Azure AD authentication', {
+            resourceUri: this.sanitizeUrl(resourceUri),
+            method,
+            url: this.sanitizeUrl(url),
+          });
+
+          const requestOptions = {
+            method,
+            headers,
+            body: data ? JSON.stringify(data) : undefined,
+            signal: attemptSignal,
+          };
+
+          const response: HttpClientResponse = await this.withTimeout(
+            aadClient.fetch(
+              url,
+              AadHttpClient.configurations.v1 as AadHttpClientConfiguration,
+              requestOptions
+            ),
+            timeout,
+            attemptSignal
+          );
+
+          const result = {
+            ok: response.ok,
+            status: response.status,
+            statusText: response.statusText,
+            url: response.url,
+            body: await response.text(),
+            duration: 0,
+            headers: this.extractHeaders(response),
+          };
+
+          this.logOperationResult(operationType, result);
+          return result;
+        } catch (error) {
+          if (isCancellationError(error)) {
+            throw error;
+          }
+          this.logger.error('Azure AD request failed', {
+            resourceUri: this.sanitizeUrl(resourceUri),
+            method,
+            url: this.sanitizeUrl(url),
+            error: error instanceof Error ? error.message : String(error),
+          });
+          throw error;
+        }
+      },
+      signal
+    );
+  }
+
+  /**
+   * Records the request as in flight until it settles (shown in the diagnostics panel)
+   */
+  private trackInFlight(
+    operationType: string,
+    method: string,
+    url: string,
+    execute: () => Promise<HttpResult>
+  ): Promise<HttpResult> {
+    const id = ++this.inFlightSequence;
+    this.inFlight.set(id, {
+      id,
+      operationType,
+      method,
+      url: url.split('?')[0],
+      startedAt: Date.now(),
+    });
+
+    const settle = () => {
+      this.inFlight.delete(id);
+    };
+    const promise = execute();
+    promise.then(settle, settle);
+    return promise;
+  }
+
+  /**
+   * Fails fast while the endpoint's circuit is open and records the call outcome.
+   * Server errors (5xx) and exceptions count as failures; cancellations are not counted.
+   */
+  private async withCircuitBreaker(
+    url: string,
+    execute: () => Promise<HttpResult>
+  ): Promise<HttpResult> {
+    try {
+      this.circuitBreakers.assertCanRequest(url);
+    } catch (error) {
+      this.logger.warn(
+        'Request blocked by open circuit',
+        {
           url: this.sanitizeUrl(url),
           error: error instanceof Error ? error.message : String(error),
-        });
-        throw error;
+        },
+        'circuit-breaker'
+      );
+      throw error;
+    }
+
+    try {
+      const result = await execute();
+      if (result.status >= 500) {
+        this.circuitBreakers.recordFailure(
+          url,
+          `HTTP ${result.status} ${result.statusText ?? ''}`.trim()
+        );
+      } else {
+        this.circuitBreakers.recordSuccess(url);
       }
-    });
+      return result;
+    } catch (error) {
+      if (isCancellationError(error)) {
+        this.circuitBreakers.recordCancelled(url);
+      } else {
+        this.circuitBreakers.recordFailure(
+          url,
+          error instanceof Error ? error.message : String(error)
+        );
+      }
+      throw error;
+    }
   }
 
   private async executeWithRetry(
     operationType: string,
-    operation: () => Promise<Omit<HttpResult, 'duration'>>
+    operation: (attemptSignal: AbortSignal) => Promise<Omit<HttpResult, 'duration'>>,
+    signal?: AbortSignal
   ): Promise<HttpResult> {
-    const release = await this.semaphore.acquire();
+    const release = await this.semaphore.acquire(signal, operationType);
     const startTime = performance.now();
 
     try {
@@ -411,10 +670,23 @@ export class SPFxHttpGateway implements HttpGateway {
       while (attempt < this.maxRetries) {
         attempt++;
 
+        // Pause together with every other caller while the server is throttling us
+        await this.throttle.waitForClearance(ms => this.sleep(ms, signal, operationType));
+
+        // Per-attempt controller so a timeout also stops the underlying request
+        const { controller, dispose } = createLinkedAbortController(signal);
+
         try {
-          const result = await operation();
+          const result = await operation(controller.signal);
           const duration = performance.now() - startTime;
 
+          if (isThrottleStatus(result.status) && attempt < this.maxRetries) {
+            this.handleThrottle(operationType, result.status, result.headers, attempt, result.url);
+            continue;
+          }
+
+          this.trackRateLimit(operationType, result.headers);
+
           this.logger.verbose(`${operationType} request completed`, {
             attempt,
             duration,
@@ -424,17 +696,34 @@ export class SPFxHttpGateway implements HttpGateway {
 
           return { ...result, duration };
         } catch (error) {
+          if (signal?.aborted || isCancellationError(error)) {
+            this.logger.verbose(`${operationType} request cancelled`, {
+              attempt,
+              duration: performance.now() - startTime,
+            });
+            throw error instanceof RequestCancelledError
+              ? error
+              : new RequestCancelledError(operationType, (signal as any)?.reason ?? error);
+          }
+
           lastError = error instanceof Error ? error : new Error(String(error));
 
+          const status =
+            error && typeof error === 'object' && 'status' in error
+              ? (error as any).status
+              : undefined;
+
           // Don't retry on client errors (4xx) except 429 (rate limit)
-          if (error && typeof error === 'object' && 'status' in error) {
-            const status = (error as any).status;
-            if (status >= 400 && status < 500 && status !== 429) {
-              break;
-            }
+          if (status >= 400 && status < 500 && status !== 429) {
+            break;
           }
 
           if (attempt < this.maxRetries) {
+            if (isThrottleStatus(status)) {
+              this.handleThrottle(operationType, status, this.extractErrorHeaders(error), attempt);
+              continue;
+            }
+
             const delay = this.calculateBackoffDelay(attempt);
             this.logger.warn(`${operationType} request failed, retrying`, {
               attempt,
@@ -442,8 +731,13 @@ export class SPFxHttpGateway implements HttpGateway {
               delayMs: delay,
               error: lastError.message,
             });
-            await this.sleep(delay);
+            await this.sleep(delay, signal, operationType);
           }
+        } finally {
+          if (!controller.signal.aborted) {
+            controller.abort();
+          }
+          dispose();
         }
       }
 
@@ -460,6 +754,89 @@ export class SPFxHttpGateway implements HttpGateway {
     }
   }
 
+  /**
+   * Records a throttled response in the shared state so all callers pause together
+   */
+  private handleThrottle(
+    operationType: string,
+    status: number,
+    headers: Record<string, string> | undefined,
+    attempt: number,
+    url?: string
+  ): void {
+    const requested = this.respectRetryAfter ? getServerRequestedDelay(headers) : undefined;
+    const source: ThrottleSource = requested?.source ?? 'backoff';
+    const delayMs = Math.min(
+      requested?.delayMs ?? this.calculateBackoffDelay(attempt),
+      this.maxThrottleDelayMs
+    );
+
+    const event = {
+      operationType,
+      status,
+      delayMs,
+      source,
+      attempt,
+      timestamp: Date.now(),
+      url: url ? this.sanitizeUrl(url) : undefined,
+      rateLimit: parseRateLimitHeaders(headers),
+    };
+
+    this.throttle.recordThrottle(event);
+
+    this.logger.warn(
+      `${operationType} request throttled, pausing all requests`,
+      {
+        ...event,
+        maxRetries: this.maxRetries,
+        throttleCount: this.throttle.getState().throttleCount,
+      },
+      'throttling'
+    );
+
+    this.performance?.recordMetric({
+      name: `${operationType} throttled`,
+      duration: delayMs,
+      success: false,
+      timestamp: event.timestamp,
+      category: 'http-request',
+      details: { type: 'throttle', status, source, attempt, rateLimit: event.rateLimit },
+    });
+  }
+
+  /**
+   * Pauses proactively when SharePoint reports the rate limit quota is used up
+   */
+  private trackRateLimit(operationType: string, headers?: Record<string, string>): void {
+    const pauseMs = this.throttle.recordRateLimit(headers);
+    if (pauseMs > 0) {
+      this.logger.warn(
+        `${operationType} rate limit exhausted, pausing requests`,
+        { delayMs: pauseMs, rateLimit: parseRateLimitHeaders(headers) },
+        'throttling'
+      );
+    }
+  }
+
+  private extractErrorHeaders(error: any): Record<string, string> | undefined {
+    const raw = error?.headers ?? error?.response?.headers;
+    if (!raw) return undefined;
+
+    if (typeof raw.forEach === 'function') {
+      const headers: Record<string, string> = {};
+      raw.forEach((value: string, key: string) => {
+        headers[key.toLowerCase()] = value;
+      });
+      return headers;
+    }
+
+    const headers: Record<string, string> = {};
+    Object.keys(raw).forEach(key => {
+      headers[key.toLowerCase()] = String(raw[key]);
+    });
+    return headers;
+  }
+
   private logOperationResult(operationType: string, result: HttpResult): void {
     if (result.ok) {
       this.logger.success(`${operationType} completed successfully`, {
@@ -477,7 +854,11 @@ export class SPFxHttpGateway implements HttpGateway {
     }
   }
 
-  private async withTimeout<T>(promise: Promise<T>, timeoutMs: number): Promise<T> {
+  private async withTimeout<T>(
+    promise: Promise<T>,
+    timeoutMs: number,
+    signal?: AbortSignal
+  ): Promise<T> {
     let timeoutHandle: number | undefined;
 
     const timeoutPromise = new Promise<never>((_resolve, reject) => {
@@ -487,7 +868,7 @@ export class SPFxHttpGateway implements HttpGateway {
     });
 
     try {
-      return await Promise.race([promise, timeoutPromise]);
+      return await Promise.race([abortable(promise, signal), timeoutPromise]);
     } finally {
       if (timeoutHandle !== undefined) {
         clearTimeout(timeoutHandle);
@@ -501,8 +882,8 @@ export class SPFxHttpGateway implements HttpGateway {
     return Math.min(baseDelay + jitter, 5000);
   }
 
-  private sleep(ms: number): Promise<void> {
-    return new Promise(resolve => setTimeout(resolve, ms));
+  private sleep(ms: number, signal?: AbortSignal, operationType?: string): Promise<void> {
+    return cancellableSleep(ms, signal, operationType);
   }
 
   private extractHeaders(
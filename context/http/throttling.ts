@@ -0,0 +1,223 @@
+/**
+ * src/context/http/throttling.ts
+ * Shared throttle state driven by Retry-After and SharePoint RateLimit headers
+ */
+
+/**
+ * Where a throttle delay came from
+ */
+export type ThrottleSource = 'retry-after' | 'ratelimit-reset' | 'backoff';
+
+/**
+ * Rate limit headers returned by SharePoint Online
+ */
+export interface RateLimitInfo {
+  limit?: number;
+  remaining?: number;
+  resetSeconds?: number;
+}
+
+/**
+ * Details about a single throttle event
+ */
+export interface ThrottleEvent {
+  operationType: string;
+  status: number;
+  delayMs: number;
+  source: ThrottleSource;
+  attempt: number;
+  timestamp: number;
+  url?: string;
+  rateLimit?: RateLimitInfo;
+}
+
+/**
+ * Snapshot of the shared throttle state
+ */
+export interface ThrottleState {
+  isThrottled: boolean;
+  resumeAt: number | null;
+  remainingMs: number;
+  throttleCount: number;
+  lastEvent: ThrottleEvent | null;
+  rateLimit: RateLimitInfo | null;
+}
+
+/**
+ * HTTP statuses SharePoint uses to signal throttling
+ */
+export const THROTTLE_STATUS_CODES: ReadonlyArray<number> = [429, 503];
+
+/**
+ * Checks whether a status code indicates throttling
+ */
+export function isThrottleStatus(status: number | undefined): boolean {
+  return status !== undefined && THROTTLE_STATUS_CODES.includes(status);
+}
+
+/**
+ * Parses a Retry-After header (delta seconds or HTTP date) into milliseconds
+ */
+export function parseRetryAfter(
+  value: string | undefined | null,
+  now: number = Date.now()
+): number | undefined {
+  if (!value) return undefined;
+
+  const trimmed = value.trim();
+
+  if (/^\d+(\.\d+)?$/.test(trimmed)) {
+    return Math.round(parseFloat(trimmed) * 1000);
+  }
+
+  const date = Date.parse(trimmed);
+  if (!isNaN(date)) {
+    return Math.max(0, date - now);
+  }
+
+  return undefined;
+}
+
+/**
+ * Reads RateLimit-* headers (draft IETF format used by SharePoint Online)
+ */
+export function parseRateLimitHeaders(
+  headers: Record<string, string> = {}
+): RateLimitInfo | undefined {
+  const toNumber = (value: string | undefined): number | undefined => {
+    if (value === undefined || value === null || value === '') return undefined;
+    const parsed = Number(value);
+    return isNaN(parsed) ? undefined : parsed;
+  };
+
+  const info: RateLimitInfo = {
+    limit: toNumber(headers['ratelimit-limit']),
+    remaining: toNumber(headers['ratelimit-remaining']),
+    resetSeconds: toNumber(headers['ratelimit-reset']),
+  };
+
+  const hasValues =
+    info.limit !== undefined || info.remaining !== undefined || info.resetSeconds !== undefined;
+
+  return hasValues ? info : undefined;
+}
+
+/**
+ * Resolves the delay the server asked for, preferring Retry-After over RateLimit-Reset
+ */
+export function getServerRequestedDelay(
+  headers: Record<string, string> = {}
+): { delayMs: number; source: ThrottleSource } | undefined {
+  const retryAfterMs = parseRetryAfter(headers['retry-after']);
+  if (retryAfterMs !== undefined) {
+    return { delayMs: retryAfterMs, source: 'retry-after' };
+  }
+
+  const rateLimit = parseRateLimitHeaders(headers);
+  if (rateLimit?.resetSeconds !== undefined) {
+    return { delayMs: Math.round(rateLimit.resetSeconds * 1000), source: 'ratelimit-reset' };
+  }
+
+  return undefined;
+}
+
+/**
+ * Process-wide throttle controller shared by every gateway and caller.
+ * When any request is throttled, all requests pause until the server-requested time.
+ */
+export class ThrottleController {
+  private static instance: ThrottleController | null = null;
+
+  private resumeAt = 0;
+  private throttleCount = 0;
+  private lastEvent: ThrottleEvent | null = null;
+  private rateLimit: RateLimitInfo | null = null;
+
+  static getInstance(): ThrottleController {
+    if (!ThrottleController.instance) {
+      ThrottleController.instance = new ThrottleController();
+    }
+    return ThrottleController.instance;
+  }
+
+  /**
+   * Records a throttle event and extends the shared pause window
+   */
+  recordThrottle(event: ThrottleEvent): void {
+    this.throttleCount++;
+    this.lastEvent = event;
+    if (event.rateLimit) {
+      this.rateLimit = event.rateLimit;
+    }
+    this.resumeAt = Math.max(this.resumeAt, event.timestamp + event.delayMs);
+  }
+
+  /**
+   * Tracks RateLimit headers from successful responses.
+   * Pauses proactively when the remaining quota is exhausted.
+   * Returns the pause in milliseconds, or 0 when no pause was applied.
+   */
+  recordRateLimit(headers: Record<string, string> = {}): number {
+    const info = parseRateLimitHeaders(headers);
+    if (!info) return 0;
+
+    this.rateLimit = info;
+
+    if (info.remaining !== undefined && info.remaining <= 0 && info.resetSeconds !== undefined) {
+      const delayMs = Math.round(info.resetSeconds * 1000);
+      this.resumeAt = Math.max(this.resumeAt, Date.now() + delayMs);
+      return delayMs;
+    }
+
+    return 0;
+  }
+
+  /**
+   * Milliseconds left before requests may resume
+   */
+  getRemainingPauseMs(): number {
+    return Math.max(0, this.resumeAt - Date.now());
+  }
+
+  /**
+   * Waits until the shared pause window has elapsed.
+   * Loops because another caller may extend the window while we wait.
+   */
+  async waitForClearance(sleep: (ms: number) => Promise<void>): Promise<number> {
+    let waited = 0;
+    let remaining = this.getRemainingPauseMs();
+
+    while (remaining > 0) {
+      await sleep(remaining);
+      waited += remaining;
+      remaining = this.getRemainingPauseMs();
+    }
+
+    return waited;
+  }
+
+  /**
+   * Gets a snapshot of the current throttle state
+   */
+  getState(): ThrottleState {
+    const remainingMs = this.getRemainingPauseMs();
+    return {
+      isThrottled: remainingMs > 0,
+      resumeAt: remainingMs > 0 ? this.resumeAt : null,
+      remainingMs,
+      throttleCount: this.throttleCount,
+      lastEvent: this.lastEvent ? { ...this.lastEvent } : null,
+      rateLimit: this.rateLimit ? { ...this.rateLimit } : null,
+    };
+  }
+
+  /**
+   * Clears the throttle state (useful for testing)
+   */
+  reset(): void {
+    this.resumeAt = 0;
+    this.throttleCount = 0;
+    this.lastEvent = null;
+    this.rateLimit = null;
+  }
+}
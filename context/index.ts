@@ -22,39 +22,85 @@ export { LogLevel } from '@pnp/logging';
 export type { SPFI } from '@pnp/sp';
 
 // Main context exports
-export { Context, getHttp, getLinks, getLogger, getSp } from './context-manager';
+export { Context, getHttp, getLinks, getLogger, getSettings, getSp } from './context-manager';
 
 // Type definitions
 export type {
   BuildMode,
-  CacheStrategy, ContextInitOptions, ContextLogger, EnvironmentName, FileLinks, FlowTriggerOptions,
+  CacheAccessor, CacheInvalidationTarget, CacheMetrics, CacheStrategy, CircuitBreakerOptions, CircuitBreakerStatus, CircuitState, ContextInitOptions, ContextLogger, CrossTabAccessor, CrossTabEnvelope, CrossTabMessage, CrossTabTransport, EnvironmentConfig, EnvironmentName, EnvironmentRule, EnvironmentSettings, EnvironmentSource, FileLinks, FlowTriggerOptions,
   FunctionCallOptions, HttpGateway,
-  HttpResult, LinkBuilder, ListItemLinks, LogContext,
+  HttpResult, InFlightRequest, ItemSavedMessage, LinkBuilder, ListItemLinks, LogContext,
   LogEntry,
-  LogSink, PerformanceMetric, PerformanceTracker, RuntimeConfig, SiteLinks, SPFxContext
+  LogSink, PerformanceMetric, RemoteLoggingOptions, PerformanceTracker, RuntimeConfig, SettingSource, SettingsAccessor,
+  SettingsDefinitions, SettingsSourceConfig, SiteLinks, SPFxContext, SpRequestOptions, EnvironmentValues
 } from './utils/types';
 
 // Environment utilities
 export {
-  createEnvironmentBadge, detectBuildMode,
-  detectSiteEnvironment, generateCorrelationId, getDefaultCacheStrategy, getDefaultLogLevel, readUrlOverrides, shouldUseProductionLogging, validateEnvironmentConfig
+  createEnvironmentBadge, detectBuildMode, detectEnvironment,
+  detectSiteEnvironment, evaluateEnvironmentRule, generateCorrelationId, getDefaultCacheStrategy, getDefaultLogLevel, readUrlOverrides, resolveEnvironmentSettings, shouldUseProductionLogging, validateEnvironmentConfig
 } from './environment/detector';
+export type { EnvironmentDetectionInput } from './environment/detector';
 
 // Caching utilities
 export {
   CacheBehaviorFactory, CacheKeyUtils,
   CacheMetricsCollector, CacheStrategySelector, createCacheBehavior,
-  createPessimisticBehavior
+  createPessimisticBehavior, TrackCacheMetrics
 } from './caching/behaviors';
+export { CacheInvalidator, InvalidateOnWrite, parseCacheTags } from './caching/invalidation';
+export type { CacheInvalidationListener, CacheTags } from './caching/invalidation';
 
 // Logging system
-export { ConsoleSink, LoggerFactory, SPFxLogger } from './logging/logger';
+export { ConsoleSink, LoggerFactory, MemorySink, SPFxLogger } from './logging/logger';
+export { BatchingSink, HttpEndpointSink, LOG_TRANSPORT_KEY, SharePointListSink } from './logging/sinks';
+export type {
+  BatchingSinkOptions,
+  HttpEndpointSinkOptions,
+  SerializedLogEntry,
+  SharePointListSinkFields,
+  SharePointListSinkOptions
+} from './logging/sinks';
 
 // Performance tracking
 export { PerformanceAnalyzer, SPFxPerformanceTracker } from './logging/performance';
 
 // HTTP utilities
 export { SPFxHttpGateway } from './http/gateway';
+export {
+  ThrottleController,
+  getServerRequestedDelay,
+  isThrottleStatus,
+  parseRateLimitHeaders,
+  parseRetryAfter
+} from './http/throttling';
+export type { RateLimitInfo, ThrottleEvent, ThrottleSource, ThrottleState } from './http/throttling';
+export { Deduplicate, RequestDeduplicator, buildRequestKey } from './http/deduplication';
+export type { DeduplicationStats } from './http/deduplication';
+export {
+  RequestCancelledError,
+  abortable,
+  cancellableSleep,
+  isCancellationError,
+  throwIfAborted
+} from './http/cancellation';
+export { CircuitBreakerRegistry, CircuitOpenError } from './http/circuitBreaker';
+export type { CircuitStateChangeListener } from './http/circuitBreaker';
+
+// Diagnostics panel
+export { DiagnosticsPanel, parseShortcut } from './devtools/diagnosticsPanel';
+export type {
+  DiagnosticsPanelOptions,
+  DiagnosticsSnapshot,
+  DiagnosticsSources
+} from './devtools/diagnosticsPanel';
+
+// Cross-tab coordination
+export { CrossTabChannel } from './sync/crossTab';
+
+// Settings registry
+export { SettingsRegistry, coerceSettingValue, defineSettings } from './settings/registry';
+export type { SettingValue } from './settings/registry';
 
 // Link building
 export { LinkUtils, SPFxLinkBuilder } from './utils/links';
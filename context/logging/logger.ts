@@ -5,6 +5,7 @@
 
 import { LogLevel } from '@pnp/logging';
 import type { ContextLogger, LogContext, LogEntry, LogSink, EnvironmentName } from '../utils/types';
+import { isCancellationError } from '../http/cancellation';
 
 /**
  * Enhanced error information extraction
@@ -27,16 +28,22 @@ interface ExtractedErrorInfo {
  * Production-ready logger with enhanced error handling
  */
 export class SPFxLogger implements ContextLogger {
-  private readonly sinks: LogSink[] = [];
+  private readonly sinks: LogSink[];
   private readonly baseContext: LogContext;
   private readonly level: LogLevel;
   private readonly samplingRate: number;
   private readonly timers = new Map<string, number>();
 
-  constructor(options: { level: LogLevel; baseContext: LogContext; samplingRate?: number }) {
+  constructor(options: {
+    level: LogLevel;
+    baseContext: LogContext;
+    samplingRate?: number;
+    sinks?: LogSink[];
+  }) {
     this.level = options.level;
     this.baseContext = { ...options.baseContext };
     this.samplingRate = options.samplingRate ?? 1.0;
+    this.sinks = options.sinks ?? [];
   }
 
   // Core logging methods
@@ -54,6 +61,7 @@ export class SPFxLogger implements ContextLogger {
 
   /**
    * Enhanced error logging with intelligent error object handling
+   * Cancelled requests are expected and are logged as verbose, not as errors
    * @param errorOrMessage - Error object, error message, or string message
    * @param data - Additional context data
    * @param category - Log category
@@ -62,6 +70,8 @@ export class SPFxLogger implements ContextLogger {
     if (typeof errorOrMessage === 'string') {
       // Simple string message
       this.log(LogLevel.Error, errorOrMessage, data, category);
+    } else if (isCancellationError(errorOrMessage)) {
+      this.logCancellation(errorOrMessage, data);
     } else {
       // Error object or complex error - extract detailed information
       const errorInfo = this.extractErrorInfo(errorOrMessage);
@@ -102,6 +112,8 @@ export class SPFxLogger implements ContextLogger {
   failure(messageOrError: string | Error | any, data?: any, category?: string): void {
     if (typeof messageOrError === 'string') {
       this.error(`❌ ${messageOrError}`, data, category);
+    } else if (isCancellationError(messageOrError)) {
+      this.logCancellation(messageOrError, data);
     } else {
       const errorInfo = this.extractErrorInfo(messageOrError);
       this.error(`❌ ${errorInfo.message}`, data, category);
@@ -115,6 +127,11 @@ export class SPFxLogger implements ContextLogger {
    * @param data - Additional context
    */
   exception(error: Error | any, operation?: string, data?: any): void {
+    if (isCancellationError(error)) {
+      this.logCancellation(error, { ...data, operation });
+      return;
+    }
+
     const errorInfo = this.extractErrorInfo(error);
     const message = operation
       ? `Exception in ${operation}: ${errorInfo.message}`
@@ -144,6 +161,11 @@ export class SPFxLogger implements ContextLogger {
    * @param data - Additional context
    */
   httpError(error: any, request?: { method?: string; url?: string; data?: any }, data?: any): void {
+    if (isCancellationError(error)) {
+      this.logCancellation(error, { ...data, request });
+      return;
+    }
+
     const errorInfo = this.extractErrorInfo(error);
     const message = `HTTP ${errorInfo.status || 'Error'}: ${errorInfo.message}`;
 
@@ -173,6 +195,11 @@ export class SPFxLogger implements ContextLogger {
    * @param data - Additional context
    */
   sharePointError(error: any, operation?: string, data?: any): void {
+    if (isCancellationError(error)) {
+      this.logCancellation(error, { ...data, operation });
+      return;
+    }
+
     const errorInfo = this.extractErrorInfo(error);
     const message = operation
       ? `SharePoint ${operation} failed: ${errorInfo.message}`
@@ -241,10 +268,12 @@ export class SPFxLogger implements ContextLogger {
   // Context management
   withContext(additionalContext: Partial<LogContext>): ContextLogger {
     const newContext = { ...this.baseContext, ...additionalContext };
+    // Child loggers share the sink list so sinks added later reach them too
     return new SPFxLogger({
       level: this.level,
       baseContext: newContext,
       samplingRate: this.samplingRate,
+      sinks: this.sinks,
     });
   }
 
@@ -260,8 +289,26 @@ export class SPFxLogger implements ContextLogger {
     }
   }
 
+  /**
+   * Flushes every sink that buffers entries
+   */
+  async flush(): Promise<void> {
+    await Promise.allSettled(
+      this.sinks.filter(sink => typeof sink.flush === 'function').map(sink => sink.flush!())
+    );
+  }
+
   // Private methods for error analysis
 
+  private logCancellation(error: any, data?: any): void {
+    this.log(
+      LogLevel.Verbose,
+      `Cancelled: ${error?.message || 'Request was cancelled'}`,
+      { ...data, operationType: error?.operationType },
+      'cancellation'
+    );
+  }
+
   private extractErrorInfo(error: any): ExtractedErrorInfo {
     const info: ExtractedErrorInfo = {
       message: 'Unknown error',
@@ -512,6 +559,39 @@ export class ConsoleSink implements LogSink {
   }
 }
 
+/**
+ * In-memory sink that keeps the most recent entries (read by the diagnostics panel)
+ */
+export class MemorySink implements LogSink {
+  private entries: LogEntry[] = [];
+  private readonly maxEntries: number;
+
+  constructor(maxEntries: number = 200) {
+    this.maxEntries = Math.max(1, maxEntries);
+  }
+
+  log(entry: LogEntry): void {
+    this.entries.push(entry);
+    if (this.entries.length > this.maxEntries) {
+      this.entries = this.entries.slice(-this.maxEntries);
+    }
+  }
+
+  /**
+   * Gets buffered entries, oldest first
+   */
+  getEntries(since?: number): LogEntry[] {
+    if (since === undefined) {
+      return [...this.entries];
+    }
+    return this.entries.filter(entry => entry.timestamp >= since);
+  }
+
+  clear(): void {
+    this.entries = [];
+  }
+}
+
 /**
  * Logger factory for creating configured logger instances
  */
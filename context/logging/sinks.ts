@@ -0,0 +1,565 @@
+/**
+ * src/context/logging/sinks.ts
+ * Batching remote log sinks with retry and offline buffering
+ */
+
+import { LogLevel } from '@pnp/logging';
+import type { SPFI } from '@pnp/sp';
+import '@pnp/sp/batching';
+import '@pnp/sp/items';
+import '@pnp/sp/lists';
+import '@pnp/sp/webs';
+import type { HttpGateway, LogEntry, LogSink } from '../utils/types';
+
+/**
+ * Log entry shape sent to remote destinations (JSON safe)
+ */
+export interface SerializedLogEntry {
+  level: LogLevel;
+  levelName: string;
+  message: string;
+  category: string;
+  timestamp: string;
+  correlationId: string;
+  environment: string;
+  component?: string;
+  user?: string;
+  siteUrl?: string;
+  webUrl?: string;
+  pageUrl?: string;
+  data?: string;
+  error?: { name: string; message: string; stack?: string };
+}
+
+/**
+ * Shared batching options for remote sinks
+ */
+export interface BatchingSinkOptions {
+  /** Minimum level sent remotely (default: Warning) */
+  minLevel?: LogLevel;
+  /** Flush when this many entries are buffered (default: 20) */
+  maxBatchSize?: number;
+  /** Flush on this interval in milliseconds (default: 15000) */
+  flushIntervalMs?: number;
+  /** Send attempts per batch before giving up until the next flush (default: 3) */
+  maxRetries?: number;
+  /** Base delay between send attempts (default: 1000) */
+  retryDelayMs?: number;
+  /** localStorage key prefix for the offline buffers; omit to derive from the sink name */
+  storageKey?: string;
+  /**
+   * Log context value under `LOG_TRANSPORT_KEY` that marks entries about this sink's own
+   * requests; those are not sent (default: the sink name)
+   */
+  transportTag?: string;
+  /** Oldest entries are dropped beyond this size (default: 500) */
+  maxBufferedEntries?: number;
+  /** Maximum characters kept for serialized data (default: 4000) */
+  maxDataLength?: number;
+}
+
+const DEFAULT_BATCHING_OPTIONS: Required<
+  Omit<BatchingSinkOptions, 'storageKey' | 'transportTag'>
+> = {
+  minLevel: LogLevel.Warning,
+  maxBatchSize: 20,
+  flushIntervalMs: 15000,
+  maxRetries: 3,
+  retryDelayMs: 1000,
+  maxBufferedEntries: 500,
+  maxDataLength: 4000,
+};
+
+/**
+ * Log context key tagging entries logged by a sink's transport, e.g. the gateway's retries and
+ * failures while posting a batch. Give the transport a logger from
+ * `logger.withContext({ [LOG_TRANSPORT_KEY]: transportTag })`.
+ */
+export const LOG_TRANSPORT_KEY = 'logTransport';
+
+/**
+ * Offline buffer of one tab, stored under `<storageKey>:<tabId>`
+ */
+interface StoredLogBuffer {
+  entries: SerializedLogEntry[];
+  /** Refreshed on every write and flush interval while the tab is open */
+  updatedAt: number;
+  /** The page was hidden for good; other tabs may take the buffer over right away */
+  closed?: boolean;
+  /** Tab taking the buffer over, and when */
+  claimedBy?: string;
+  claimedAt?: number;
+}
+
+// Buffers not written for this long belong to tabs that are gone (hidden tabs run timers
+// only about once a minute)
+const ORPHANED_BUFFER_AGE = 5 * 60 * 1000;
+// Time for a competing claim from another tab to land before a buffer is taken over
+const CLAIM_SETTLE_MS = 100;
+
+/**
+ * Base class for sinks that batch entries and send them to a remote destination.
+ * Entries are mirrored to localStorage so they survive page unload. Each tab keeps its own
+ * buffer; buffers left by closed tabs are taken over and sent by the next tab that checks.
+ */
+export abstract class BatchingSink implements LogSink {
+  protected readonly options: Required<BatchingSinkOptions>;
+  private readonly tabId = createTabId();
+  private buffer: SerializedLogEntry[] = [];
+  private timer: number | undefined;
+  private flushPromise: Promise<void> | null = null;
+  private disposed = false;
+
+  constructor(name: string, options: BatchingSinkOptions = {}) {
+    this.options = {
+      ...DEFAULT_BATCHING_OPTIONS,
+      storageKey: `spfx-log-buffer:${name}`,
+      transportTag: name,
+    };
+
+    // Undefined values keep the defaults; other keys belong to the subclass
+    const setOption = <K extends keyof BatchingSinkOptions>(key: K): void => {
+      if (options[key] !== undefined) {
+        this.options[key] = options[key] as Required<BatchingSinkOptions>[K];
+      }
+    };
+    (Object.keys(this.options) as Array<keyof BatchingSinkOptions>).forEach(setOption);
+
+    this.attachPageListeners();
+    this.timer = window.setInterval(() => {
+      // Keeps this tab's buffer from looking orphaned while a destination is down
+      this.writeStorage();
+      this.adoptOrphanedBuffers()
+        .then(() => this.flush())
+        .catch(() => undefined);
+    }, this.options.flushIntervalMs);
+
+    // Send anything left over from closed tabs and previous pages
+    this.adoptOrphanedBuffers()
+      .then(() => (this.buffer.length > 0 ? this.flush() : undefined))
+      .catch(() => undefined);
+  }
+
+  /**
+   * Sends one batch to the remote destination; throw to trigger a retry
+   */
+  protected abstract send(entries: SerializedLogEntry[]): Promise<void>;
+
+  log(entry: LogEntry): void {
+    if (this.disposed || entry.level < this.options.minLevel) {
+      return;
+    }
+
+    // Entries about our own requests would keep a broken destination feeding itself
+    if (entry.context?.[LOG_TRANSPORT_KEY] === this.options.transportTag) {
+      return;
+    }
+
+    this.buffer.push(this.serialize(entry));
+    if (this.buffer.length > this.options.maxBufferedEntries) {
+      this.buffer = this.buffer.slice(-this.options.maxBufferedEntries);
+    }
+    this.writeStorage();
+
+    if (this.buffer.length >= this.options.maxBatchSize) {
+      this.flush().catch(() => undefined);
+    }
+  }
+
+  /**
+   * Sends all buffered entries in batches.
+   * Concurrent calls share the same flush.
+   */
+  flush(): Promise<void> {
+    if (this.flushPromise) {
+      return this.flushPromise;
+    }
+
+    const done = () => {
+      this.flushPromise = null;
+    };
+    this.flushPromise = this.drain().then(done, error => {
+      done();
+      throw error;
+    });
+
+    return this.flushPromise;
+  }
+
+  /**
+   * Number of entries waiting to be sent
+   */
+  get pendingCount(): number {
+    return this.buffer.length;
+  }
+
+  /**
+   * Stops the timer and page listeners; buffered entries stay in storage
+   */
+  dispose(): void {
+    this.disposed = true;
+    if (this.timer !== undefined) {
+      window.clearInterval(this.timer);
+      this.timer = undefined;
+    }
+    document.removeEventListener('visibilitychange', this.handleVisibilityChange);
+    window.removeEventListener('pagehide', this.handlePageHide);
+    window.removeEventListener('pageshow', this.handlePageShow);
+  }
+
+  private async drain(): Promise<void> {
+    while (this.buffer.length > 0) {
+      const batch = this.buffer.slice(0, this.options.maxBatchSize);
+      const sent = await this.sendWithRetry(batch);
+      if (!sent) {
+        // Keep everything buffered; the next interval or page visit tries again
+        return;
+      }
+
+      // Remove exactly the entries that were sent (new entries may have arrived meanwhile)
+      this.buffer = this.buffer.filter(entry => batch.indexOf(entry) < 0);
+      this.writeStorage();
+    }
+  }
+
+  private async sendWithRetry(batch: SerializedLogEntry[]): Promise<boolean> {
+    for (let attempt = 1; attempt <= this.options.maxRetries; attempt++) {
+      try {
+        await this.send(batch);
+        return true;
+      } catch (error) {
+        if (attempt < this.options.maxRetries) {
+          await new Promise(resolve =>
+            setTimeout(resolve, this.options.retryDelayMs * Math.pow(2, attempt - 1))
+          );
+        } else {
+          console.warn(`Log sink failed to send ${batch.length} entries:`, error);
+        }
+      }
+    }
+    return false;
+  }
+
+  private readonly handleVisibilityChange = (): void => {
+    if (document.visibilityState === 'hidden') {
+      this.writeStorage();
+      this.flush().catch(() => undefined);
+    }
+  };
+
+  private readonly handlePageHide = (): void => {
+    // The page may be gone before a request completes; storage guarantees the entries survive
+    // and the next tab takes them over
+    this.writeStorage(true);
+    this.flush().catch(() => undefined);
+  };
+
+  private readonly handlePageShow = (event: PageTransitionEvent): void => {
+    if (!event.persisted) {
+      return;
+    }
+
+    // Back from the back/forward cache: another tab may have taken the buffer over meanwhile
+    if (!this.readBuffer(this.ownKey)) {
+      this.buffer = [];
+    }
+    this.writeStorage();
+  };
+
+  private attachPageListeners(): void {
+    try {
+      document.addEventListener('visibilitychange', this.handleVisibilityChange);
+      window.addEventListener('pagehide', this.handlePageHide);
+      window.addEventListener('pageshow', this.handlePageShow);
+    } catch {
+      // Not running in a browser page
+    }
+  }
+
+  private serialize(entry: LogEntry): SerializedLogEntry {
+    const { context } = entry;
+    const error = entry.error ?? entry.data?.error;
+
+    return {
+      level: entry.level,
+      levelName: LogLevel[entry.level] ?? String(entry.level),
+      message: entry.message,
+      category: entry.category,
+      timestamp: new Date(entry.timestamp).toISOString(),
+      correlationId: context.correlationId,
+      environment: context.environment,
+      component: context.component,
+      user: context.user,
+      siteUrl: context.siteUrl,
+      webUrl: context.webUrl,
+      pageUrl: typeof window !== 'undefined' ? window.location.href : undefined,
+      data: this.stringifyData(entry.data),
+      error: error
+        ? {
+            name: error.name ?? 'Error',
+            message: error.message ?? String(error),
+            stack: error.stack,
+          }
+        : undefined,
+    };
+  }
+
+  private stringifyData(data: any): string | undefined {
+    if (data === undefined || data === null) {
+      return undefined;
+    }
+
+    try {
+      const seen = new WeakSet<object>();
+      const json = JSON.stringify(data, (_key, value) => {
+        if (typeof value === 'object' && value !== null) {
+          if (seen.has(value)) return '[Circular]';
+          seen.add(value);
+        }
+        return value;
+      });
+      return json && json.length > this.options.maxDataLength
+        ? `${json.substring(0, this.options.maxDataLength)}…`
+        : json;
+    } catch {
+      return '[Unserializable data]';
+    }
+  }
+
+  private get ownKey(): string {
+    return `${this.options.storageKey}:${this.tabId}`;
+  }
+
+  /**
+   * Takes over the buffers of closed tabs. Each buffer is claimed first and only taken over
+   * if the claim is still this tab's once other tabs had time to claim it too, so every
+   * entry is sent by one tab only.
+   */
+  private async adoptOrphanedBuffers(): Promise<void> {
+    const now = Date.now();
+    const claimed = this.listBufferKeys().filter(key => {
+      const stored = this.readBuffer(key);
+      const isOrphaned =
+        !!stored && (stored.closed || now - stored.updatedAt > ORPHANED_BUFFER_AGE);
+      const isClaimed =
+        !!stored?.claimedBy && now - (stored.claimedAt ?? 0) < ORPHANED_BUFFER_AGE;
+      if (!isOrphaned || isClaimed) {
+        return false;
+      }
+
+      try {
+        localStorage.setItem(
+          key,
+          JSON.stringify({ ...stored, claimedBy: this.tabId, claimedAt: now })
+        );
+        return true;
+      } catch {
+        return false;
+      }
+    });
+    if (claimed.length === 0) {
+      return;
+    }
+
+    await new Promise(resolve => setTimeout(resolve, CLAIM_SETTLE_MS));
+
+    const adopted: SerializedLogEntry[] = [];
+    claimed.forEach(key => {
+      const stored = this.readBuffer(key);
+      if (stored?.claimedBy === this.tabId) {
+        adopted.push(...stored.entries);
+        localStorage.removeItem(key);
+      }
+    });
+    if (adopted.length === 0 || this.disposed) {
+      return;
+    }
+
+    this.buffer = [...adopted, ...this.buffer]
+      .sort((a, b) => a.timestamp.localeCompare(b.timestamp))
+      .slice(-this.options.maxBufferedEntries);
+    this.writeStorage();
+  }
+
+  // Buffer keys of other tabs, and the single shared key used by earlier versions
+  private listBufferKeys(): string[] {
+    const prefix = `${this.options.storageKey}:`;
+    const keys: string[] = [];
+    try {
+      for (let i = 0; i < localStorage.length; i++) {
+        const key = localStorage.key(i);
+        if (
+          key &&
+          key !== this.ownKey &&
+          (key === this.options.storageKey || key.indexOf(prefix) === 0)
+        ) {
+          keys.push(key);
+        }
+      }
+    } catch {
+      // Storage unavailable
+    }
+    return keys;
+  }
+
+  private readBuffer(key: string): StoredLogBuffer | undefined {
+    try {
+      const raw = localStorage.getItem(key);
+      const parsed = raw ? JSON.parse(raw) : undefined;
+      if (Array.isArray(parsed)) {
+        // Shared buffer of earlier versions
+        return { entries: parsed, updatedAt: 0, closed: true };
+      }
+      return parsed && Array.isArray(parsed.entries) ? parsed : undefined;
+    } catch {
+      return undefined;
+    }
+  }
+
+  private writeStorage(closed = false): void {
+    try {
+      if (this.buffer.length === 0) {
+        localStorage.removeItem(this.ownKey);
+      } else {
+        const stored: StoredLogBuffer = { entries: this.buffer, updatedAt: Date.now(), closed };
+        localStorage.setItem(this.ownKey, JSON.stringify(stored));
+      }
+    } catch {
+      // Storage full or unavailable - entries remain in memory only
+    }
+  }
+}
+
+function createTabId(): string {
+  return `${Date.now().toString(36)}-${Math.random().toString(36).substring(2, 8)}`;
+}
+
+/**
+ * Field mapping for the SharePoint log list
+ */
+export interface SharePointListSinkFields {
+  title: string;
+  level: string;
+  category: string;
+  correlationId: string;
+  component: string;
+  environment: string;
+  user: string;
+  pageUrl: string;
+  details: string;
+  loggedAt: string;
+}
+
+export interface SharePointListSinkOptions extends BatchingSinkOptions {
+  /** SP instance used for writes (use a non-caching instance) */
+  sp: SPFI;
+  /** Title of the log list */
+  listTitle: string;
+  /** Internal field names, merged with the defaults */
+  fields?: Partial<SharePointListSinkFields>;
+}
+
+const DEFAULT_LIST_FIELDS: SharePointListSinkFields = {
+  title: 'Title',
+  level: 'LogLevel',
+  category: 'Category',
+  correlationId: 'CorrelationId',
+  component: 'Component',
+  environment: 'Environment',
+  user: 'UserLogin',
+  pageUrl: 'PageUrl',
+  details: 'Details',
+  loggedAt: 'LoggedAt',
+};
+
+/**
+ * Writes log batches as items in a SharePoint list using one PnP batch per flush
+ */
+export class SharePointListSink extends BatchingSink {
+  private readonly sp: SPFI;
+  private readonly listTitle: string;
+  private readonly fields: SharePointListSinkFields;
+
+  constructor(options: SharePointListSinkOptions) {
+    super(`list:${options.listTitle}`, options);
+    this.sp = options.sp;
+    this.listTitle = options.listTitle;
+    this.fields = { ...DEFAULT_LIST_FIELDS, ...options.fields };
+  }
+
+  protected async send(entries: SerializedLogEntry[]): Promise<void> {
+    const [batchedSP, execute] = this.sp.batched();
+    const list = batchedSP.web.lists.getByTitle(this.listTitle);
+    const errors: any[] = [];
+
+    entries.forEach(entry => {
+      list.items.add(this.toItem(entry)).catch(error => errors.push(error));
+    });
+
+    await execute();
+
+    if (errors.length > 0) {
+      throw errors[0];
+    }
+  }
+
+  private toItem(entry: SerializedLogEntry): Record<string, any> {
+    const { fields } = this;
+    return {
+      [fields.title]: entry.message.substring(0, 255),
+      [fields.level]: entry.levelName,
+      [fields.category]: entry.category,
+      [fields.correlationId]: entry.correlationId,
+      [fields.component]: entry.component ?? '',
+      [fields.environment]: entry.environment,
+      [fields.user]: entry.user ?? '',
+      [fields.pageUrl]: (entry.pageUrl ?? '').substring(0, 255),
+      [fields.details]: JSON.stringify({ data: entry.data, error: entry.error }),
+      [fields.loggedAt]: entry.timestamp,
+    };
+  }
+}
+
+export interface HttpEndpointSinkOptions extends BatchingSinkOptions {
+  /**
+   * Gateway used to post batches; its logger should carry `transportTag` under
+   * `LOG_TRANSPORT_KEY` so its retries and failures aren't sent back to the endpoint
+   */
+  http: HttpGateway;
+  /** Endpoint receiving `{ entries: SerializedLogEntry[] }` */
+  url: string;
+  headers?: Record<string, string>;
+  functionKey?: string;
+  useAzureAD?: boolean;
+  resourceUri?: string;
+}
+
+/**
+ * Posts log batches to an HTTP endpoint (e.g. an Azure Function) through the gateway
+ */
+export class HttpEndpointSink extends BatchingSink {
+  private readonly sinkOptions: HttpEndpointSinkOptions;
+
+  constructor(options: HttpEndpointSinkOptions) {
+    super(`http:${options.url.split('?')[0]}`, options);
+    this.sinkOptions = options;
+  }
+
+  protected async send(entries: SerializedLogEntry[]): Promise<void> {
+    const { http, url, headers, functionKey, useAzureAD, resourceUri } = this.sinkOptions;
+
+    const result = await http.callFunction({
+      url,
+      method: 'POST',
+      data: { entries },
+      headers,
+      functionKey,
+      useAzureAD,
+      resourceUri,
+    });
+
+    if (!result.ok) {
+      throw new Error(`Log endpoint returned ${result.status} ${result.statusText ?? ''}`.trim());
+    }
+  }
+}
@@ -0,0 +1,284 @@
+/**
+ * src/context/settings/registry.ts
+ * Typed per-environment settings registry (Flow URLs, Function URLs, list names)
+ */
+
+import type { SPFI } from '@pnp/sp';
+import '@pnp/sp/files';
+import '@pnp/sp/items';
+import '@pnp/sp/lists';
+import '@pnp/sp/webs';
+import type {
+  ContextLogger,
+  EnvironmentName,
+  EnvironmentValues,
+  SettingSource,
+  SettingsAccessor,
+  SettingsDefinitions,
+  SettingsSourceConfig,
+} from '../utils/types';
+
+/**
+ * Resolves the value type declared for a setting
+ */
+export type SettingValue<
+  D extends SettingsDefinitions,
+  K extends keyof D
+> = D[K] extends EnvironmentValues<infer V> ? V : never;
+
+/**
+ * Declares settings once with values per environment.
+ * Identity function that preserves literal key types for typed access.
+ *
+ * ```typescript
+ * export const AppSettings = defineSettings({
+ *   'flows.submitRequest': { dev: 'https://…', uat: 'https://…', prod: 'https://…' },
+ *   'lists.requests': { default: 'Legal Requests' },
+ * });
+ * ```
+ */
+export function defineSettings<D extends SettingsDefinitions>(definitions: D): D {
+  return definitions;
+}
+
+interface ResolvedSetting {
+  value: unknown;
+  source: SettingSource;
+}
+
+/**
+ * Settings registry resolving values for the current environment.
+ * Precedence: URL override (when allowed) > remote source > declared value > declared default > environment endpoints.
+ */
+export class SettingsRegistry<D extends SettingsDefinitions = SettingsDefinitions>
+  implements SettingsAccessor
+{
+  private readonly values = new Map<string, ResolvedSetting>();
+  private loaded = false;
+
+  constructor(
+    private readonly environment: EnvironmentName,
+    private readonly definitions: D = {} as D,
+    private readonly options: {
+      /** Endpoint URLs from the environment settings, exposed as `endpoints.<name>` */
+      endpoints?: Record<string, string>;
+      /** Raw URL overrides keyed by setting name (applied only with `allowUrlOverrides`) */
+      urlOverrides?: Record<string, string>;
+      /**
+       * Whether URL overrides apply. Decide from the detected site environment or build mode,
+       * never from `?env=`: anyone can add that to a production URL.
+       */
+      allowUrlOverrides?: boolean;
+      logger?: ContextLogger;
+    } = {}
+  ) {
+    this.resolveDeclared();
+  }
+
+  /**
+   * Loads remote sources (SharePoint list or JSON file) and re-applies URL overrides
+   */
+  async load(sp: SPFI, sources: SettingsSourceConfig[] = []): Promise<void> {
+    for (const source of sources) {
+      try {
+        const remoteValues =
+          source.type === 'list'
+            ? await this.loadFromList(sp, source)
+            : await this.loadFromJson(sp, source);
+
+        Object.keys(remoteValues).forEach(key => {
+          this.values.set(key, { value: remoteValues[key], source: 'remote' });
+        });
+
+        this.options.logger?.verbose(
+          'Settings loaded',
+          { source: source.type, count: Object.keys(remoteValues).length },
+          'settings'
+        );
+      } catch (error) {
+        this.options.logger?.warn(
+          'Failed to load settings source, using declared values',
+          {
+            source: source.type,
+            error: error instanceof Error ? error.message : String(error),
+          },
+          'settings'
+        );
+      }
+    }
+
+    this.applyUrlOverrides();
+    this.loaded = true;
+  }
+
+  get isLoaded(): boolean {
+    return this.loaded;
+  }
+
+  /**
+   * Gets a setting value; throws when the key has no value for this environment
+   */
+  get<K extends keyof D & string>(key: K): SettingValue<D, K>;
+  get<T = unknown>(key: string): T;
+  get(key: string): unknown {
+    const resolved = this.values.get(key);
+    if (!resolved) {
+      throw new Error(
+        key in this.definitions
+          ? `Setting '${key}' has no value for environment '${this.environment}'`
+          : `Setting '${key}' is not defined`
+      );
+    }
+    return resolved.value;
+  }
+
+  /**
+   * Gets a setting value or the fallback when it has no value
+   */
+  getOptional<T = unknown>(key: string, fallback?: T): T | undefined {
+    const resolved = this.values.get(key);
+    return resolved ? (resolved.value as T) : fallback;
+  }
+
+  has(key: string): boolean {
+    return this.values.has(key);
+  }
+
+  /**
+   * Where the current value of a key came from
+   */
+  getSource(key: string): SettingSource | undefined {
+    return this.values.get(key)?.source;
+  }
+
+  /**
+   * All resolved settings (useful for diagnostics)
+   */
+  getAll(): Record<string, { value: unknown; source: SettingSource }> {
+    const result: Record<string, { value: unknown; source: SettingSource }> = {};
+    this.values.forEach((resolved, key) => {
+      result[key] = { ...resolved };
+    });
+    return result;
+  }
+
+  private resolveDeclared(): void {
+    const endpoints = this.options.endpoints ?? {};
+    Object.keys(endpoints).forEach(name => {
+      this.values.set(`endpoints.${name}`, { value: endpoints[name], source: 'environment' });
+    });
+
+    Object.keys(this.definitions).forEach(key => {
+      const declared = this.definitions[key];
+      if (declared[this.environment] !== undefined) {
+        this.values.set(key, { value: declared[this.environment], source: 'declared' });
+      } else if (declared.default !== undefined) {
+        this.values.set(key, { value: declared.default, source: 'default' });
+      }
+    });
+
+    this.applyUrlOverrides();
+  }
+
+  private applyUrlOverrides(): void {
+    const overrides = this.options.urlOverrides;
+    if (!overrides || !this.options.allowUrlOverrides) {
+      return;
+    }
+
+    Object.keys(overrides).forEach(key => {
+      const current = this.values.get(key)?.value;
+      this.values.set(key, {
+        value: coerceSettingValue(overrides[key], current),
+        source: 'url-override',
+      });
+    });
+  }
+
+  private async loadFromList(
+    sp: SPFI,
+    source: Extract<SettingsSourceConfig, { type: 'list' }>
+  ): Promise<Record<string, unknown>> {
+    const keyField = source.keyField ?? 'Title';
+    const valueField = source.valueField ?? 'Value';
+    const environmentField = source.environmentField ?? 'Environment';
+
+    const items: any[] = await sp.web.lists
+      .getByTitle(source.listTitle)
+      .items.select(keyField, valueField, environmentField)
+      .top(5000)();
+
+    const result: Record<string, unknown> = {};
+
+    // Rows without an environment apply everywhere; environment-specific rows win
+    const sorted = [...items].sort(
+      (a, b) => (a[environmentField] ? 1 : 0) - (b[environmentField] ? 1 : 0)
+    );
+    sorted.forEach(item => {
+      const key = item[keyField];
+      const environment = String(item[environmentField] ?? '').toLowerCase();
+      if (!key || (environment && environment !== this.environment)) {
+        return;
+      }
+      result[key] = coerceSettingValue(item[valueField], this.values.get(key)?.value);
+    });
+
+    return result;
+  }
+
+  private async loadFromJson(
+    sp: SPFI,
+    source: Extract<SettingsSourceConfig, { type: 'json' }>
+  ): Promise<Record<string, unknown>> {
+    const json = await sp.web.getFileByServerRelativePath(source.serverRelativeUrl).getJSON();
+    const result: Record<string, unknown> = {};
+
+    Object.keys(json ?? {}).forEach(key => {
+      const entry = json[key];
+      if (isEnvironmentValues(entry)) {
+        const value = entry[this.environment] ?? entry.default;
+        if (value !== undefined) {
+          result[key] = value;
+        }
+      } else {
+        result[key] = entry;
+      }
+    });
+
+    return result;
+  }
+}
+
+/**
+ * Converts a raw string (URL parameter or list column) to the type of the declared value
+ */
+export function coerceSettingValue(raw: unknown, sample: unknown): unknown {
+  if (typeof raw !== 'string') {
+    return raw;
+  }
+
+  switch (typeof sample) {
+    case 'number': {
+      const parsed = Number(raw);
+      return isNaN(parsed) ? sample : parsed;
+    }
+    case 'boolean':
+      return raw === 'true' || raw === '1';
+    case 'object':
+      try {
+        return JSON.parse(raw);
+      } catch {
+        return sample;
+      }
+    default:
+      return raw;
+  }
+}
+
+function isEnvironmentValues(value: unknown): value is EnvironmentValues<unknown> {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    return false;
+  }
+  const keys = Object.keys(value);
+  return keys.length > 0 && keys.every(k => ['dev', 'uat', 'prod', 'default'].includes(k));
+}
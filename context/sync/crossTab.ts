@@ -0,0 +1,181 @@
+/**
+ * src/context/sync/crossTab.ts
+ * Cross-tab coordination over BroadcastChannel with a storage-event fallback
+ */
+
+import type {
+  CrossTabAccessor,
+  CrossTabEnvelope,
+  CrossTabMessage,
+  CrossTabTransport,
+  ItemSavedMessage,
+} from '../utils/types';
+
+type Handler = (message: CrossTabMessage, envelope: CrossTabEnvelope) => void;
+
+/**
+ * Publishes messages to other tabs of the same origin and delivers theirs to subscribers.
+ * Messages are never delivered back to the tab that sent them.
+ */
+export class CrossTabChannel implements CrossTabAccessor {
+  readonly tabId: string;
+  private readonly channelName: string;
+  private readonly storageKey: string;
+  private readonly handlers = new Map<string, Handler[]>();
+  private channel: BroadcastChannel | null = null;
+  private currentTransport: CrossTabTransport = 'none';
+  private disposed = false;
+
+  constructor(options: { channelName?: string; tabId?: string; enabled?: boolean } = {}) {
+    this.channelName = options.channelName ?? 'spfx-context';
+    this.storageKey = `${this.channelName}:message`;
+    this.tabId = options.tabId ?? createId('tab');
+    if (options.enabled !== false) {
+      this.connect();
+    }
+  }
+
+  get transport(): CrossTabTransport {
+    return this.currentTransport;
+  }
+
+  /**
+   * Sends a message to every other tab
+   */
+  publish(message: CrossTabMessage): void {
+    if (this.disposed || this.currentTransport === 'none') {
+      return;
+    }
+
+    const envelope: CrossTabEnvelope = {
+      id: createId(this.tabId),
+      sourceTabId: this.tabId,
+      timestamp: Date.now(),
+      message,
+    };
+
+    try {
+      if (this.channel) {
+        this.channel.postMessage(envelope);
+      } else {
+        // Setting then removing the key fires a storage event in other tabs only
+        window.localStorage.setItem(this.storageKey, JSON.stringify(envelope));
+        window.localStorage.removeItem(this.storageKey);
+      }
+    } catch (error) {
+      console.warn('Cross-tab publish failed:', error);
+    }
+  }
+
+  /**
+   * Subscribes to one message type, or to all messages with '*'; returns an unsubscribe function
+   */
+  subscribe<T extends CrossTabMessage['type']>(
+    type: T | '*',
+    handler: (message: Extract<CrossTabMessage, { type: T }>, envelope: CrossTabEnvelope) => void
+  ): () => void {
+    const list = this.handlers.get(type) ?? [];
+    list.push(handler as Handler);
+    this.handlers.set(type, list);
+
+    return () => {
+      const current = this.handlers.get(type);
+      const index = current ? current.indexOf(handler as Handler) : -1;
+      if (current && index >= 0) {
+        current.splice(index, 1);
+      }
+    };
+  }
+
+  announceItemSaved(change: Omit<ItemSavedMessage, 'type'>): void {
+    this.publish({ type: 'item-saved', ...change });
+  }
+
+  announceLogout(reason?: string): void {
+    this.publish({ type: 'logout', reason });
+  }
+
+  /**
+   * Saves made in other tabs (shape accepted by ConflictDetector's `changeNotifications`)
+   */
+  onItemSaved(listener: (change: ItemSavedMessage) => void): () => void {
+    return this.subscribe('item-saved', message => listener(message));
+  }
+
+  /**
+   * Closes the channel and drops all subscribers
+   */
+  dispose(): void {
+    this.disposed = true;
+    this.handlers.clear();
+
+    if (this.channel) {
+      this.channel.removeEventListener('message', this.handleChannelMessage);
+      this.channel.close();
+      this.channel = null;
+    }
+    if (this.currentTransport === 'storage') {
+      window.removeEventListener('storage', this.handleStorageEvent);
+    }
+    this.currentTransport = 'none';
+  }
+
+  private connect(): void {
+    try {
+      if (typeof BroadcastChannel !== 'undefined') {
+        this.channel = new BroadcastChannel(this.channelName);
+        this.channel.addEventListener('message', this.handleChannelMessage);
+        this.currentTransport = 'broadcast-channel';
+        return;
+      }
+    } catch {
+      this.channel = null;
+    }
+
+    try {
+      if (typeof window !== 'undefined' && window.localStorage) {
+        window.addEventListener('storage', this.handleStorageEvent);
+        this.currentTransport = 'storage';
+      }
+    } catch {
+      this.currentTransport = 'none';
+    }
+  }
+
+  private readonly handleChannelMessage = (event: MessageEvent): void => {
+    this.deliver(event.data);
+  };
+
+  private readonly handleStorageEvent = (event: StorageEvent): void => {
+    if (event.key !== this.storageKey || !event.newValue) {
+      return;
+    }
+    try {
+      this.deliver(JSON.parse(event.newValue));
+    } catch {
+      // Ignore malformed messages
+    }
+  };
+
+  private deliver(envelope: CrossTabEnvelope): void {
+    if (this.disposed || !envelope?.message?.type || envelope.sourceTabId === this.tabId) {
+      return;
+    }
+
+    const handlers = [
+      ...(this.handlers.get(envelope.message.type) ?? []),
+      ...(this.handlers.get('*') ?? []),
+    ];
+    handlers.forEach(handler => {
+      try {
+        handler(envelope.message, envelope);
+      } catch (error) {
+        console.warn('Cross-tab handler error:', error);
+      }
+    });
+  }
+}
+
+function createId(prefix: string): string {
+  return `${prefix}-${Date.now().toString(36)}-${Math.random().toString(36).substring(2, 8)}`;
+}
@@ -5,6 +5,7 @@
 
 import { LogLevel } from '@pnp/logging';
 import { Context } from '../context-manager';
+import { validateEnvironmentConfig } from '../environment/detector';
 import type { ContextInitOptions } from './types';
 
 /**
@@ -149,6 +150,63 @@ export class ContextValidation {
       if (options.http.maxConcurrent !== undefined && options.http.maxConcurrent > 20) {
         warnings.push('http.maxConcurrent above 20 may overwhelm SharePoint');
       }
+
+      if (options.http.maxThrottleDelayMs !== undefined && options.http.maxThrottleDelayMs < 0) {
+        errors.push('http.maxThrottleDelayMs must be 0 or greater');
+      }
+
+      const breaker = options.http.circuitBreaker;
+      if (breaker) {
+        if (breaker.failureThreshold !== undefined && breaker.failureThreshold < 1) {
+          errors.push('http.circuitBreaker.failureThreshold must be at least 1');
+        }
+
+        if (breaker.resetTimeoutMs !== undefined && breaker.resetTimeoutMs < 1000) {
+          warnings.push(
+            'http.circuitBreaker.resetTimeoutMs less than 1 second may hammer a failing endpoint'
+          );
+        }
+
+        if (
+          breaker.halfOpenSuccessThreshold !== undefined &&
+          breaker.halfOpenSuccessThreshold < 1
+        ) {
+          errors.push('http.circuitBreaker.halfOpenSuccessThreshold must be at least 1');
+        }
+      }
+    }
+
+    // Validate environment rules and per-environment settings
+    if (options.environment) {
+      const environmentResult = validateEnvironmentConfig({
+        rules: options.environment.rules,
+        environments: options.environment.environments,
+      });
+      errors.push(...environmentResult.errors.map(error => `environment.${error}`));
+      warnings.push(...environmentResult.warnings.map(warning => `environment.${warning}`));
+    }
+
+    // Validate settings registry definitions and sources
+    if (options.settings) {
+      const definitions = options.settings.definitions ?? {};
+      Object.keys(definitions).forEach(key => {
+        const values = definitions[key];
+        const hasValue = ['dev', 'uat', 'prod', 'default'].some(
+          name => (values as Record<string, unknown>)[name] !== undefined
+        );
+        if (!hasValue) {
+          warnings.push(`settings.definitions['${key}'] has no values for any environment`);
+        }
+      });
+
+      (options.settings.sources ?? []).forEach((source, index) => {
+        if (source.type === 'list' && !source.listTitle) {
+          errors.push(`settings.sources[${index}].listTitle is required`);
+        }
+        if (source.type === 'json' && !source.serverRelativeUrl?.startsWith('/')) {
+          errors.push(`settings.sources[${index}].serverRelativeUrl must be server-relative`);
+        }
+      });
     }
 
     // Validate telemetry - Reserved for future use
@@ -28,6 +28,10 @@ export interface ContextInitOptions {
     enableDiagnostics?: boolean;
     enablePerformanceMetrics?: boolean;
     productionSampling?: number; // 0-1, percentage of logs to keep in prod
+    /** Additional sinks attached at initialization */
+    sinks?: LogSink[];
+    /** Built-in batching sinks that send entries to SharePoint or an HTTP endpoint */
+    remote?: RemoteLoggingOptions;
   };
 
   /** HTTP configuration */
@@ -35,6 +39,12 @@ export interface ContextInitOptions {
     timeoutMs?: number;
     retries?: number;
     maxConcurrent?: number;
+    /** Wait the time requested by Retry-After/RateLimit-Reset headers (default: true) */
+    respectRetryAfter?: boolean;
+    /** Upper bound for a single server-requested throttle pause (default: 120000) */
+    maxThrottleDelayMs?: number;
+    /** Per-endpoint circuit breaker for Flow and Function calls */
+    circuitBreaker?: CircuitBreakerOptions;
   };
 
   /** Caching defaults */
@@ -50,6 +60,40 @@ export interface ContextInitOptions {
     [key: string]: any;
   };
 
+  /** Environment detection rules and per-environment settings */
+  environment?: {
+    patterns?: Partial<EnvironmentConfig['patterns']>;
+    rules?: EnvironmentRule[];
+    environments?: EnvironmentConfig['environments'];
+  };
+
+  /** Typed per-environment settings (Flow URLs, Function URLs, list names) */
+  settings?: {
+    definitions?: SettingsDefinitions;
+    /** Remote sources loaded at init, later sources win */
+    sources?: SettingsSourceConfig[];
+    /** Cache strategy used when loading remote sources (default: 'long') */
+    cacheStrategy?: CacheStrategy;
+  };
+
+  /** In-page diagnostics panel (opened with a keyboard shortcut or `?spfxDebug`) */
+  diagnostics?: {
+    /** Force the panel on or off; by default it is available with dev tools or `?spfxDebug` outside prod */
+    enabled?: boolean;
+    /** Keyboard shortcut that toggles the panel (default: 'ctrl+alt+d') */
+    shortcut?: string;
+    /** Recent log entries kept for the panel (default: 200) */
+    maxLogEntries?: number;
+  };
+
+  /** Cross-tab coordination (item saves, cache invalidations, logout) */
+  crossTab?: {
+    /** Default: true */
+    enabled?: boolean;
+    /** Channel shared by cooperating tabs (default: one channel per web) */
+    channelName?: string;
+  };
+
   /** Feature flags */
   features?: {
     enableUrlOverrides?: boolean;
@@ -73,6 +117,8 @@ export interface SPFxContext {
 
   // Environment information
   readonly environment: EnvironmentName;
+  readonly environmentSettings: EnvironmentSettings;
+  readonly settings: SettingsAccessor;
   readonly buildMode: BuildMode;
   readonly isProdSite: boolean;
   readonly isProdBuild: boolean;
@@ -108,6 +154,8 @@ export interface SPFxContext {
   readonly http: HttpGateway;
   readonly links: LinkBuilder;
   readonly performance: PerformanceTracker;
+  readonly cache: CacheAccessor;
+  readonly crossTab: CrossTabAccessor;
 
   // Request correlation
   readonly correlationId: string;
@@ -115,6 +163,10 @@ export interface SPFxContext {
   // Utility methods
   forWeb(webUrl: string, cacheStrategy?: CacheStrategy): SPFI;
   withCache<T>(strategy: CacheStrategy, operation: (sp: SPFI) => Promise<T>): Promise<T>;
+
+  // Circuit breaker state for downstream endpoints (Flows, Functions)
+  getCircuitBreakerStatus(url?: string): CircuitBreakerStatus[];
+  resetCircuitBreaker(url?: string): void;
 }
 
 // Logging interfaces
@@ -180,6 +232,8 @@ export interface FlowTriggerOptions {
   useAzureAD?: boolean;
   /** Resource URI or Application ID for Azure AD token */
   resourceUri?: string;
+  /** Cancels the request, its retries and any queued wait */
+  signal?: AbortSignal;
 }
 
 export interface FunctionCallOptions {
@@ -196,6 +250,13 @@ export interface FunctionCallOptions {
   functionKey?: string;
   /** API key for custom authentication */
   apiKey?: string;
+  /** Cancels the request, its retries and any queued wait */
+  signal?: AbortSignal;
+}
+
+export interface SpRequestOptions {
+  /** Cancels the request, its retries and any queued wait */
+  signal?: AbortSignal;
 }
 
 export interface HttpGateway {
@@ -204,7 +265,8 @@ export interface HttpGateway {
     method: 'GET' | 'POST' | 'PATCH' | 'DELETE',
     url: string,
     data?: any,
-    headers?: Record<string, string>
+    headers?: Record<string, string>,
+    options?: SpRequestOptions
   ): Promise<HttpResult>;
 
   // Power Platform integration
@@ -221,6 +283,40 @@ export interface HttpGateway {
   readonly rawHttpClient: any;
 }
 
+// Circuit breaker interfaces
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+export interface CircuitBreakerOptions {
+  /** Enable circuit breaking (default: true) */
+  enabled?: boolean;
+  /** Consecutive failed calls before the circuit opens (default: 3) */
+  failureThreshold?: number;
+  /** Time the circuit stays open before a trial call is allowed (default: 30000) */
+  resetTimeoutMs?: number;
+  /** Successful trial calls needed to close a half-open circuit (default: 1) */
+  halfOpenSuccessThreshold?: number;
+}
+
+export interface CircuitBreakerStatus {
+  /** Endpoint key (host and path) */
+  endpoint: string;
+  state: CircuitState;
+  failures: number;
+  openedAt: number | null;
+  nextAttemptAt: number | null;
+  lastError: string | null;
+  lastStateChange: number;
+}
+
+export interface InFlightRequest {
+  id: number;
+  operationType: string;
+  method: string;
+  /** URL without query string */
+  url: string;
+  startedAt: number;
+}
+
 // Link builder interfaces
 export interface FileLinks {
   absolute(fileUrlOrPath: string): string;
@@ -286,20 +382,167 @@ export interface PerformanceTracker {
 }
 
 // Environment detection configuration
+export type EnvironmentRule =
+  | {
+      type: 'regex';
+      environment: EnvironmentName;
+      /** Regular expression (string patterns are case-insensitive) */
+      pattern: string | RegExp;
+      /** Part of the web URL to test (default: 'url') */
+      target?: 'url' | 'host' | 'path';
+    }
+  | {
+      type: 'host';
+      environment: EnvironmentName;
+      /** Tenant host names, e.g. contosodev.sharepoint.com */
+      hosts: string[];
+    }
+  | {
+      type: 'siteId';
+      environment: EnvironmentName;
+      /** Site collection or web IDs */
+      siteIds: string[];
+    }
+  | {
+      type: 'propertyBag';
+      /** Web property bag key */
+      key: string;
+      /** Match this value; when omitted the property value itself is the environment name */
+      value?: string;
+      environment?: EnvironmentName;
+    };
+
+export interface EnvironmentSettings {
+  logLevel?: LogLevel;
+  cacheStrategy?: CacheStrategy;
+  /** Named endpoint URLs (Flows, Functions, APIs) for this environment */
+  endpoints?: Record<string, string>;
+}
+
+export type EnvironmentSource = 'url-override' | 'rule' | 'pattern';
+
 export interface EnvironmentConfig {
   patterns: {
     dev: string[];
     uat: string[];
     prod: string[];
   };
+  /** Rules evaluated in order before patterns; the first match wins */
+  rules?: EnvironmentRule[];
+  /** Settings resolved for the detected environment at init */
+  environments?: Partial<Record<EnvironmentName, EnvironmentSettings>>;
   urlOverrides?: {
     environment?: EnvironmentName;
     logLevel?: LogLevel;
     cacheStrategy?: CacheStrategy;
     debug?: boolean;
+    /** Open the diagnostics panel on load (`?spfxDebug`) */
+    diagnostics?: boolean;
+    /** Individual setting values (`?spfx-setting.<key>=<value>`), for dev sites and builds only */
+    settings?: Record<string, string>;
   };
 }
 
+// Settings registry
+export type EnvironmentValues<T> = Partial<Record<EnvironmentName, T>> & { default?: T };
+
+export type SettingsDefinitions = Record<string, EnvironmentValues<unknown>>;
+
+export type SettingSource = 'url-override' | 'remote' | 'declared' | 'default' | 'environment';
+
+export type SettingsSourceConfig =
+  | {
+      type: 'list';
+      listTitle: string;
+      /** Column holding the setting key (default: 'Title') */
+      keyField?: string;
+      /** Column holding the value (default: 'Value') */
+      valueField?: string;
+      /** Column holding the environment; empty rows apply to all (default: 'Environment') */
+      environmentField?: string;
+    }
+  | {
+      type: 'json';
+      /** Server-relative URL of a JSON file, e.g. in Site Assets */
+      serverRelativeUrl: string;
+    };
+
+export interface SettingsAccessor {
+  get<T = unknown>(key: string): T;
+  getOptional<T = unknown>(key: string, fallback?: T): T | undefined;
+  has(key: string): boolean;
+  getSource(key: string): SettingSource | undefined;
+  getAll(): Record<string, { value: unknown; source: SettingSource }>;
+}
+
+// Cache invalidation and metrics
+export interface CacheInvalidationTarget {
+  /** List GUID or title */
+  listId?: string;
+  /** List title (when the list is also known by ID) */
+  listTitle?: string;
+  /** Evict this item and the list's item collections instead of the whole list */
+  itemId?: number;
+}
+
+export interface CacheMetrics {
+  hits: number;
+  misses: number;
+  errors: number;
+  totalRequests: number;
+  hitRatio: number;
+  lastUpdated: number;
+}
+
+export interface CacheAccessor {
+  /** Evicts cached entries for a list or item; returns the number evicted */
+  invalidate(target: CacheInvalidationTarget): number;
+  /** Evicts every cached SharePoint response; returns the number evicted */
+  clear(): number;
+  /** Hit/miss/error counts per cache strategy */
+  getMetrics(): Partial<Record<CacheStrategy, CacheMetrics>>;
+}
+
+// Cross-tab coordination
+export type CrossTabTransport = 'broadcast-channel' | 'storage' | 'none';
+
+export interface ItemSavedMessage {
+  type: 'item-saved';
+  /** List GUID, when known */
+  listId?: string;
+  /** List title, when known */
+  listTitle?: string;
+  itemId: number;
+  savedBy?: string;
+}
+
+export type CrossTabMessage =
+  | ItemSavedMessage
+  | { type: 'cache-invalidated'; target: CacheInvalidationTarget }
+  | { type: 'logout'; reason?: string }
+  | { type: 'custom'; topic: string; payload?: any };
+
+export interface CrossTabEnvelope {
+  id: string;
+  sourceTabId: string;
+  timestamp: number;
+  message: CrossTabMessage;
+}
+
+export interface CrossTabAccessor {
+  readonly tabId: string;
+  readonly transport: CrossTabTransport;
+  publish(message: CrossTabMessage): void;
+  subscribe<T extends CrossTabMessage['type']>(
+    type: T | '*',
+    handler: (message: Extract<CrossTabMessage, { type: T }>, envelope: CrossTabEnvelope) => void
+  ): () => void;
+  announceItemSaved(change: Omit<ItemSavedMessage, 'type'>): void;
+  announceLogout(reason?: string): void;
+  /** Saves made in other tabs */
+  onItemSaved(listener: (change: ItemSavedMessage) => void): () => void;
+}
+
 // Internal interfaces for implementation
 export interface CacheBehaviorConfig {
   ttlMs: number;
@@ -307,6 +550,31 @@ export interface CacheBehaviorConfig {
   keyFactory: (url: string) => string;
 }
 
+export interface RemoteLoggingOptions {
+  /** Minimum level sent remotely (default: Warning) */
+  minLevel?: LogLevel;
+  /** Flush when this many entries are buffered (default: 20) */
+  maxBatchSize?: number;
+  /** Flush interval in milliseconds (default: 15000) */
+  flushIntervalMs?: number;
+  /** Send attempts per batch (default: 3) */
+  maxRetries?: number;
+  /** Write entries as items in a SharePoint list */
+  list?: {
+    listTitle: string;
+    /** Internal field names keyed by entry property (title, level, category, details, ...) */
+    fields?: Record<string, string>;
+  };
+  /** Post entries to an HTTP endpoint through the gateway */
+  endpoint?: {
+    url: string;
+    headers?: Record<string, string>;
+    functionKey?: string;
+    useAzureAD?: boolean;
+    resourceUri?: string;
+  };
+}
+
 export interface LogSink {
   log(entry: LogEntry): void;
   flush?(): Promise<void>;
@@ -345,11 +613,13 @@ export interface RuntimeConfig {
   maxConcurrentRequests: number;
   enableDevTools: boolean;
   environment: EnvironmentName;
+  environmentSource: EnvironmentSource;
   buildMode: BuildMode;
   correlationId: string;
   features: {
     performanceMetrics: boolean;
     requestDeduplication: boolean;
     urlOverrides: boolean;
+    diagnosticsPanel: boolean;
   };
 }
@@ -20,12 +20,16 @@ import {
   DevExtremeCheckBox,
   PnPPeoplePicker,
 } from '../../../components/spForm';
+import { DraftRecoveryBanner } from '../../../components/draftRecovery';
+import { SectionPresence } from '../../../components/presence';
 import ApprovalFileUpload from '../../ApprovalFileUpload/ApprovalFileUpload';
 import { useRequestFormStore } from '../../../stores/requestFormStore';
 import { saveAsDraftApprovalsSchema, submitApprovalsSchema } from '../../../schemas/approvalsSchema';
 import { SPContext } from '../../../utilities/context';
 import type { Request, NewRequest } from '../../../types/Request';
 import type { IFileChangeState } from '../../ApprovalFileUpload/ApprovalFileUpload';
+import { useRequestPresence } from './RequestPresence';
+import { useRequestDraft } from './useRequestDraft';
 import './ApprovalsCard.scss';
 
 type ApprovalType = 
@@ -49,6 +53,32 @@ const approvalOptions: IApprovalOption[] = [
   { key: 'other', label: 'Other Approval', icon: 'DocumentApproval' },
 ];
 
+// Form fields of each approval, to show the sections a restored draft fills in
+const approvalDraftFields: Record<ApprovalType, string[]> = {
+  portfolioManager: ['portfolioManager', 'portfolioManagerApprovalDate'],
+  researchAnalyst: ['researchAnalyst', 'researchAnalystApprovalDate'],
+  sme: ['subjectMatterExpert', 'smeApprovalDate'],
+  performance: ['performanceApprover', 'performanceApprovalDate'],
+  other: ['otherApproval', 'otherApprovalTitle', 'otherApprovalDate'],
+};
+
+const draftFieldLabels: Record<string, string> = {
+  requiresCommunicationsApproval: 'Requires Communication Approval',
+  communicationsApprover: 'Communications Approver',
+  communicationsApprovalDate: 'Communications Approval Date',
+  portfolioManager: 'Portfolio Manager',
+  portfolioManagerApprovalDate: 'Portfolio Manager Approval Date',
+  researchAnalyst: 'Research Analyst',
+  researchAnalystApprovalDate: 'Research Analyst Approval Date',
+  subjectMatterExpert: 'Subject Matter Expert',
+  smeApprovalDate: 'SME Approval Date',
+  performanceApprover: 'Performance Approver',
+  performanceApprovalDate: 'Performance Approval Date',
+  otherApproval: 'Other Approver',
+  otherApprovalTitle: 'Other Approval Title',
+  otherApprovalDate: 'Other Approval Date',
+};
+
 const ApprovalsSummary: React.FC<{ request: Request | NewRequest }> = ({ request }) => {
   const formatDate = (date: string | Date | undefined): string => {
     if (!date) return 'N/A';
@@ -779,17 +809,18 @@ const ApprovalsCard: React.FC = () => {
     }
   }, [request?.id]);
 
+  const form = useForm<Request | NewRequest>({
+    mode: 'onChange',
+    defaultValues: request || {},
+    resolver: zodResolver(saveAsDraftApprovalsSchema),
+  });
   const {
     control,
     handleSubmit,
     setValue,
     reset,
     formState: { errors, isDirty },
-  } = useForm<Request | NewRequest>({
-    mode: 'onChange',
-    defaultValues: request || {},
-    resolver: zodResolver(saveAsDraftApprovalsSchema),
-  });
+  } = form;
 
   React.useEffect(() => {
     if (request) {
@@ -800,6 +831,26 @@ const ApprovalsCard: React.FC = () => {
   const canEdit = request?.status === 'Draft' || !request?.id;
   const showSummary = !canEdit && !isEditMode;
 
+  const approvalsDraft = useRequestDraft('approvals', form, {
+    itemId: request?.id,
+    baseValues: request || {},
+    enabled: !!request && !showSummary,
+  });
+
+  const presence = useRequestPresence('approvals', !showSummary && (isEditMode || isDirty));
+
+  const handleRestoreDraft = (): void => {
+    const draftFields = Object.keys(approvalsDraft.draft?.values || {});
+    approvalsDraft.restore();
+    setActiveApprovals(prev => [
+      ...prev,
+      ...approvalOptions
+        .map(option => option.key)
+        .filter(type => !prev.includes(type))
+        .filter(type => approvalDraftFields[type].some(field => draftFields.includes(field))),
+    ]);
+  };
+
   const handleAddApproval = (type: ApprovalType): void => {
     setActiveApprovals(prev => [...prev, type]);
   };
@@ -815,6 +866,7 @@ const ApprovalsCard: React.FC = () => {
         requestId: request?.id,
       });
 
+      await approvalsDraft.clear();
       setIsEditMode(false);
     } catch (error) {
       SPContext.logger.error('Failed to save approvals', error);
@@ -827,6 +879,7 @@ const ApprovalsCard: React.FC = () => {
     if (request) {
       reset(request);
     }
+    approvalsDraft.clear();
     setIsEditMode(false);
   };
 
@@ -843,6 +896,7 @@ const ApprovalsCard: React.FC = () => {
       <Header>
         <Stack horizontal horizontalAlign="space-between" verticalAlign="center">
           <span>Approvals</span>
+          <SectionPresence context={SPContext.spContext} entries={presence} section="approvals" />
           {showSummary && (
             <DefaultButton
               text="Edit"
@@ -857,6 +911,12 @@ const ApprovalsCard: React.FC = () => {
           <ApprovalsSummary request={request} />
         ) : (
           <form onSubmit={handleSubmit(handleSave)}>
+            <DraftRecoveryBanner
+              draft={approvalsDraft.draft}
+              fieldLabels={draftFieldLabels}
+              onRestore={handleRestoreDraft}
+              onDiscard={approvalsDraft.discard}
+            />
             <ApprovalsEdit
               control={control}
               errors={errors}
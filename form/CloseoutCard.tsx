@@ -15,9 +15,13 @@ import {
   FormError,
   DevExtremeTextBox,
 } from '../../../components/spForm';
+import { DraftRecoveryBanner } from '../../../components/draftRecovery';
+import { SectionPresence } from '../../../components/presence';
 import { useRequestFormStore } from '../../../stores/requestFormStore';
 import { SPContext } from '../../../utilities/context';
 import type { Request } from '../../../types/Request';
+import { useRequestPresence } from './RequestPresence';
+import { useRequestDraft } from './useRequestDraft';
 import './CloseoutCard.scss';
 
 const CloseoutSummary: React.FC<{ request: Request }> = ({ request }) => {
@@ -290,19 +294,20 @@ const CloseoutCard: React.FC = () => {
   const [error, setError] = React.useState<string | null>(null);
   const [showConfirmDialog, setShowConfirmDialog] = React.useState(false);
 
+  const form = useForm<any>({
+    mode: 'onChange',
+    defaultValues: {
+      trackingId: request.trackingId || '',
+    },
+  });
   const {
     control,
     handleSubmit,
     setValue,
     watch,
     reset,
-    formState: { errors },
-  } = useForm<any>({
-    mode: 'onChange',
-    defaultValues: {
-      trackingId: request.trackingId || '',
-    },
-  });
+    formState: { errors, isDirty },
+  } = form;
 
   React.useEffect(() => {
     reset({
@@ -313,6 +318,15 @@ const CloseoutCard: React.FC = () => {
   const showCard = request.status === 'Closeout' || request.status === 'Completed';
   const isReadOnly = request.status === 'Completed';
 
+  const closeoutDraft = useRequestDraft('closeout', form, {
+    itemId: request.id,
+    baseValues: request,
+    enabled: showCard && !isReadOnly,
+    fieldMap: { trackingId: 'TrackingId' },
+  });
+
+  const presence = useRequestPresence('closeout', showCard && !isReadOnly && isDirty);
+
   const trackingId = watch('trackingId');
   const trackingIdRequired = request.isForesideReviewRequired || request.isRetailUse;
   const canClose = trackingIdRequired ? trackingId?.trim().length > 0 : true;
@@ -337,6 +351,8 @@ const CloseoutCard: React.FC = () => {
         requestId: request.id,
         trackingId: trackingId || 'N/A',
       });
+
+      await closeoutDraft.clear();
     } catch (err) {
       const errorMessage = err instanceof Error ? err.message : 'Failed to close request';
       setError(errorMessage);
@@ -362,6 +378,7 @@ const CloseoutCard: React.FC = () => {
       <Header>
         <Stack horizontal horizontalAlign="space-between" verticalAlign="center">
           <span>Closeout</span>
+          <SectionPresence context={SPContext.spContext} entries={presence} section="closeout" />
           {isReadOnly && (
             <span className="status-badge completed">
               <i className="ms-Icon ms-Icon--CheckMark" />
@@ -385,11 +402,20 @@ const CloseoutCard: React.FC = () => {
         {isReadOnly ? (
           <CloseoutSummary request={request as Request} />
         ) : (
-          <CloseoutEdit
-            control={control}
-            errors={errors}
-            setValue={setValue}
-          />
+          <>
+            <DraftRecoveryBanner
+              draft={closeoutDraft.draft}
+              serverValues={closeoutDraft.serverValues}
+              fieldLabels={{ trackingId: 'Tracking ID' }}
+              onRestore={closeoutDraft.restore}
+              onDiscard={closeoutDraft.discard}
+            />
+            <CloseoutEdit
+              control={control}
+              errors={errors}
+              setValue={setValue}
+            />
+          </>
         )}
       </Content>
 
@@ -17,25 +17,31 @@ import {
   DevExtremeSwitch,
 } from '../../../components/spForm';
 import AppendingNotes from '../../../components/AppendingNotes/AppendingNotes';
+import { SectionLockBanner } from '../../../components/conflictDetector';
+import { DraftRecoveryBanner } from '../../../components/draftRecovery';
+import { SectionPresence } from '../../../components/presence';
 import { useRequestFormStore } from '../../../stores/requestFormStore';
 import { SPContext } from '../../../utilities/context';
 import type { Request } from '../../../types/Request';
+import { useRequestPresence } from './RequestPresence';
+import { useRequestDraft } from './useRequestDraft';
+import { useRequestSectionLock } from './useRequestSectionLock';
 import './ComplianceReviewCard.scss';
 
+const draftFieldLabels: Record<string, string> = {
+  complianceReviewStatus: 'Compliance Review Status',
+  complianceReviewOutcome: 'Review Outcome',
+  isForesideReviewRequired: 'Foreside Review Required',
+  isRetailUse: 'Retail Use',
+};
+
 const ComplianceReviewCard: React.FC = () => {
   const { request, updateField, submitComplianceReview } = useRequestFormStore();
   const [isSaving, setIsSaving] = React.useState(false);
   const [error, setError] = React.useState<string | null>(null);
   const [reviewNotes, setReviewNotes] = React.useState<string>('');
 
-  const {
-    control,
-    handleSubmit,
-    setValue,
-    watch,
-    reset,
-    formState: { errors },
-  } = useForm<any>({
+  const form = useForm<any>({
     mode: 'onChange',
     defaultValues: {
       complianceReviewStatus: request.complianceReviewStatus || 'Not Started',
@@ -44,6 +50,14 @@ const ComplianceReviewCard: React.FC = () => {
       isRetailUse: request.isRetailUse || false,
     },
   });
+  const {
+    control,
+    handleSubmit,
+    setValue,
+    watch,
+    reset,
+    formState: { errors, isDirty },
+  } = form;
 
   React.useEffect(() => {
     reset({
@@ -73,6 +87,25 @@ const ComplianceReviewCard: React.FC = () => {
     (request.reviewAudience === 'Compliance' || request.reviewAudience === 'Both') &&
     request.status === 'In Review';
 
+  // Only one reviewer edits at a time; everyone else sees the card read-only. The lock is
+  // taken on the first focus in the form, so just opening the request doesn't take it
+  const sectionLock = useRequestSectionLock('compliance-review', request.id, showCard);
+  const isLockedByOther = sectionLock.isLockedByOther;
+
+  const reviewDraft = useRequestDraft('compliance-review', form, {
+    itemId: request.id,
+    baseValues: request,
+    enabled: showCard && !isLockedByOther,
+    fieldMap: {
+      complianceReviewStatus: 'ComplianceReviewStatus',
+      complianceReviewOutcome: 'ComplianceReviewOutcome',
+      isForesideReviewRequired: 'IsForesideReviewRequired',
+      isRetailUse: 'IsRetailUse',
+    },
+  });
+
+  const presence = useRequestPresence('compliance-review', showCard && !isLockedByOther && isDirty);
+
   const handleFieldChange = React.useCallback((fieldName: string, value: any) => {
     setValue(fieldName, value);
     updateField(fieldName as keyof Request, value);
@@ -96,6 +129,11 @@ const ComplianceReviewCard: React.FC = () => {
     setError(null);
 
     try {
+      if (!(await sectionLock.ensureLock())) {
+        setError('Someone else is editing this section; your changes were not saved');
+        return;
+      }
+
       await submitComplianceReview({
         status: watchedStatus,
         outcome: watchedOutcome,
@@ -110,6 +148,8 @@ const ComplianceReviewCard: React.FC = () => {
       });
 
       setReviewNotes('');
+      await reviewDraft.clear();
+      await sectionLock.release();
     } catch (err) {
       const errorMessage = err instanceof Error ? err.message : 'Failed to submit compliance review';
       setError(errorMessage);
@@ -131,6 +171,11 @@ const ComplianceReviewCard: React.FC = () => {
       <Header>
         <Stack horizontal horizontalAlign="space-between" verticalAlign="center">
           <span>Compliance Review</span>
+          <SectionPresence
+            context={SPContext.spContext}
+            entries={presence}
+            section="compliance-review"
+          />
           {watchedStatus && (
             <span className={`status-badge ${watchedStatus.toLowerCase().replace(/\s+/g, '-')}`}>
               {watchedStatus}
@@ -150,7 +195,30 @@ const ComplianceReviewCard: React.FC = () => {
           </MessageBar>
         )}
 
-        <div className="compliance-review-edit">
+        <SectionLockBanner
+          lease={sectionLock.lease}
+          isLockedByOther={isLockedByOther}
+          isUnavailable={sectionLock.isUnavailable}
+          sectionLabel="Compliance review"
+          currentUserEmail={sectionLock.currentUserEmail}
+          canBreakLock={sectionLock.canBreakLock}
+          onBreakLock={sectionLock.breakLock}
+        />
+
+        {!isLockedByOther && (
+          <DraftRecoveryBanner
+            draft={reviewDraft.draft}
+            serverValues={reviewDraft.serverValues}
+            fieldLabels={draftFieldLabels}
+            onRestore={() => {
+              sectionLock.startEditing();
+              reviewDraft.restore();
+            }}
+            onDiscard={reviewDraft.discard}
+          />
+        )}
+
+        <div className="compliance-review-edit" onFocus={sectionLock.startEditing}>
           <div className="field-category">
             <div className="category-header">
               <i className="ms-Icon ms-Icon--ComplianceAudit category-icon" />
@@ -165,6 +233,7 @@ const ComplianceReviewCard: React.FC = () => {
                     control={control}
                     items={complianceStatusOptions}
                     placeholder="Select review status"
+                    disabled={isLockedByOther}
                     onValueChanged={(value) => handleFieldChange('complianceReviewStatus', value)}
                   />
                 </FormValue>
@@ -183,6 +252,7 @@ const ComplianceReviewCard: React.FC = () => {
                       control={control}
                       items={complianceOutcomeOptions}
                       placeholder="Select review outcome"
+                      disabled={isLockedByOther}
                       onValueChanged={(value) => handleFieldChange('complianceReviewOutcome', value)}
                     />
                   </FormValue>
@@ -209,6 +279,7 @@ const ComplianceReviewCard: React.FC = () => {
                     control={control}
                     onText="Yes"
                     offText="No"
+                    disabled={isLockedByOther}
                     onValueChanged={(value) => handleFieldChange('isForesideReviewRequired', value)}
                   />
                 </FormValue>
@@ -225,6 +296,7 @@ const ComplianceReviewCard: React.FC = () => {
                     control={control}
                     onText="Yes"
                     offText="No"
+                    disabled={isLockedByOther}
                     onValueChanged={(value) => handleFieldChange('isRetailUse', value)}
                   />
                 </FormValue>
@@ -256,6 +328,7 @@ const ComplianceReviewCard: React.FC = () => {
                     fieldName="ComplianceReviewNotes"
                     value={reviewNotes}
                     onValueChanged={setReviewNotes}
+                    disabled={isLockedByOther}
                     placeholder="Add your compliance review notes here (minimum 10 characters)..."
                     height={120}
                     maxLength={2000}
@@ -273,21 +346,23 @@ const ComplianceReviewCard: React.FC = () => {
         </div>
       </Content>
 
-      <Footer>
-        <Stack horizontal tokens={{ childrenGap: 8 }} horizontalAlign="end">
-          <PrimaryButton
-            text={isSaving ? 'Submitting...' : 'Submit Review'}
-            iconProps={{ iconName: 'CheckMark' }}
-            onClick={handleSubmitReview}
-            disabled={isSaving || !canSubmitReview}
-          />
-        </Stack>
-        {!canSubmitReview && watchedStatus === 'Completed' && (
-          <MessageBar messageBarType={MessageBarType.info} className="submit-hint">
-            To submit review: Set status to "Completed", select an outcome, and provide review notes (minimum 10 characters)
-          </MessageBar>
-        )}
-      </Footer>
+      {!isLockedByOther && (
+        <Footer>
+          <Stack horizontal tokens={{ childrenGap: 8 }} horizontalAlign="end">
+            <PrimaryButton
+              text={isSaving ? 'Submitting...' : 'Submit Review'}
+              iconProps={{ iconName: 'CheckMark' }}
+              onClick={handleSubmitReview}
+              disabled={isSaving || !canSubmitReview}
+            />
+          </Stack>
+          {!canSubmitReview && watchedStatus === 'Completed' && (
+            <MessageBar messageBarType={MessageBarType.info} className="submit-hint">
+              To submit review: Set status to "Completed", select an outcome, and provide review notes (minimum 10 characters)
+            </MessageBar>
+          )}
+        </Footer>
+      )}
     </Card>
   );
 };
@@ -16,11 +16,22 @@ import {
   DevExtremeSelectBox,
 } from '../../../components/spForm';
 import AppendingNotes from '../../../components/AppendingNotes/AppendingNotes';
+import { SectionLockBanner } from '../../../components/conflictDetector';
+import { DraftRecoveryBanner } from '../../../components/draftRecovery';
+import { SectionPresence } from '../../../components/presence';
 import { useRequestFormStore } from '../../../stores/requestFormStore';
 import { SPContext } from '../../../utilities/context';
 import type { Request } from '../../../types/Request';
+import { useRequestPresence } from './RequestPresence';
+import { useRequestDraft } from './useRequestDraft';
+import { useRequestSectionLock } from './useRequestSectionLock';
 import './LegalIntakeCard.scss';
 
+const draftFieldLabels: Record<string, string> = {
+  reviewAudience: 'Review Audience',
+  attorney: 'Assigned Attorney',
+};
+
 interface IAttorneyOption {
   id: number;
   title: string;
@@ -219,20 +230,21 @@ const LegalIntakeCard: React.FC = () => {
   const [isSaving, setIsSaving] = React.useState(false);
   const [error, setError] = React.useState<string | null>(null);
 
-  const {
-    control,
-    handleSubmit,
-    setValue,
-    watch,
-    reset,
-    formState: { errors },
-  } = useForm<any>({
+  const form = useForm<any>({
     mode: 'onChange',
     defaultValues: {
       reviewAudience: request.reviewAudience,
       attorney: request.attorney,
     },
   });
+  const {
+    control,
+    handleSubmit,
+    setValue,
+    watch,
+    reset,
+    formState: { errors, isDirty },
+  } = form;
 
   React.useEffect(() => {
     reset({
@@ -245,6 +257,23 @@ const LegalIntakeCard: React.FC = () => {
   const isAssignAttorneyStatus = request.status === 'Assign Attorney';
   const isReadOnly = request.status !== 'Legal Intake' && request.status !== 'Assign Attorney';
 
+  // Only one person edits the intake at a time; everyone else sees the summary. The lock is
+  // taken on the first focus in the form, so just opening the request doesn't take it
+  const sectionLock = useRequestSectionLock('legal-intake', request.id, showCard && !isReadOnly);
+  const isLockedByOther = sectionLock.isLockedByOther;
+
+  const intakeDraft = useRequestDraft('legal-intake', form, {
+    itemId: request.id,
+    baseValues: request,
+    enabled: showCard && !isReadOnly && !isLockedByOther,
+    fieldMap: { reviewAudience: 'ReviewAudience', attorney: 'AttorneyId' },
+  });
+
+  const presence = useRequestPresence(
+    'legal-intake',
+    showCard && !isReadOnly && !isLockedByOther && isDirty
+  );
+
   const selectedAttorney = watch('attorney');
 
   const handleAssignAttorney = async (): Promise<void> => {
@@ -257,12 +286,20 @@ const LegalIntakeCard: React.FC = () => {
     setError(null);
 
     try {
+      if (!(await sectionLock.ensureLock())) {
+        setError('Someone else is editing this section; your changes were not saved');
+        return;
+      }
+
       await assignAttorney(selectedAttorney);
 
       SPContext.logger.success('Attorney assigned successfully', {
         requestId: request.id,
         attorneyId: selectedAttorney,
       });
+
+      await intakeDraft.clear();
+      await sectionLock.release();
     } catch (err) {
       const errorMessage = err instanceof Error ? err.message : 'Failed to assign attorney';
       setError(errorMessage);
@@ -281,11 +318,19 @@ const LegalIntakeCard: React.FC = () => {
     setError(null);
 
     try {
+      if (!(await sectionLock.ensureLock())) {
+        setError('Someone else is editing this section; your changes were not saved');
+        return;
+      }
+
       await submitToAssignAttorney();
 
       SPContext.logger.success('Request submitted to committee', {
         requestId: request.id,
       });
+
+      await intakeDraft.clear();
+      await sectionLock.release();
     } catch (err) {
       const errorMessage = err instanceof Error ? err.message : 'Failed to submit to committee';
       setError(errorMessage);
@@ -307,6 +352,7 @@ const LegalIntakeCard: React.FC = () => {
       <Header>
         <Stack horizontal horizontalAlign="space-between" verticalAlign="center">
           <span>Legal Intake</span>
+          <SectionPresence context={SPContext.spContext} entries={presence} section="legal-intake" />
           {isAssignAttorneyStatus && (
             <span className="status-badge committee-badge">
               <i className="ms-Icon ms-Icon--Group" />
@@ -327,18 +373,42 @@ const LegalIntakeCard: React.FC = () => {
           </MessageBar>
         )}
 
-        {isReadOnly ? (
+        <SectionLockBanner
+          lease={sectionLock.lease}
+          isLockedByOther={isLockedByOther}
+          isUnavailable={sectionLock.isUnavailable}
+          sectionLabel="Legal intake"
+          currentUserEmail={sectionLock.currentUserEmail}
+          canBreakLock={sectionLock.canBreakLock}
+          onBreakLock={sectionLock.breakLock}
+        />
+
+        {isReadOnly || isLockedByOther ? (
           <LegalIntakeSummary request={request as Request} />
         ) : (
-          <LegalIntakeEdit
-            control={control}
-            errors={errors}
-            setValue={setValue}
-          />
+          <>
+            <DraftRecoveryBanner
+              draft={intakeDraft.draft}
+              serverValues={intakeDraft.serverValues}
+              fieldLabels={draftFieldLabels}
+              onRestore={() => {
+                sectionLock.startEditing();
+                intakeDraft.restore();
+              }}
+              onDiscard={intakeDraft.discard}
+            />
+            <div onFocus={sectionLock.startEditing}>
+              <LegalIntakeEdit
+                control={control}
+                errors={errors}
+                setValue={setValue}
+              />
+            </div>
+          </>
         )}
       </Content>
 
-      {!isReadOnly && (
+      {!isReadOnly && !isLockedByOther && (
         <Footer>
           <Stack horizontal tokens={{ childrenGap: 8 }} horizontalAlign="end">
             {!isAssignAttorneyStatus && (
@@ -2,14 +2,18 @@ import * as React from 'react';
 import { Stack } from '@fluentui/react';
 import { Drawer } from 'devextreme-react/drawer';
 import { ListItemComments } from '@pnp/spfx-controls-react/lib/ListItemComments';
+import { cardController } from '../../components/Card';
 import RequestHeader from './RequestHeader';
 import RequestTypeSelector from './RequestTypeSelector';
 import RequestInfoCard from './RequestForm/RequestInfoCard';
 import ApprovalsCard from './RequestForm/ApprovalsCard';
+import { RequestPresenceProvider } from './RequestForm/RequestPresence';
 import { useRequestFormStore } from '../../stores/requestFormStore';
 import { SPContext } from '../../utilities/context';
 import './RequestContainer.scss';
 
+const normalizeListId = (id: string): string => id.toLowerCase().replace(/[{}]/g, '');
+
 export interface IRequestContainerProps {
   listId: string;
 }
@@ -29,6 +33,20 @@ const RequestContainer: React.FC<IRequestContainerProps> = ({ listId }) => {
     return () => window.removeEventListener('resize', handleResize);
   }, []);
 
+  // A save of this request in another tab marks the cards' persisted content as stale
+  React.useEffect(() => {
+    if (!request.id) {
+      return undefined;
+    }
+
+    return cardController.connectChangeNotifications(
+      SPContext.crossTab,
+      change =>
+        change.itemId === request.id &&
+        (!change.listId || normalizeListId(change.listId) === normalizeListId(listId))
+    );
+  }, [request.id, listId]);
+
   const showTypeSelector = !request.id && !request.requestType;
   const showForm = !!request.requestType;
   const showComments = request.status !== 'Draft' && !!request.id;
@@ -80,37 +98,41 @@ const RequestContainer: React.FC<IRequestContainerProps> = ({ listId }) => {
 
   if (!showComments) {
     return (
-      <div className="request-container">
-        <RequestHeader />
-        <div className="request-body-no-drawer">
-          {renderFormContent()}
+      <RequestPresenceProvider itemId={request.id}>
+        <div className="request-container">
+          <RequestHeader />
+          <div className="request-body-no-drawer">
+            {renderFormContent()}
+          </div>
         </div>
-      </div>
+      </RequestPresenceProvider>
     );
   }
 
   return (
-    <div className="request-container">
-      <RequestHeader />
-
-      <div className="drawer-container">
-        <Drawer
-          opened={isCommentsExpanded}
-          openedStateMode={isMobile ? 'overlap' : 'shrink'}
-          position="right"
-          revealMode={isMobile ? 'slide' : 'expand'}
-          render={renderCommentsPanel}
-          height="100%"
-          minSize={isMobile ? 0 : 40}
-          maxSize={isMobile ? 320 : 400}
-          className="request-drawer"
-        >
-          <div className="request-body-with-drawer">
-            {renderFormContent()}
-          </div>
-        </Drawer>
+    <RequestPresenceProvider itemId={request.id}>
+      <div className="request-container">
+        <RequestHeader />
+
+        <div className="drawer-container">
+          <Drawer
+            opened={isCommentsExpanded}
+            openedStateMode={isMobile ? 'overlap' : 'shrink'}
+            position="right"
+            revealMode={isMobile ? 'slide' : 'expand'}
+            render={renderCommentsPanel}
+            height="100%"
+            minSize={isMobile ? 0 : 40}
+            maxSize={isMobile ? 320 : 400}
+            className="request-drawer"
+          >
+            <div className="request-body-with-drawer">
+              {renderFormContent()}
+            </div>
+          </Drawer>
+        </div>
       </div>
-    </div>
+    </RequestPresenceProvider>
   );
 };
 
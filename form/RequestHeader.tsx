@@ -1,12 +1,16 @@
 import * as React from 'react';
 import { Stack, Text, TooltipHost, DirectionalHint } from '@fluentui/react';
 import { ManageAccessComponent } from '../ManageAccess';
+import { PresenceIndicator } from '../../components/presence';
 import { useRequestFormStore } from '../../stores/requestFormStore';
 import { SPContext } from '../../utilities/context';
+import { fromSPDateOnly, getPageContextTimeZone } from '../../utilities/listItemHelper';
+import { useRequestPresence } from './RequestForm/RequestPresence';
 import './RequestHeader.scss';
 
 const RequestHeader: React.FC = () => {
   const { request } = useRequestFormStore();
+  const presence = useRequestPresence();
 
   const getRequestTypeTitle = (): string => {
     if (!request.requestType) return 'New Request';
@@ -50,6 +54,14 @@ const RequestHeader: React.FC = () => {
   };
 
   const formatRushTooltip = (): JSX.Element => {
+    // Date-only field: the calendar date in the web's time zone, not the browser's
+    const targetReturnDate = request.targetReturnDate
+      ? fromSPDateOnly(
+          request.targetReturnDate,
+          getPageContextTimeZone(SPContext.spContext.pageContext.legacyPageContext)
+        )
+      : undefined;
+
     return (
       <div className="rush-tooltip-content">
         <div className="rush-tooltip-header">
@@ -58,11 +70,11 @@ const RequestHeader: React.FC = () => {
         </div>
         <div className="rush-tooltip-body">
           <p>This request requires expedited review.</p>
-          {request.targetReturnDate && (
+          {targetReturnDate && (
             <div className="rush-detail">
               <span className="rush-label">Target Date:</span>
               <span className="rush-value">
-                {new Date(request.targetReturnDate).toLocaleDateString('en-US', {
+                {targetReturnDate.toLocaleDateString('en-US', {
                   month: 'short',
                   day: 'numeric',
                   year: 'numeric',
@@ -119,6 +131,7 @@ const RequestHeader: React.FC = () => {
       </div>
 
       <div className="header-actions">
+        <PresenceIndicator context={SPContext.spContext} entries={presence} />
         {showManageAccess && (
           <ManageAccessComponent
             spContext={SPContext.spContext}
@@ -21,13 +21,33 @@ import {
   DevExtremeTagBox,
   PnPPeoplePicker,
 } from '../../../components/spForm';
+import { DraftRecoveryBanner } from '../../../components/draftRecovery';
+import { SectionPresence } from '../../../components/presence';
 import { useRequestFormStore } from '../../../stores/requestFormStore';
 import { useSubmissionItemsStore } from '../../../stores/submissionItemsStore';
 import { requestInfoSchema } from '../../../schemas/requestInfoSchema';
 import { SPContext } from '../../../utilities/context';
+import { fromSPDateOnly, getPageContextTimeZone } from '../../../utilities/listItemHelper';
 import type { Request, NewRequest } from '../../../types/Request';
+import { useRequestPresence } from './RequestPresence';
+import { useRequestDraft } from './useRequestDraft';
 import './RequestInfoCard.scss';
 
+const draftFieldLabels: Record<string, string> = {
+  requestTitle: 'Request Title',
+  purpose: 'Purpose',
+  submissionType: 'Submission Type',
+  submissionItemId: 'Submission Item',
+  distributionMethod: 'Distribution Method',
+  targetReturnDate: 'Target Return Date',
+  isRushRequest: 'Rush Request',
+  rushRational: 'Rush Rationale',
+  dateOfFirstUse: 'Date of First Use',
+  reviewAudience: 'Review Audience',
+  additionalParty: 'Additional Party',
+  priorSubmissionNotes: 'Prior Submission Notes',
+};
+
 const RequestInfoSummary: React.FC<{ request: Request }> = ({ request }) => {
   const { submissionItems } = useSubmissionItemsStore();
 
@@ -36,9 +56,11 @@ const RequestInfoSummary: React.FC<{ request: Request }> = ({ request }) => {
     return item?.title || request.submissionItem || 'N/A';
   };
 
-  const formatDate = (date: string | Date | undefined): string => {
-    if (!date) return 'N/A';
-    return new Date(date).toLocaleDateString();
+  // Date-only fields: the calendar date in the web's time zone, not the browser's
+  const formatDateOnly = (date: string | Date | undefined): string => {
+    const timeZone = getPageContextTimeZone(SPContext.spContext.pageContext.legacyPageContext);
+    const localDate = date ? fromSPDateOnly(date, timeZone) : undefined;
+    return localDate ? localDate.toLocaleDateString() : 'N/A';
   };
 
   const getDistributionMethodsText = (): string => {
@@ -99,7 +121,7 @@ const RequestInfoSummary: React.FC<{ request: Request }> = ({ request }) => {
         <div className="summary-grid">
           <div className="summary-field">
             <label>Target Return Date</label>
-            <div className="summary-value">{formatDate(request.targetReturnDate)}</div>
+            <div className="summary-value">{formatDateOnly(request.targetReturnDate)}</div>
           </div>
           {request.isRushRequest && (
             <>
@@ -118,7 +140,7 @@ const RequestInfoSummary: React.FC<{ request: Request }> = ({ request }) => {
           {request.dateOfFirstUse && (
             <div className="summary-field">
               <label>Date of First Use</label>
-              <div className="summary-value">{formatDate(request.dateOfFirstUse)}</div>
+              <div className="summary-value">{formatDateOnly(request.dateOfFirstUse)}</div>
             </div>
           )}
         </div>
@@ -518,17 +540,18 @@ const RequestInfoCard: React.FC = () => {
   const { request, isEditMode, setEditMode } = useRequestFormStore();
   const [isSaving, setIsSaving] = React.useState(false);
 
+  const form = useForm<Request | NewRequest>({
+    mode: 'onChange',
+    defaultValues: request,
+    resolver: zodResolver(requestInfoSchema),
+  });
   const {
     control,
     handleSubmit,
     setValue,
     reset,
     formState: { errors, isDirty },
-  } = useForm<Request | NewRequest>({
-    mode: 'onChange',
-    defaultValues: request,
-    resolver: zodResolver(requestInfoSchema),
-  });
+  } = form;
 
   React.useEffect(() => {
     reset(request);
@@ -537,6 +560,15 @@ const RequestInfoCard: React.FC = () => {
   const canEdit = request.status === 'Draft' || !request.id;
   const showSummary = !canEdit && !isEditMode;
 
+  const requestDraft = useRequestDraft('request-info', form, {
+    itemId: request.id,
+    baseValues: request,
+    enabled: !showSummary,
+    fieldMap: { requestTitle: 'RequestTitle', purpose: 'Purpose' },
+  });
+
+  const presence = useRequestPresence('request-info', !showSummary && (isEditMode || isDirty));
+
   const handleSave = async (data: Request | NewRequest): Promise<void> => {
     setIsSaving(true);
     try {
@@ -545,6 +577,7 @@ const RequestInfoCard: React.FC = () => {
         requestTitle: data.requestTitle,
       });
 
+      await requestDraft.clear();
       setEditMode(false);
     } catch (error) {
       SPContext.logger.error('Failed to save request information', error);
@@ -555,6 +588,7 @@ const RequestInfoCard: React.FC = () => {
 
   const handleCancel = (): void => {
     reset(request);
+    requestDraft.clear();
     setEditMode(false);
   };
 
@@ -567,6 +601,11 @@ const RequestInfoCard: React.FC = () => {
       <Header>
         <Stack horizontal horizontalAlign="space-between" verticalAlign="center">
           <span>Request Information</span>
+          <SectionPresence
+            context={SPContext.spContext}
+            entries={presence}
+            section="request-info"
+          />
           {showSummary && (
             <DefaultButton
               text="Edit"
@@ -582,6 +621,13 @@ const RequestInfoCard: React.FC = () => {
           <RequestInfoSummary request={request as Request} />
         ) : (
           <form onSubmit={handleSubmit(handleSave)}>
+            <DraftRecoveryBanner
+              draft={requestDraft.draft}
+              serverValues={requestDraft.serverValues}
+              fieldLabels={draftFieldLabels}
+              onRestore={requestDraft.restore}
+              onDiscard={requestDraft.discard}
+            />
             <RequestInfoEdit
               control={control}
               errors={errors}
@@ -0,0 +1,101 @@
+import * as React from 'react';
+import type { IPrincipal } from '../../../components/activityItem';
+import {
+  PresenceEntry,
+  SharePointPresenceStore,
+  usePresence,
+} from '../../../components/presence';
+import { SPContext } from '../../../utilities/context';
+import type { RequestSection } from './useRequestSectionLock';
+
+export type RequestPresenceSection = RequestSection | 'request-info' | 'approvals' | 'closeout';
+
+interface RequestPresenceContextValue {
+  others: PresenceEntry[];
+  setEditing: (section: RequestPresenceSection, isEditing: boolean) => void;
+}
+
+const RequestPresenceContext = React.createContext<RequestPresenceContextValue>({
+  others: [],
+  setEditing: () => undefined,
+});
+
+// One store per page, so heartbeats of every card go through the same session items. The
+// ItemPresence list and its cleanup job are set up by the scripts in PS/ItemPresence.
+let presenceStore: SharePointPresenceStore | undefined;
+const getPresenceStore = (): SharePointPresenceStore => {
+  if (!presenceStore) {
+    presenceStore = new SharePointPresenceStore(SPContext.sp);
+  }
+  return presenceStore;
+};
+
+/**
+ * Announce the current user on the open request, once for the whole form. Cards report the
+ * section they're editing through `useRequestPresence`.
+ */
+export const RequestPresenceProvider: React.FC<{
+  itemId: number | undefined;
+  children?: React.ReactNode;
+}> = ({ itemId, children }) => {
+  const user = SPContext.spContext.pageContext.user;
+  const [editingSections, setEditingSections] = React.useState<RequestPresenceSection[]>([]);
+
+  const principal = React.useMemo<IPrincipal>(
+    () => ({ id: user.loginName, title: user.displayName, email: user.email }),
+    [user.email]
+  );
+
+  // The section edited most recently is the one announced
+  const section = editingSections[editingSections.length - 1];
+
+  const { others } = usePresence({
+    store: getPresenceStore(),
+    user: principal,
+    listId: SPContext.listId!,
+    itemId: itemId!,
+    state: section ? 'editing' : 'viewing',
+    section,
+    enabled: !!itemId && !!SPContext.listId,
+  });
+
+  const setEditing = React.useCallback(
+    (name: RequestPresenceSection, isEditing: boolean) => {
+      setEditingSections(prev => {
+        if (prev.includes(name) === isEditing) {
+          return prev;
+        }
+        return isEditing ? [...prev, name] : prev.filter(editing => editing !== name);
+      });
+    },
+    []
+  );
+
+  const value = React.useMemo(() => ({ others, setEditing }), [others, setEditing]);
+
+  return (
+    <RequestPresenceContext.Provider value={value}>{children}</RequestPresenceContext.Provider>
+  );
+};
+
+/**
+ * Other users with the request open. Pass a section and whether the current user is editing
+ * it, so the others see "currently being edited" on that card.
+ */
+export const useRequestPresence = (
+  section?: RequestPresenceSection,
+  isEditing: boolean = false
+): PresenceEntry[] => {
+  const { others, setEditing } = React.useContext(RequestPresenceContext);
+
+  React.useEffect(() => {
+    if (!section || !isEditing) {
+      return undefined;
+    }
+
+    setEditing(section, true);
+    return () => setEditing(section, false);
+  }, [section, isEditing, setEditing]);
+
+  return others;
+};
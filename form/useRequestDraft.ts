@@ -0,0 +1,72 @@
+import * as React from 'react';
+import type { FieldValues } from 'react-hook-form';
+import { useConflictDetection } from '../../../components/conflictDetector';
+import {
+  DraftKey,
+  useDraftAutosave,
+  UseDraftAutosaveProps,
+  UseDraftAutosaveReturn,
+} from '../../../components/draftRecovery';
+import { SPContext } from '../../../utilities/context';
+
+/**
+ * Autosave a card's form as a draft of the current request for the current user.
+ * While a draft waits for restore or discard, the fields in `fieldMap` (form field → internal
+ * name) are read from the server once so the banner can diff against them.
+ */
+export const useRequestDraft = <T extends FieldValues>(
+  formId: string,
+  form: UseDraftAutosaveProps<T>['form'],
+  {
+    itemId,
+    baseValues,
+    enabled,
+    fieldMap = {},
+  }: {
+    itemId: number | undefined;
+    baseValues: Partial<T>;
+    enabled: boolean;
+    fieldMap?: Record<string, string>;
+  }
+): UseDraftAutosaveReturn<T> & { serverValues: Record<string, unknown> | undefined } => {
+  const userEmail = SPContext.spContext.pageContext.user.email;
+
+  const draftKey = React.useMemo<DraftKey | undefined>(
+    () =>
+      SPContext.listId && userEmail
+        ? { listId: SPContext.listId, itemId, userId: userEmail, formId }
+        : undefined,
+    [itemId, userEmail, formId]
+  );
+
+  const autosave = useDraftAutosave<T>({ form, draftKey, baseValues, enabled });
+
+  const mergeFields = Object.keys(fieldMap).map(field => fieldMap[field]);
+  const { conflictInfo } = useConflictDetection({
+    sp: SPContext.sp,
+    listId: SPContext.listId!,
+    itemId: itemId!,
+    options: {
+      mergeFields,
+      showNotification: false,
+      logConflicts: false,
+      // Saves of the request in other tabs refresh the server values right away
+      changeNotifications: SPContext.crossTab,
+    },
+    enabled: !!autosave.draft && !!itemId && mergeFields.length > 0,
+  });
+
+  const serverValues = React.useMemo(() => {
+    const fieldValues = conflictInfo?.fieldValues;
+    if (!fieldValues) {
+      return undefined;
+    }
+    return Object.keys(fieldMap).reduce<Record<string, unknown>>((values, field) => {
+      values[field] = fieldValues[fieldMap[field]];
+      return values;
+    }, {});
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [conflictInfo, JSON.stringify(fieldMap)]);
+
+  return { ...autosave, serverValues };
+};
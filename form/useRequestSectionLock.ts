@@ -0,0 +1,73 @@
+import * as React from 'react';
+import {
+  ListLockStore,
+  LockOwner,
+  SectionLockOptions,
+  useSectionLock,
+  UseSectionLockReturn,
+} from '../../../components/conflictDetector';
+import { SPContext } from '../../../utilities/context';
+
+export type RequestSection = 'legal-intake' | 'compliance-review';
+
+const LOCK_OPTIONS: SectionLockOptions = {
+  // Site admins may take over a section someone left open
+  canBreakLocks: async () => {
+    const user = await SPContext.sp.web.currentUser();
+    return user.IsSiteAdmin;
+  },
+};
+
+/**
+ * Check out a card's section of the current request once the user starts editing it; until
+ * then the lock is only watched, so opening a request to read it never locks anyone out.
+ * Locks live in the hidden SectionLocks list so they don't touch the request item.
+ */
+export const useRequestSectionLock = (
+  section: RequestSection,
+  itemId: number | undefined,
+  enabled: boolean
+): UseSectionLockReturn & {
+  currentUserEmail: string;
+  startEditing: () => void;
+  ensureLock: () => Promise<boolean>;
+} => {
+  const user = SPContext.spContext.pageContext.user;
+
+  const store = React.useMemo(
+    () => (itemId ? new ListLockStore(SPContext.sp, SPContext.listId!, itemId) : undefined),
+    [itemId]
+  );
+  const owner = React.useMemo<LockOwner>(
+    () => ({ id: user.loginName, title: user.displayName, email: user.email }),
+    [user.email]
+  );
+
+  const lock = useSectionLock({
+    store: store!,
+    owner,
+    section,
+    options: LOCK_OPTIONS,
+    enabled: enabled && !!store,
+  });
+
+  const { isOwner, isLockedByOther, isUnavailable, acquire } = lock;
+  // Called on every focus inside the section; only the first one takes the lock
+  const startEditing = React.useCallback(() => {
+    if (enabled && !isOwner && !isLockedByOther) {
+      acquire().catch(() => undefined);
+    }
+  }, [enabled, isOwner, isLockedByOther, acquire]);
+
+  // Called right before saving: the lease may have expired or been broken since the last
+  // renewal, so take it again rather than trusting isOwner. False when someone else holds it.
+  const ensureLock = React.useCallback(async (): Promise<boolean> => {
+    if (!enabled || isUnavailable) {
+      // Nothing to hold; the banner already warns when locking is unavailable
+      return true;
+    }
+    return acquire();
+  }, [enabled, isUnavailable, acquire]);
+
+  return { ...lock, currentUserEmail: user.email, startEditing, ensureLock };
+};
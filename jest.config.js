@@ -0,0 +1,15 @@
+/**
+ * Unit tests (`*.test.ts` next to the code they cover), run with `npm test`.
+ * ts-jest compiles with tsconfig.test.json, since tsconfig.json excludes tests and targets the
+ * SPFx build.
+ */
+module.exports = {
+  testEnvironment: 'node',
+  testMatch: ['<rootDir>/**/*.test.ts'],
+  testPathIgnorePatterns: ['/node_modules/', '/lib/', '/temp/', '/dist/'],
+  transform: {
+    '^.+\\.[jt]sx?$': ['ts-jest', { tsconfig: '<rootDir>/tsconfig.test.json' }],
+  },
+  // PnPjs ships ES modules only
+  transformIgnorePatterns: ['/node_modules/(?!@pnp/)'],
+};
@@ -3,6 +3,24 @@ import '@pnp/sp/batching';
 import '@pnp/sp/items';
 import '@pnp/sp/lists';
 import '@pnp/sp/webs';
+import { PermissionHelper } from '../permissionHelper/PermissionHelper';
+import { findFailedDependency, planWaves, resolveReferences } from './BatchDependencies';
+import {
+  DEFAULT_RETRY_CONFIG,
+  delay,
+  getErrorStatus,
+  getRetryDelay,
+  IBatchRetryConfig,
+  isBatchRejected,
+  isThrottled,
+} from './BatchRetry';
+import { BatchProgressTracker } from './BatchProgress';
+import { BatchTransaction } from './BatchTransaction';
+import { BatchValidator } from './BatchValidator';
+
+export { ref } from './BatchDependencies';
+export type { IBatchReference } from './BatchDependencies';
+export type { IBatchRetryConfig } from './BatchRetry';
 
 // Interfaces
 export interface IListItemFormUpdateValue {
@@ -24,6 +42,7 @@ export interface IBatchOperation {
   path?: string;
   eTag?: string;
   operationId?: string;
+  dependsOn?: string[];
 }
 
 export interface IOperationResult {
@@ -34,6 +53,9 @@ export interface IOperationResult {
   error?: string;
   itemId?: number;
   operationId?: string;
+  statusCode?: number;
+  rolledBack?: boolean;
+  cancelled?: boolean;
 }
 
 export interface IBatchError {
@@ -51,11 +73,54 @@ export interface IBatchResult {
   failedOperations: number;
   results: IOperationResult[];
   errors: IBatchError[];
+  rollback?: IRollbackResult;
+  cancelled?: boolean;
+  cancelledOperations?: number;
+  dryRun?: boolean;
+}
+
+export type IRollbackFailure = IBatchError;
+
+export interface IRollbackResult {
+  success: boolean;
+  compensatedOperations: number;
+  failures: IRollbackFailure[];
+  recreatedItems: { listName: string; originalItemId: number; newItemId?: number }[];
+}
+
+export interface IBatchProgress {
+  completedBatches: number;
+  totalBatches: number;
+  completedOperations: number;
+  totalOperations: number;
+  successfulOperations: number;
+  failedOperations: number;
+  cancelledOperations: number;
+  percentComplete: number;
+  elapsedMs: number;
+  estimatedRemainingMs?: number;
+}
+
+export interface IBatchExecuteOptions {
+  signal?: AbortSignal;
+  onProgress?: (progress: IBatchProgress) => void;
 }
 
 export interface IBatchBuilderConfig {
   batchSize?: number;
   enableConcurrency?: boolean;
+  transactional?: boolean;
+  retry?: IBatchRetryConfig;
+  // Resolve {{operationId.Field}} placeholders in strings, not only ref() values
+  stringReferences?: boolean;
+}
+
+// Internal state shared by the batches of one execute() call
+interface IBatchRun {
+  signal?: AbortSignal;
+  progress: BatchProgressTracker;
+  // Results in the order their batches came back, for undoing newest first
+  completed: IOperationResult[];
 }
 
 // Internal interface for tracking batch operations
@@ -64,18 +129,25 @@ interface IBatchedOperationTracker {
   resultContainer: { result?: any; error?: any };
 }
 
+// Operation IDs of one BatchBuilder, shared by its list builders
+interface IOperationIds {
+  next(listName: string): string;
+  has(operationId: string): boolean;
+}
+
 // List Operation Builder
 class ListOperationBuilder {
   private listName: string;
   private operations: IBatchOperation[] = [];
-  private operationCounter = 0;
+  private operationIds: IOperationIds;
 
-  constructor(listName: string) {
+  constructor(listName: string, operationIds: IOperationIds) {
     this.listName = listName;
+    this.operationIds = operationIds;
   }
 
   private generateOperationId(): string {
-    return `${this.listName}_${this.operationCounter++}_${Date.now()}`;
+    return this.operationIds.next(this.listName);
   }
 
   /**
@@ -158,9 +230,41 @@ class ListOperationBuilder {
     return this;
   }
 
+  /**
+   * Name the last operation so later operations can reference its result
+   * @param operationId Unique ID within the builder
+   */
+  as(operationId: string): this {
+    const operation = this.lastOperation('as');
+    if (operation.operationId !== operationId && this.operationIds.has(operationId)) {
+      throw new Error(`Duplicate operation ID "${operationId}"`);
+    }
+    operation.operationId = operationId;
+    return this;
+  }
+
+  /**
+   * Run the last operation only after other operations succeeded
+   * (implied for operations referenced with `ref()`, or `{{operationId}}` with stringReferences)
+   * @param operationIds IDs given with `as()`
+   */
+  dependsOn(...operationIds: string[]): this {
+    const operation = this.lastOperation('dependsOn');
+    operation.dependsOn = [...(operation.dependsOn || []), ...operationIds];
+    return this;
+  }
+
   getOperations(): IBatchOperation[] {
     return this.operations;
   }
+
+  private lastOperation(method: string): IBatchOperation {
+    const operation = this.operations[this.operations.length - 1];
+    if (!operation) {
+      throw new Error(`${method}() must follow an operation`);
+    }
+    return operation;
+  }
 }
 
 // Main Batch Builder
@@ -169,6 +273,21 @@ export class BatchBuilder {
   private operations: IBatchOperation[] = [];
   private config: IBatchBuilderConfig;
   private currentListBuilder?: ListOperationBuilder;
+  private operationCounter = 0;
+  private readonly operationIds: IOperationIds = {
+    next: listName => {
+      let operationId: string;
+      do {
+        operationId = `${listName}_${this.operationCounter++}`;
+      } while (this.operationIds.has(operationId));
+      return operationId;
+    },
+    has: operationId =>
+      this.operations.some(operation => operation.operationId === operationId) ||
+      !!this.currentListBuilder
+        ?.getOperations()
+        .some(operation => operation.operationId === operationId),
+  };
 
   constructor(sp: SPFI, config: IBatchBuilderConfig = {}) {
     this.sp = sp;
@@ -190,14 +309,15 @@ export class BatchBuilder {
     }
 
     // Create new list builder
-    this.currentListBuilder = new ListOperationBuilder(listName);
+    this.currentListBuilder = new ListOperationBuilder(listName, this.operationIds);
     return this.currentListBuilder;
   }
 
   /**
    * Execute all batched operations
+   * @param options Abort signal and progress callback
    */
-  async execute(): Promise<IBatchResult> {
+  async execute(options: IBatchExecuteOptions = {}): Promise<IBatchResult> {
     // Add current list operations
     if (this.currentListBuilder) {
       this.operations.push(...this.currentListBuilder.getOperations());
@@ -223,23 +343,166 @@ export class BatchBuilder {
       errors: [],
     };
 
+    // Transactional mode snapshots affected items first; nothing is written if that fails
+    const transaction = this.config.transactional ? new BatchTransaction(this.sp) : undefined;
+    if (transaction) {
+      const snapshotErrors = await transaction.snapshot(this.operations);
+      if (snapshotErrors.length > 0) {
+        this.abortTransaction(result, snapshotErrors);
+        this.operations = [];
+        this.currentListBuilder = undefined;
+        return result;
+      }
+    }
+
+    // Operations run in dependency waves; references resolve against earlier waves' results
+    const stringReferences = !!this.config.stringReferences;
+    const { waves, errors: planErrors } = planWaves(this.operations, stringReferences);
+    const batchSize = this.config.batchSize || 100;
+    const run: IBatchRun = {
+      signal: options.signal,
+      progress: new BatchProgressTracker(
+        this.operations.length,
+        waves.reduce((total, wave) => total + Math.ceil(wave.length / batchSize), 0),
+        options.onProgress
+      ),
+      completed: [],
+    };
+    planErrors.forEach(error => this.recordFailure(result, error));
+    run.progress.record(result.results);
+    run.progress.report();
+
+    const completed = new Map<string, IOperationResult>();
+    for (let index = 0; index < waves.length; index++) {
+      const wave = waves[index];
+
+      // Stop before the next wave; nothing in it or later waves is sent
+      if (options.signal?.aborted) {
+        const notRun = waves.slice(index).reduce<IBatchOperation[]>((all, w) => all.concat(w), []);
+        const cancelled = this.cancelOperations(notRun);
+        result.results.push(...cancelled);
+        run.progress.record(cancelled);
+        break;
+      }
+
+      const ready: IBatchOperation[] = [];
+      const skipped = result.results.length;
+
+      for (const operation of wave) {
+        const failedDependency = findFailedDependency(operation, completed, stringReferences);
+        if (failedDependency) {
+          completed.set(
+            operation.operationId!,
+            this.recordFailure(
+              result,
+              this.toError(operation, `Skipped: dependency "${failedDependency}" failed`)
+            )
+          );
+          continue;
+        }
+
+        try {
+          ready.push(
+            resolveReferences(operation, this.operations, completed, stringReferences)
+          );
+        } catch (error) {
+          const message = error instanceof Error ? error.message : 'Failed to resolve references';
+          completed.set(
+            operation.operationId!,
+            this.recordFailure(result, this.toError(operation, message))
+          );
+        }
+      }
+
+      run.progress.record(result.results.slice(skipped));
+
+      const waveResult = await this.runBatches(ready, run);
+      result.results.push(...waveResult.results);
+      result.errors.push(...waveResult.errors);
+      waveResult.results.forEach(r => completed.set(r.operationId!, r));
+    }
+
+    // Calculate final statistics
+    result.successfulOperations = result.results.filter(r => r.success).length;
+    result.failedOperations = result.results.filter(r => !r.success && !r.cancelled).length;
+    result.cancelledOperations = result.results.filter(r => r.cancelled).length;
+    result.cancelled = result.cancelledOperations > 0;
+    result.success = result.failedOperations === 0 && !result.cancelled;
+
+    // Undo the successful operations when any operation failed or the run was cancelled
+    if (transaction && !result.success) {
+      result.success = false;
+      result.rollback = await transaction.rollback(this.operations, run.completed);
+    }
+
+    // Clear operations for reuse
+    this.operations = [];
+    this.currentListBuilder = undefined;
+
+    return result;
+  }
+
+  /**
+   * Predict the outcome of the queued operations without writing anything.
+   * Operations stay queued, so execute() can follow.
+   * @param permissionHelper Optional helper whose permission cache should be reused
+   */
+  async dryRun(permissionHelper?: PermissionHelper): Promise<IBatchResult> {
+    const operations = [...this.operations, ...(this.currentListBuilder?.getOperations() || [])];
+    const validator = new BatchValidator(this.sp, permissionHelper);
+    const results = await validator.validate(operations, !!this.config.stringReferences);
+
+    const errors: IBatchError[] = results
+      .filter(r => !r.success)
+      .map(r => ({
+        listName: r.listName,
+        operationType: r.operationType,
+        error: r.error || 'Would fail',
+        itemId: r.itemId,
+        operationId: r.operationId,
+      }));
+
+    return {
+      success: errors.length === 0,
+      totalOperations: operations.length,
+      successfulOperations: results.length - errors.length,
+      failedOperations: errors.length,
+      results,
+      errors,
+      dryRun: true,
+    };
+  }
+
+  private async runBatches(
+    operations: IBatchOperation[],
+    run: IBatchRun
+  ): Promise<{ results: IOperationResult[]; errors: IBatchError[] }> {
+    const results: IOperationResult[] = [];
+    const errors: IBatchError[] = [];
+
     // Split operations into batches respecting SharePoint limits
-    const batches = this.splitIntoBatches(this.operations);
+    const batches = this.splitIntoBatches(operations);
 
     // Execute batches sequentially or with limited concurrency
     if (this.config.enableConcurrency) {
-      const batchPromises = batches.map(batch => this.executeBatch(batch));
+      const batchPromises = batches.map(batch =>
+        this.executeWithRecovery(batch, run).then(outcome => {
+          run.completed.push(...outcome.results);
+          run.progress.record(outcome.results, true);
+          return outcome;
+        })
+      );
       const batchResults = await Promise.allSettled(batchPromises);
 
       batchResults.forEach((batchResult, index) => {
         if (batchResult.status === 'fulfilled') {
-          result.results.push(...batchResult.value.results);
-          result.errors.push(...batchResult.value.errors);
+          results.push(...batchResult.value.results);
+          errors.push(...batchResult.value.errors);
         } else {
           // Handle batch-level failures
           const batch = batches[index];
           batch.forEach(op => {
-            result.errors.push({
+            errors.push({
               listName: op.listName,
               operationType: op.operationType,
               error: batchResult.reason?.message || 'Batch execution failed',
@@ -253,13 +516,15 @@ export class BatchBuilder {
       // Sequential execution for better reliability
       for (const batch of batches) {
         try {
-          const batchResult = await this.executeBatch(batch);
-          result.results.push(...batchResult.results);
-          result.errors.push(...batchResult.errors);
+          const batchResult = await this.executeWithRecovery(batch, run);
+          run.completed.push(...batchResult.results);
+          results.push(...batchResult.results);
+          errors.push(...batchResult.errors);
+          run.progress.record(batchResult.results, true);
         } catch (error) {
           // Handle batch-level errors
           batch.forEach(op => {
-            result.errors.push({
+            errors.push({
               listName: op.listName,
               operationType: op.operationType,
               error: error instanceof Error ? error.message : 'Unknown batch error',
@@ -271,16 +536,43 @@ export class BatchBuilder {
       }
     }
 
-    // Calculate final statistics
-    result.successfulOperations = result.results.filter(r => r.success).length;
-    result.failedOperations = result.results.filter(r => !r.success).length;
-    result.success = result.failedOperations === 0;
+    return { results, errors };
+  }
 
-    // Clear operations for reuse
-    this.operations = [];
-    this.currentListBuilder = undefined;
+  private abortTransaction(result: IBatchResult, snapshotErrors: IBatchError[]): void {
+    const reason = `Transaction aborted before any writes: ${snapshotErrors[0].error}`;
 
-    return result;
+    for (const operation of this.operations) {
+      const ownError = snapshotErrors.find(e => e.operationId === operation.operationId);
+      this.recordFailure(result, ownError || this.toError(operation, reason));
+    }
+
+    result.success = false;
+    result.failedOperations = this.operations.length;
+  }
+
+  private recordFailure(result: IBatchResult, error: IBatchError): IOperationResult {
+    const operationResult: IOperationResult = {
+      operationType: error.operationType,
+      listName: error.listName,
+      success: false,
+      error: error.error,
+      itemId: error.itemId,
+      operationId: error.operationId,
+    };
+    result.results.push(operationResult);
+    result.errors.push(error);
+    return operationResult;
+  }
+
+  private toError(operation: IBatchOperation, error: string): IBatchError {
+    return {
+      listName: operation.listName,
+      operationType: operation.operationType,
+      error,
+      itemId: operation.itemId,
+      operationId: operation.operationId,
+    };
   }
 
   private splitIntoBatches(operations: IBatchOperation[]): IBatchOperation[][] {
@@ -294,108 +586,199 @@ export class BatchBuilder {
     return batches;
   }
 
-  private async executeBatch(
-    operations: IBatchOperation[]
+  /**
+   * Sends a batch, retrying it when throttled and bisecting it when SharePoint rejected it;
+   * operations that fail with a transient status are retried when configured
+   */
+  private async executeWithRecovery(
+    operations: IBatchOperation[],
+    run: IBatchRun,
+    operationAttempt = 0,
+    // Error of a batch that already sent these operations, when they are bisected
+    sentError?: unknown
   ): Promise<{ results: IOperationResult[]; errors: IBatchError[] }> {
-    const results: IOperationResult[] = [];
-    const errors: IBatchError[] = [];
+    const retry = { ...DEFAULT_RETRY_CONFIG, ...this.config.retry };
+    let outcome: { results: IOperationResult[]; errors: IBatchError[] } | undefined;
+    let lastError = sentError;
+
+    for (let attempt = 0; !outcome; attempt++) {
+      if (run.signal?.aborted) {
+        // Operations that were sent already failed; only the ones never sent are cancelled
+        return lastError === undefined
+          ? { results: this.cancelOperations(operations), errors: [] }
+          : this.failBatch(operations, lastError);
+      }
 
-    try {
-      // Create batched SP instance using the correct PnP.js v3+ pattern
-      const [batchedSP, execute] = this.sp.batched();
-      const operationTrackers: IBatchedOperationTracker[] = [];
+      try {
+        outcome = await this.executeBatch(operations);
+      } catch (error) {
+        lastError = error;
+        if (isThrottled(error) && attempt < retry.maxRetries) {
+          await delay(getRetryDelay(error, attempt, retry), run.signal);
+          continue;
+        }
 
-      // Add all operations to batch using .then() syntax
-      for (const operation of operations) {
-        try {
-          const tracker: IBatchedOperationTracker = {
-            operation,
-            resultContainer: {},
+        if (isBatchRejected(error) && retry.bisectOnFailure && operations.length > 1) {
+          const middle = Math.ceil(operations.length / 2);
+          const first = await this.executeWithRecovery(operations.slice(0, middle), run, 0, error);
+          const second = await this.executeWithRecovery(operations.slice(middle), run, 0, error);
+          return {
+            results: [...first.results, ...second.results],
+            errors: [...first.errors, ...second.errors],
           };
-
-          this.addOperationToBatch(operation, batchedSP, tracker.resultContainer);
-          operationTrackers.push(tracker);
-        } catch (error) {
-          // Handle immediate errors (like validation failures)
-          const errorMessage =
-            error instanceof Error ? error.message : 'Failed to add operation to batch';
-          results.push({
-            operationType: operation.operationType,
-            listName: operation.listName,
-            success: false,
-            error: errorMessage,
-            itemId: operation.itemId,
-            operationId: operation.operationId,
-          });
-          errors.push({
-            listName: operation.listName,
-            operationType: operation.operationType,
-            error: errorMessage,
-            itemId: operation.itemId,
-            operationId: operation.operationId,
-          });
         }
+
+        return this.failBatch(operations, error);
       }
+    }
 
-      // Execute the entire batch
-      await execute();
-
-      // Process results after batch execution
-      for (const tracker of operationTrackers) {
-        const { operation, resultContainer } = tracker;
-
-        if (resultContainer.error) {
-          const errorMessage =
-            resultContainer.error instanceof Error
-              ? resultContainer.error.message
-              : 'Operation failed';
-
-          results.push({
-            operationType: operation.operationType,
-            listName: operation.listName,
-            success: false,
-            error: errorMessage,
-            itemId: operation.itemId,
-            operationId: operation.operationId,
-          });
+    if (!retry.retryFailedOperations || operationAttempt >= retry.operationRetries) {
+      return outcome;
+    }
 
-          errors.push({
-            listName: operation.listName,
-            operationType: operation.operationType,
-            error: errorMessage,
-            itemId: operation.itemId,
-            operationId: operation.operationId,
-          });
-        } else {
-          results.push({
-            operationType: operation.operationType,
-            listName: operation.listName,
-            success: true,
-            data: resultContainer.result,
-            itemId: operation.itemId,
-            operationId: operation.operationId,
-          });
-        }
+    const isTransient = (statusCode?: number) =>
+      statusCode !== undefined && retry.transientStatusCodes.includes(statusCode);
+    const transient = outcome.results.filter(r => !r.success && isTransient(r.statusCode));
+    if (transient.length === 0) {
+      return outcome;
+    }
+
+    const retryIds = transient.map(r => r.operationId);
+    await delay(getRetryDelay(undefined, operationAttempt, retry), run.signal);
+    if (run.signal?.aborted) {
+      // Cancelled while waiting to retry; keep the failures of the last attempt
+      return outcome;
+    }
+
+    const retried = await this.executeWithRecovery(
+      operations.filter(operation => retryIds.includes(operation.operationId)),
+      run,
+      operationAttempt + 1
+    );
+
+    return {
+      results: [
+        ...outcome.results.filter(r => !retryIds.includes(r.operationId)),
+        ...retried.results,
+      ],
+      errors: [...outcome.errors.filter(e => !retryIds.includes(e.operationId)), ...retried.errors],
+    };
+  }
+
+  private cancelOperations(operations: IBatchOperation[]): IOperationResult[] {
+    return operations.map(operation => ({
+      operationType: operation.operationType,
+      listName: operation.listName,
+      success: false,
+      error: 'Cancelled before the operation was sent',
+      itemId: operation.itemId,
+      operationId: operation.operationId,
+      cancelled: true,
+    }));
+  }
+
+  private failBatch(
+    operations: IBatchOperation[],
+    batchError: unknown
+  ): { results: IOperationResult[]; errors: IBatchError[] } {
+    const message = batchError instanceof Error ? batchError.message : 'Batch execution failed';
+    const statusCode = getErrorStatus(batchError);
+
+    return {
+      results: operations.map(operation => ({
+        operationType: operation.operationType,
+        listName: operation.listName,
+        success: false,
+        error: message,
+        itemId: operation.itemId,
+        operationId: operation.operationId,
+        statusCode,
+      })),
+      errors: operations.map(operation => this.toError(operation, message)),
+    };
+  }
+
+  /**
+   * Sends one SharePoint batch; rejects when the batch request itself fails
+   */
+  private async executeBatch(
+    operations: IBatchOperation[]
+  ): Promise<{ results: IOperationResult[]; errors: IBatchError[] }> {
+    const results: IOperationResult[] = [];
+    const errors: IBatchError[] = [];
+
+    // Create batched SP instance using the correct PnP.js v3+ pattern
+    const [batchedSP, execute] = this.sp.batched();
+    const operationTrackers: IBatchedOperationTracker[] = [];
+
+    // Add all operations to batch using .then() syntax
+    for (const operation of operations) {
+      try {
+        const tracker: IBatchedOperationTracker = {
+          operation,
+          resultContainer: {},
+        };
+
+        this.addOperationToBatch(operation, batchedSP, tracker.resultContainer);
+        operationTrackers.push(tracker);
+      } catch (error) {
+        // Handle immediate errors (like validation failures)
+        const errorMessage =
+          error instanceof Error ? error.message : 'Failed to add operation to batch';
+        results.push({
+          operationType: operation.operationType,
+          listName: operation.listName,
+          success: false,
+          error: errorMessage,
+          itemId: operation.itemId,
+          operationId: operation.operationId,
+        });
+        errors.push({
+          listName: operation.listName,
+          operationType: operation.operationType,
+          error: errorMessage,
+          itemId: operation.itemId,
+          operationId: operation.operationId,
+        });
       }
-    } catch (batchError) {
-      // Handle batch execution errors
-      const batchErrorMessage =
-        batchError instanceof Error ? batchError.message : 'Batch execution failed';
+    }
+
+    // Execute the entire batch
+    await execute();
+
+    // Process results after batch execution
+    for (const tracker of operationTrackers) {
+      const { operation, resultContainer } = tracker;
+
+      if (resultContainer.error) {
+        const errorMessage =
+          resultContainer.error instanceof Error
+            ? resultContainer.error.message
+            : 'Operation failed';
 
-      for (const operation of operations) {
         results.push({
           operationType: operation.operationType,
           listName: operation.listName,
           success: false,
-          error: batchErrorMessage,
+          error: errorMessage,
           itemId: operation.itemId,
           operationId: operation.operationId,
+          statusCode: getErrorStatus(resultContainer.error),
         });
 
         errors.push({
           listName: operation.listName,
           operationType: operation.operationType,
-          error: batchErrorMessage,
+          error: errorMessage,
+          itemId: operation.itemId,
+          operationId: operation.operationId,
+        });
+      } else {
+        results.push({
+          operationType: operation.operationType,
+          listName: operation.listName,
+          success: true,
+          data: resultContainer.result,
           itemId: operation.itemId,
           operationId: operation.operationId,
         });
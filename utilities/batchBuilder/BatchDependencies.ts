@@ -0,0 +1,243 @@
+import type { IBatchError, IBatchOperation, IOperationResult } from './BatchBuilder';
+import { getAddedItemId } from './BatchTransaction';
+
+/**
+ * Placeholder for a value produced by an earlier operation in the same builder
+ */
+export interface IBatchReference {
+  $ref: string;
+  field: string;
+}
+
+// String placeholders: {{operationId}} or {{operationId.Field}}; only read when the builder's
+// `stringReferences` is on, so existing text containing braces is written as is
+const TOKEN_PATTERN = /\{\{([^}.]+)(?:\.([^}]+))?\}\}/g;
+
+/**
+ * References a field of an earlier operation's result (the new item's Id by default)
+ * @param operationId ID given to the earlier operation with `as()`
+ * @param field Result field to use
+ */
+export function ref(operationId: string, field = 'Id'): IBatchReference {
+  return { $ref: operationId, field };
+}
+
+/**
+ * Gets the operation IDs an operation depends on, explicit or through references
+ * @param stringReferences Also read `{{operationId}}` placeholders in strings
+ */
+export function getDependencies(operation: IBatchOperation, stringReferences = false): string[] {
+  const dependencies: string[] = [...(operation.dependsOn || [])];
+  const add = (operationId: string) => {
+    if (dependencies.indexOf(operationId) < 0) {
+      dependencies.push(operationId);
+    }
+  };
+
+  visitValues([operation.data, operation.formValues, operation.path], value => {
+    if (isReference(value)) {
+      add(value.$ref);
+    } else if (stringReferences && typeof value === 'string') {
+      value.replace(TOKEN_PATTERN, (match, operationId: string) => {
+        add(operationId);
+        return match;
+      });
+    }
+  });
+
+  return dependencies;
+}
+
+/**
+ * Orders operations into waves; each wave only depends on earlier waves.
+ * Operations with duplicate IDs, unknown or circular dependencies are returned as errors.
+ */
+export function planWaves(
+  operations: IBatchOperation[],
+  stringReferences = false
+): {
+  waves: IBatchOperation[][];
+  errors: IBatchError[];
+} {
+  const waves: IBatchOperation[][] = [];
+  const errors: IBatchError[] = [];
+  const known = operations.map(operation => operation.operationId);
+  const placed = new Set<string>();
+  let pending: IBatchOperation[] = [];
+
+  operations.forEach(operation => {
+    const unknown = getDependencies(operation, stringReferences).filter(
+      id => known.indexOf(id) < 0
+    );
+    const { operationId } = operation;
+    const isDuplicate =
+      operationId !== undefined && known.indexOf(operationId) !== known.lastIndexOf(operationId);
+    if (isDuplicate) {
+      // Results, references and rollback are looked up by ID; none of the duplicates can run
+      errors.push(toError(operation, `Duplicate operation ID "${operationId}"`));
+      placed.add(operationId!);
+    } else if (unknown.length > 0) {
+      errors.push(toError(operation, `Unknown dependency: ${unknown.join(', ')}`));
+      placed.add(operation.operationId!);
+    } else {
+      pending.push(operation);
+    }
+  });
+
+  // Operations that depend on an invalid operation are invalid too
+  const invalid = new Set(errors.map(error => error.operationId));
+
+  while (pending.length > 0) {
+    const wave: IBatchOperation[] = [];
+    const waiting: IBatchOperation[] = [];
+
+    pending.forEach(operation => {
+      const dependencies = getDependencies(operation, stringReferences);
+      const failedDependency = dependencies.find(id => invalid.has(id));
+      if (failedDependency) {
+        errors.push(toError(operation, `Skipped: dependency "${failedDependency}" is invalid`));
+        invalid.add(operation.operationId);
+        placed.add(operation.operationId!);
+      } else if (dependencies.every(id => placed.has(id))) {
+        wave.push(operation);
+      } else {
+        waiting.push(operation);
+      }
+    });
+
+    if (wave.length === 0) {
+      if (waiting.length === pending.length) {
+        const ids = waiting.map(operation => operation.operationId).join(', ');
+        waiting.forEach(operation => {
+          errors.push(toError(operation, `Circular dependency between operations: ${ids}`));
+        });
+        break;
+      }
+    } else {
+      waves.push(wave);
+      wave.forEach(operation => placed.add(operation.operationId!));
+    }
+
+    pending = waiting;
+  }
+
+  return { waves, errors };
+}
+
+/**
+ * Finds the first dependency of an operation that did not succeed
+ */
+export function findFailedDependency(
+  operation: IBatchOperation,
+  results: Map<string, IOperationResult>,
+  stringReferences = false
+): string | undefined {
+  return getDependencies(operation, stringReferences).find(id => !results.get(id)?.success);
+}
+
+/**
+ * Returns a copy of the operation with every reference replaced by the referenced value
+ */
+export function resolveReferences(
+  operation: IBatchOperation,
+  operations: IBatchOperation[],
+  results: Map<string, IOperationResult>,
+  stringReferences = false
+): IBatchOperation {
+  const lookup = (operationId: string, field: string): any => {
+    const source = operations.find(op => op.operationId === operationId);
+    const result = results.get(operationId);
+    if (!source || !result) {
+      throw new Error(`No result for referenced operation "${operationId}"`);
+    }
+
+    const value = getResultField(source, result, field);
+    if (value === undefined) {
+      throw new Error(`Operation "${operationId}" has no result field "${field}"`);
+    }
+    return value;
+  };
+
+  const resolveString = (value: string): any => {
+    // A string that is only a token takes the referenced value as is (e.g. a number)
+    const single = new RegExp(`^${TOKEN_PATTERN.source}$`).exec(value);
+    if (single) {
+      return lookup(single[1], single[2] || 'Id');
+    }
+    return value.replace(TOKEN_PATTERN, (_, operationId: string, field?: string) =>
+      String(lookup(operationId, field || 'Id'))
+    );
+  };
+
+  const resolve = (value: any): any => {
+    if (isReference(value)) {
+      return lookup(value.$ref, value.field);
+    }
+    if (stringReferences && typeof value === 'string') {
+      return resolveString(value);
+    }
+    if (Array.isArray(value)) {
+      return value.map(resolve);
+    }
+    if (isPlainObject(value)) {
+      const copy: Record<string, any> = {};
+      Object.keys(value).forEach(key => {
+        copy[key] = resolve(value[key]);
+      });
+      return copy;
+    }
+    return value;
+  };
+
+  return {
+    ...operation,
+    data: operation.data !== undefined ? resolve(operation.data) : undefined,
+    formValues: operation.formValues?.map(formValue => ({
+      ...formValue,
+      FieldValue: String(resolve(formValue.FieldValue)),
+    })),
+    path: operation.path !== undefined ? String(resolve(operation.path)) : undefined,
+  };
+}
+
+function getResultField(source: IBatchOperation, result: IOperationResult, field: string): any {
+  if (field === 'Id' || field === 'ID') {
+    return getAddedItemId(source, result.data) ?? result.itemId;
+  }
+
+  const data = result.data?.data ?? result.data;
+  if (Array.isArray(data)) {
+    // Form values returned by the validate* operations
+    return data.find((value: any) => value.FieldName === field)?.FieldValue;
+  }
+  return data?.[field];
+}
+
+function visitValues(values: any[], visit: (value: any) => void): void {
+  values.forEach(value => {
+    visit(value);
+    if (Array.isArray(value)) {
+      visitValues(value, visit);
+    } else if (isPlainObject(value) && !isReference(value)) {
+      visitValues(Object.keys(value).map(key => value[key]), visit);
+    }
+  });
+}
+
+function isReference(value: any): value is IBatchReference {
+  return isPlainObject(value) && typeof value.$ref === 'string';
+}
+
+function isPlainObject(value: any): boolean {
+  return !!value && typeof value === 'object' && Object.getPrototypeOf(value) === Object.prototype;
+}
+
+function toError(operation: IBatchOperation, error: string): IBatchError {
+  return {
+    listName: operation.listName,
+    operationType: operation.operationType,
+    error,
+    itemId: operation.itemId,
+    operationId: operation.operationId,
+  };
+}
@@ -0,0 +1,76 @@
+import type { IBatchProgress, IOperationResult } from './BatchBuilder';
+
+/**
+ * Keeps running counts for an execute() call and reports them to `onProgress`
+ */
+export class BatchProgressTracker {
+  private readonly totalOperations: number;
+  private readonly totalBatches: number;
+  private readonly onProgress?: (progress: IBatchProgress) => void;
+  private readonly startedAt = Date.now();
+  private completedBatches = 0;
+  private successfulOperations = 0;
+  private failedOperations = 0;
+  private cancelledOperations = 0;
+
+  constructor(
+    totalOperations: number,
+    totalBatches: number,
+    onProgress?: (progress: IBatchProgress) => void
+  ) {
+    this.totalOperations = totalOperations;
+    this.totalBatches = totalBatches;
+    this.onProgress = onProgress;
+  }
+
+  /**
+   * Counts finished operations; `batchCompleted` marks the end of a SharePoint batch
+   */
+  record(results: IOperationResult[], batchCompleted = false): void {
+    results.forEach(result => {
+      if (result.cancelled) {
+        this.cancelledOperations++;
+      } else if (result.success) {
+        this.successfulOperations++;
+      } else {
+        this.failedOperations++;
+      }
+    });
+
+    if (batchCompleted) {
+      this.completedBatches++;
+      this.report();
+    }
+  }
+
+  report(): void {
+    if (!this.onProgress) {
+      return;
+    }
+
+    const completedOperations =
+      this.successfulOperations + this.failedOperations + this.cancelledOperations;
+    const elapsedMs = Date.now() - this.startedAt;
+    const remaining = this.totalOperations - completedOperations;
+    const ratio = this.totalOperations > 0 ? completedOperations / this.totalOperations : 1;
+    const msPerOperation = completedOperations > 0 ? elapsedMs / completedOperations : undefined;
+
+    try {
+      this.onProgress({
+        completedBatches: this.completedBatches,
+        totalBatches: Math.max(this.totalBatches, this.completedBatches),
+        completedOperations,
+        totalOperations: this.totalOperations,
+        successfulOperations: this.successfulOperations,
+        failedOperations: this.failedOperations,
+        cancelledOperations: this.cancelledOperations,
+        percentComplete: Math.round(ratio * 100),
+        elapsedMs,
+        estimatedRemainingMs:
+          msPerOperation !== undefined ? Math.round(msPerOperation * remaining) : undefined,
+      });
+    } catch (error) {
+      console.warn('BatchBuilder onProgress callback failed:', error);
+    }
+  }
+}
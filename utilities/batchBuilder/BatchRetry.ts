@@ -0,0 +1,90 @@
+import { parseRetryAfter } from '../../context/http/throttling';
+
+export interface IBatchRetryConfig {
+  /** Retries for a batch rejected with 429/503 (default: 3) */
+  maxRetries?: number;
+  /** First backoff delay, doubled per attempt (default: 1000) */
+  baseDelayMs?: number;
+  /** Upper bound for any delay, including Retry-After (default: 30000) */
+  maxDelayMs?: number;
+  /**
+   * Split a batch SharePoint rejected as a whole (400, 413) in halves until only the bad
+   * operations fail (default: true). Other failures aren't split: the server may have applied them
+   */
+  bisectOnFailure?: boolean;
+  /** Retry operations that failed with a transient status (default: false) */
+  retryFailedOperations?: boolean;
+  /** Retries per transient operation failure (default: 2) */
+  operationRetries?: number;
+  /** Statuses treated as transient for operations (default: save conflict, lock, throttling) */
+  transientStatusCodes?: number[];
+}
+
+export const DEFAULT_RETRY_CONFIG: Required<IBatchRetryConfig> = {
+  maxRetries: 3,
+  baseDelayMs: 1000,
+  maxDelayMs: 30000,
+  bisectOnFailure: true,
+  retryFailedOperations: false,
+  operationRetries: 2,
+  transientStatusCodes: [409, 423, 429, 503],
+};
+
+/**
+ * Gets the HTTP status of a PnP request error
+ */
+export function getErrorStatus(error: any): number | undefined {
+  const status = error?.status ?? error?.response?.status;
+  return typeof status === 'number' ? status : undefined;
+}
+
+export function isThrottled(error: any): boolean {
+  const status = getErrorStatus(error);
+  return status === 429 || status === 503;
+}
+
+/**
+ * Whether the batch request was refused before any of its operations ran: a malformed or
+ * too large batch. Network errors and timeouts don't qualify, the changes may have been applied
+ */
+export function isBatchRejected(error: any): boolean {
+  const status = getErrorStatus(error);
+  return status === 400 || status === 413;
+}
+
+/**
+ * Delay before the next attempt: the server's Retry-After when given,
+ * otherwise exponential backoff with jitter
+ */
+export function getRetryDelay(
+  error: any,
+  attempt: number,
+  config: Required<IBatchRetryConfig>
+): number {
+  const retryAfter = parseRetryAfter(error?.response?.headers?.get?.('Retry-After'));
+  const backoff = config.baseDelayMs * Math.pow(2, attempt);
+  const waitMs = retryAfter ?? backoff + Math.random() * config.baseDelayMs;
+  return Math.min(waitMs, config.maxDelayMs);
+}
+
+/**
+ * Waits for the given time; resolves early when the signal aborts
+ */
+export function delay(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise(resolve => {
+    if (signal?.aborted) {
+      resolve();
+      return;
+    }
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      resolve();
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort);
+  });
+}
@@ -0,0 +1,278 @@
+import { CacheNever } from '@pnp/queryable';
+import { SPFI } from '@pnp/sp';
+import '@pnp/sp/fields';
+import '@pnp/sp/items';
+import '@pnp/sp/lists';
+import '@pnp/sp/webs';
+import type {
+  IBatchError,
+  IBatchOperation,
+  IOperationResult,
+  IRollbackFailure,
+  IRollbackResult,
+} from './BatchBuilder';
+
+interface IWritableField {
+  InternalName: string;
+  TypeAsString: string;
+}
+
+// Writable per field metadata, but their values can't be posted back as they are read
+const NOT_RECREATED_TYPES = [
+  'Calculated',
+  'Computed',
+  'Attachments',
+  'File',
+  'TaxonomyFieldType',
+  'TaxonomyFieldTypeMulti',
+];
+
+// Field types read and written as <InternalName>Id
+const ID_VALUE_TYPES = ['Lookup', 'LookupMulti', 'User', 'UserMulti'];
+
+/**
+ * Snapshots the items a batch will change and undoes successful operations
+ * with compensating writes when the batch does not fully succeed
+ */
+export class BatchTransaction {
+  private sp: SPFI;
+  private snapshots = new Map<IBatchOperation, Record<string, any>>();
+  // List title (lower case) -> properties a deleted item is recreated with
+  private writableProperties = new Map<string, Promise<string[]>>();
+
+  constructor(sp: SPFI) {
+    this.sp = sp;
+  }
+
+  /**
+   * Reads the current state of every item that will be updated or deleted
+   * @returns Errors for operations whose item could not be read
+   */
+  async snapshot(operations: IBatchOperation[]): Promise<IBatchError[]> {
+    const errors: IBatchError[] = [];
+    const reads = new Map<string, Promise<Record<string, any>>>();
+
+    for (const operation of operations) {
+      if (!this.needsSnapshot(operation) || !operation.itemId) {
+        continue;
+      }
+
+      // Deletes read only the writable fields, so the item can be added again from them
+      const isDelete = operation.operationType === 'delete';
+      const key = `${operation.listName.toLowerCase()}|${operation.itemId}|${isDelete}`;
+      if (!reads.has(key)) {
+        reads.set(key, this.readItem(operation.listName, operation.itemId, isDelete));
+      }
+
+      try {
+        this.snapshots.set(operation, await reads.get(key)!);
+      } catch (error) {
+        errors.push({
+          listName: operation.listName,
+          operationType: operation.operationType,
+          error: `Snapshot failed: ${getErrorMessage(error)}`,
+          itemId: operation.itemId,
+          operationId: operation.operationId,
+        });
+      }
+    }
+
+    return errors;
+  }
+
+  /**
+   * Applies compensating operations for the successful results, newest first
+   * @param completed Results in the order the operations completed, which with concurrent
+   * batches and retries differs from the order they were queued
+   */
+  async rollback(
+    operations: IBatchOperation[],
+    completed: IOperationResult[]
+  ): Promise<IRollbackResult> {
+    const rollback: IRollbackResult = {
+      success: true,
+      compensatedOperations: 0,
+      failures: [],
+      recreatedItems: [],
+    };
+
+    const succeeded = completed.filter(result => result.success);
+
+    for (const result of succeeded.reverse()) {
+      const operation = operations.find(o => o.operationId === result.operationId);
+      if (!operation) {
+        continue;
+      }
+
+      try {
+        await this.compensate(operation, result, rollback);
+        result.rolledBack = true;
+        rollback.compensatedOperations++;
+      } catch (error) {
+        rollback.failures.push({
+          listName: operation.listName,
+          operationType: operation.operationType,
+          error: getErrorMessage(error),
+          itemId: operation.itemId ?? getAddedItemId(operation, result.data),
+          operationId: operation.operationId,
+        });
+      }
+    }
+
+    rollback.success = rollback.failures.length === 0;
+    return rollback;
+  }
+
+  private async compensate(
+    operation: IBatchOperation,
+    result: IOperationResult,
+    rollback: IRollbackResult
+  ): Promise<void> {
+    const list = this.sp.web.lists.getByTitle(operation.listName);
+
+    switch (operation.operationType) {
+      case 'add':
+      case 'addValidateUpdateItemUsingPath': {
+        const addedId = getAddedItemId(operation, result.data);
+        if (!addedId) {
+          throw new Error('ID of the added item is unknown; it was not removed');
+        }
+        await list.items.getById(addedId).delete();
+        break;
+      }
+
+      case 'update':
+      case 'validateUpdateListItem': {
+        const fields =
+          operation.operationType === 'update'
+            ? Object.keys(operation.data || {})
+            : (operation.formValues || []).map(value => value.FieldName);
+        const previous = this.getPreviousValues(operation, fields);
+        await list.items.getById(operation.itemId!).update(previous);
+        break;
+      }
+
+      case 'delete': {
+        const snapshot = this.getSnapshot(operation);
+        const properties = await this.getWritableProperties(operation.listName);
+        const values: Record<string, any> = {};
+        properties
+          .filter(key => snapshot[key] !== undefined && snapshot[key] !== null)
+          .forEach(key => {
+            values[key] = snapshot[key];
+          });
+
+        const added = await list.items.add(values);
+        rollback.recreatedItems.push({
+          listName: operation.listName,
+          originalItemId: operation.itemId!,
+          newItemId: added?.data?.Id ?? added?.data?.ID,
+        });
+        break;
+      }
+
+      default:
+        throw new Error(`Unsupported operation type: ${operation.operationType}`);
+    }
+  }
+
+  private async readItem(
+    listName: string,
+    itemId: number,
+    writableOnly: boolean
+  ): Promise<Record<string, any>> {
+    const item = this.sp.web.lists.getByTitle(listName).items.getById(itemId);
+    if (!writableOnly) {
+      return item.using(CacheNever())();
+    }
+
+    const properties = await this.getWritableProperties(listName);
+    return item.select(...properties).using(CacheNever())();
+  }
+
+  /**
+   * Properties of the list's fields that can be written back: not read-only, hidden,
+   * calculated or computed. Lookup and person fields are read and written as <Field>Id.
+   */
+  private getWritableProperties(listName: string): Promise<string[]> {
+    const key = listName.toLowerCase();
+    if (!this.writableProperties.has(key)) {
+      const fields: Promise<IWritableField[]> = this.sp.web.lists
+        .getByTitle(listName)
+        .fields.select('InternalName', 'TypeAsString')
+        .filter('ReadOnlyField eq false and Hidden eq false')
+        .using(CacheNever())();
+
+      this.writableProperties.set(
+        key,
+        fields.then(list =>
+          list
+            .filter(field => NOT_RECREATED_TYPES.indexOf(field.TypeAsString) < 0)
+            .map(field =>
+              ID_VALUE_TYPES.indexOf(field.TypeAsString) >= 0
+                ? `${field.InternalName}Id`
+                : field.InternalName
+            )
+        )
+      );
+    }
+    return this.writableProperties.get(key)!;
+  }
+
+  private getPreviousValues(operation: IBatchOperation, fields: string[]): Record<string, any> {
+    const snapshot = this.getSnapshot(operation);
+    const values: Record<string, any> = {};
+
+    fields.forEach(field => {
+      // Lookup and person fields are returned as <Field>Id
+      const key = field in snapshot ? field : `${field}Id`;
+      if (!(key in snapshot)) {
+        throw new Error(`No previous value captured for field "${field}"`);
+      }
+      values[key] = snapshot[key];
+    });
+
+    return values;
+  }
+
+  private getSnapshot(operation: IBatchOperation): Record<string, any> {
+    const snapshot = this.snapshots.get(operation);
+    if (!snapshot) {
+      throw new Error('No snapshot was taken for this item');
+    }
+    return snapshot;
+  }
+
+  private needsSnapshot(operation: IBatchOperation): boolean {
+    return (
+      operation.operationType === 'update' ||
+      operation.operationType === 'validateUpdateListItem' ||
+      operation.operationType === 'delete'
+    );
+  }
+}
+
+/**
+ * Gets the ID of an item created by an add operation from its result data
+ */
+export function getAddedItemId(operation: IBatchOperation, data: any): number | undefined {
+  if (operation.operationType === 'add') {
+    const item = data?.data ?? data;
+    return item?.Id ?? item?.ID;
+  }
+
+  if (operation.operationType === 'addValidateUpdateItemUsingPath') {
+    // Returns the form values, including the new item's Id
+    const values: Array<{ FieldName: string; FieldValue: string }> = Array.isArray(data)
+      ? data
+      : data?.value || [];
+    const id = values.find(value => value.FieldName === 'Id')?.FieldValue;
+    return id ? parseInt(id, 10) : undefined;
+  }
+
+  return undefined;
+}
+
+function getErrorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
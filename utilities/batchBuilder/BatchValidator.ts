@@ -0,0 +1,362 @@
+import { CacheNever } from '@pnp/queryable';
+import { SPFI } from '@pnp/sp';
+import '@pnp/sp/fields';
+import '@pnp/sp/items';
+import '@pnp/sp/lists';
+import { PermissionKind } from '@pnp/sp/security';
+import '@pnp/sp/webs';
+import { PermissionHelper } from '../permissionHelper/PermissionHelper';
+import type { IBatchOperation, IListItemFormUpdateValue, IOperationResult } from './BatchBuilder';
+import { getDependencies, planWaves } from './BatchDependencies';
+
+interface IFieldInfo {
+  InternalName: string;
+  Title: string;
+  TypeAsString: string;
+  ReadOnlyField: boolean;
+  Required: boolean;
+  Hidden: boolean;
+  DefaultValue: string | null;
+  Choices?: string[];
+  FillInChoice?: boolean;
+}
+
+interface IListInfo {
+  fields: IFieldInfo[];
+  error?: string;
+}
+
+// Field types written as <InternalName>Id with the REST API
+const ID_VALUE_TYPES = ['Lookup', 'LookupMulti', 'User', 'UserMulti'];
+
+const REQUIRED_PERMISSION: Record<IBatchOperation['operationType'], PermissionKind> = {
+  add: PermissionKind.AddListItems,
+  addValidateUpdateItemUsingPath: PermissionKind.AddListItems,
+  update: PermissionKind.EditListItems,
+  validateUpdateListItem: PermissionKind.EditListItems,
+  delete: PermissionKind.DeleteListItems,
+};
+
+/**
+ * Predicts whether batch operations would succeed without writing anything:
+ * lists, fields, values, target items, eTags and the user's list permissions are checked
+ */
+export class BatchValidator {
+  private sp: SPFI;
+  private permissions: PermissionHelper;
+  private lists = new Map<string, Promise<IListInfo>>();
+  private items = new Map<string, Promise<Record<string, any>>>();
+
+  constructor(sp: SPFI, permissionHelper?: PermissionHelper) {
+    this.sp = sp;
+    this.permissions = permissionHelper ?? new PermissionHelper(sp);
+  }
+
+  /**
+   * Validates every operation; results use `success` as the prediction and `error` for the reasons
+   * @param stringReferences Read `{{operationId}}` placeholders in strings, as execute() does
+   */
+  async validate(
+    operations: IBatchOperation[],
+    stringReferences = false
+  ): Promise<IOperationResult[]> {
+    const predictions = new Map<string, IOperationResult>();
+    const results: IOperationResult[] = [];
+
+    // Same order as execute(); unknown and circular dependencies fail up front
+    const { waves, errors } = planWaves(operations, stringReferences);
+    errors.forEach(error => results.push({ ...error, success: false }));
+
+    for (const operation of waves.reduce<IBatchOperation[]>((all, w) => all.concat(w), [])) {
+      const reasons = await this.validateOperation(operation);
+
+      // Operations that depend on an operation predicted to fail would be skipped
+      getDependencies(operation, stringReferences).forEach(id => {
+        if (!predictions.get(id)?.success) {
+          reasons.push(`Would be skipped: dependency "${id}" would fail`);
+        }
+      });
+
+      const result: IOperationResult = {
+        operationType: operation.operationType,
+        listName: operation.listName,
+        success: reasons.length === 0,
+        error: reasons.length > 0 ? reasons.join('; ') : undefined,
+        itemId: operation.itemId,
+        operationId: operation.operationId,
+      };
+      results.push(result);
+      if (operation.operationId) {
+        predictions.set(operation.operationId, result);
+      }
+    }
+
+    return results;
+  }
+
+  private async validateOperation(operation: IBatchOperation): Promise<string[]> {
+    const reasons: string[] = [];
+    const list = await this.getList(operation.listName);
+    if (list.error) {
+      return [list.error];
+    }
+
+    const permission = await this.permissions.userHasSpecificPermission(
+      operation.listName,
+      REQUIRED_PERMISSION[operation.operationType]
+    );
+    if (!permission.hasPermission) {
+      reasons.push(
+        permission.error
+          ? `Permission check failed: ${permission.error}`
+          : `Missing ${PermissionKind[REQUIRED_PERMISSION[operation.operationType]]} permission`
+      );
+    }
+
+    switch (operation.operationType) {
+      case 'add':
+        reasons.push(...this.validateData(list, operation.data, true));
+        break;
+
+      case 'update':
+        reasons.push(...this.validateData(list, operation.data, false));
+        reasons.push(...(await this.validateTargetItem(operation)));
+        break;
+
+      case 'delete':
+        reasons.push(...(await this.validateTargetItem(operation)));
+        break;
+
+      case 'addValidateUpdateItemUsingPath':
+        if (!operation.path) {
+          reasons.push('Path is required');
+        }
+        reasons.push(...this.validateFormValues(list, operation.formValues));
+        break;
+
+      case 'validateUpdateListItem':
+        reasons.push(...this.validateFormValues(list, operation.formValues));
+        reasons.push(...(await this.validateTargetItem(operation)));
+        break;
+    }
+
+    return reasons;
+  }
+
+  private validateData(list: IListInfo, data: any, isNew: boolean): string[] {
+    if (!data || typeof data !== 'object') {
+      return ['Data is required'];
+    }
+
+    const reasons: string[] = [];
+    Object.keys(data).forEach(key => {
+      const field = this.findField(list, key);
+      if (!field) {
+        reasons.push(`Unknown field "${key}"`);
+      } else if (field.ReadOnlyField) {
+        reasons.push(`Field "${key}" is read-only`);
+      } else if (!isPlaceholder(data[key])) {
+        const problem = checkDataValue(field, data[key]);
+        if (problem) {
+          reasons.push(`Field "${key}": ${problem}`);
+        }
+      }
+    });
+
+    if (isNew) {
+      const provided = Object.keys(data).map(key => this.findField(list, key)?.InternalName);
+      list.fields
+        .filter(f => f.Required && !f.ReadOnlyField && !f.DefaultValue)
+        .filter(f => provided.indexOf(f.InternalName) < 0)
+        .forEach(f => reasons.push(`Required field "${f.InternalName}" is missing`));
+    }
+
+    return reasons;
+  }
+
+  private validateFormValues(
+    list: IListInfo,
+    formValues: IListItemFormUpdateValue[] | undefined
+  ): string[] {
+    if (!formValues || formValues.length === 0) {
+      return ['Form values are required'];
+    }
+
+    const reasons: string[] = [];
+    formValues.forEach(({ FieldName, FieldValue }) => {
+      const field = list.fields.find(f => f.InternalName === FieldName);
+      if (!field) {
+        reasons.push(`Unknown field "${FieldName}"`);
+      } else if (field.ReadOnlyField) {
+        reasons.push(`Field "${FieldName}" is read-only`);
+      } else if (!isPlaceholder(FieldValue)) {
+        const problem = checkFormValue(field, FieldValue);
+        if (problem) {
+          reasons.push(`Field "${FieldName}": ${problem}`);
+        }
+      }
+    });
+
+    return reasons;
+  }
+
+  private async validateTargetItem(operation: IBatchOperation): Promise<string[]> {
+    if (!operation.itemId) {
+      return ['Item ID is required'];
+    }
+
+    const key = `${operation.listName.toLowerCase()}|${operation.itemId}`;
+    if (!this.items.has(key)) {
+      this.items.set(
+        key,
+        this.sp.web.lists
+          .getByTitle(operation.listName)
+          .items.getById(operation.itemId)
+          .select('Id')
+          .using(CacheNever())()
+      );
+    }
+
+    let item: Record<string, any>;
+    try {
+      item = await this.items.get(key)!;
+    } catch (error) {
+      return [`Item ${operation.itemId} not found: ${getErrorMessage(error)}`];
+    }
+
+    if (operation.eTag && operation.eTag !== '*') {
+      const current = item['odata.etag'] ?? item.__metadata?.etag;
+      if (current && normalizeETag(current) !== normalizeETag(operation.eTag)) {
+        return [
+          `Item ${operation.itemId} has changed (eTag ${current}, expected ${operation.eTag})`,
+        ];
+      }
+    }
+
+    return [];
+  }
+
+  private findField(list: IListInfo, key: string): IFieldInfo | undefined {
+    const exact = list.fields.find(f => f.InternalName === key);
+    if (exact) {
+      return exact;
+    }
+
+    // Lookup and person fields are written as <InternalName>Id
+    const idMatch = /^(.+)Id$/.exec(key);
+    return idMatch
+      ? list.fields.find(
+          f => f.InternalName === idMatch[1] && ID_VALUE_TYPES.indexOf(f.TypeAsString) >= 0
+        )
+      : undefined;
+  }
+
+  private getList(listName: string): Promise<IListInfo> {
+    const key = listName.toLowerCase();
+    if (!this.lists.has(key)) {
+      // No $select: Choices and FillInChoice only exist on choice fields
+      const fields = this.sp.web.lists.getByTitle(listName).fields.using(CacheNever())();
+      this.lists.set(
+        key,
+        fields.then(
+          (all: IFieldInfo[]) => ({ fields: all }),
+          error => ({
+            fields: [],
+            error: `List "${listName}" not found: ${getErrorMessage(error)}`,
+          })
+        )
+      );
+    }
+    return this.lists.get(key)!;
+  }
+}
+
+function checkDataValue(field: IFieldInfo, value: any): string | undefined {
+  if (value === null || value === undefined) {
+    return field.Required ? 'a value is required' : undefined;
+  }
+
+  switch (field.TypeAsString) {
+    case 'Number':
+    case 'Currency':
+    case 'Integer':
+    case 'Counter':
+      return isNaN(Number(value)) ? `"${value}" is not a number` : undefined;
+    case 'Boolean':
+      return typeof value === 'boolean' ? undefined : `"${value}" is not true or false`;
+    case 'DateTime':
+      return isNaN(new Date(value).getTime()) ? `"${value}" is not a date` : undefined;
+    case 'Choice':
+      return checkChoice(field, String(value));
+    case 'Lookup':
+    case 'User':
+      return isNaN(Number(value)) ? `"${value}" is not an item ID` : undefined;
+    default:
+      return undefined;
+  }
+}
+
+function checkFormValue(field: IFieldInfo, value: string): string | undefined {
+  if (value === '' || value === null || value === undefined) {
+    return field.Required ? 'a value is required' : undefined;
+  }
+
+  switch (field.TypeAsString) {
+    case 'Number':
+    case 'Currency':
+    case 'Integer':
+      return isNaN(Number(value.replace(/,/g, ''))) ? `"${value}" is not a number` : undefined;
+    case 'Boolean':
+      return /^(0|1|true|false|yes|no)$/i.test(value)
+        ? undefined
+        : `"${value}" is not a yes/no value`;
+    case 'DateTime':
+      return isNaN(Date.parse(value)) ? `"${value}" is not a date` : undefined;
+    case 'Choice':
+      return checkChoice(field, value);
+    case 'MultiChoice':
+      return value
+        .split(';#')
+        .filter(choice => choice !== '')
+        .map(choice => checkChoice(field, choice))
+        .filter(Boolean)[0];
+    case 'Lookup':
+    case 'LookupMulti':
+      // "3", "3;#Title" or "3;#;#5;#" (multi)
+      return /^\d+/.test(value) ? undefined : `"${value}" is not a lookup ID`;
+    case 'User':
+    case 'UserMulti':
+      try {
+        return Array.isArray(JSON.parse(value)) ? undefined : 'expected a JSON array of principals';
+      } catch {
+        return 'expected a JSON array of principals';
+      }
+    default:
+      return undefined;
+  }
+}
+
+function checkChoice(field: IFieldInfo, value: string): string | undefined {
+  const choices = field.Choices || [];
+  if (field.FillInChoice || choices.length === 0 || choices.indexOf(value) >= 0) {
+    return undefined;
+  }
+  return `"${value}" is not one of ${choices.join(', ')}`;
+}
+
+function isPlaceholder(value: any): boolean {
+  return (
+    (typeof value === 'string' && /\{\{[^}]+\}\}/.test(value)) ||
+    (!!value && typeof value === 'object' && typeof value.$ref === 'string')
+  );
+}
+
+function normalizeETag(eTag: string): string {
+  // Item eTags look like "3" or "{guid},3"
+  const value = eTag.replace(/"/g, '');
+  return value.indexOf(',') >= 0 ? value.substring(value.lastIndexOf(',') + 1) : value;
+}
+
+function getErrorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
@@ -5,7 +5,8 @@
 
 // Export all types and interfaces
 export type {
-  IListItemFormUpdateValue, IPrincipal, SPImage, SPLocation, SPLookup,
+  IListItemFormUpdateValue, IPrincipal, ISPFieldUpdateOptions, ISPFieldValueTypes,
+  SPCalculatedResultType, SPFieldKind, SPImage, SPLocation, SPLookup,
   SPTaxonomy,
   SPUrl
 } from './spTypes';
@@ -13,4 +14,40 @@ export type {
 // Export utility functions
 export { createSPExtractor } from './spExtractor';
 export { createSPUpdater } from './spUpdater';
-
+export { sanitizeRichText } from './richText';
+export {
+  createSPTimeZone,
+  formatSPDateForValidate,
+  fromSPDateOnly,
+  getPageContextTimeZone,
+  getTimeZoneOffset,
+  loadSiteTimeZone,
+  toSPDateOnly,
+  toZonedTime,
+  UTC_TIME_ZONE
+} from './spDates';
+export type { ISPDateOptions, ISPTimeZone, ISPTimeZoneInfo } from './spDates';
+export { createListItemMapper, defineListSchema } from './listItemMapper';
+export type {
+  IFieldMapping,
+  IListItemMapperOptions,
+  IListItemValidationResult,
+  ListItemMapper,
+  ListModel,
+  ListSchema
+} from './listItemMapper';
+export {
+  compareListSchema,
+  generateListSchema,
+  generateListSchemaFromList,
+  getFieldKind,
+  loadListFields,
+  parseFieldsExport
+} from './schemaGenerator';
+export type {
+  IFieldDefinition,
+  IGeneratedListSchema,
+  ISchemaDriftReport,
+  ISchemaGeneratorOptions,
+  ISkippedField
+} from './schemaGenerator';
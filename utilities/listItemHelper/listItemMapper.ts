@@ -0,0 +1,283 @@
+/**
+ * Schema-driven SharePoint list item mapper - one schema for query, extraction and updates
+ * File: listItemMapper.ts
+ */
+
+import { isEqual } from '@microsoft/sp-lodash-subset';
+import { ISPTimeZone } from './spDates';
+import { createSPExtractor } from './spExtractor';
+import {
+  IListItemFormUpdateValue,
+  ISPFieldUpdateOptions,
+  ISPFieldValueTypes,
+  SPCalculatedResultType,
+  SPFieldKind,
+} from './spTypes';
+import { createSPUpdater } from './spUpdater';
+
+/**
+ * Maps one model property to a list field
+ */
+export interface IFieldMapping {
+  /** Internal name of the list field */
+  internalName: string;
+  type: SPFieldKind;
+  /** Must have a value on new items and cannot be cleared */
+  required?: boolean;
+  /** Read but never written (e.g. Id, Created, calculated fields) */
+  readOnly?: boolean;
+  /** Properties of expanded user and lookup fields (default: Id, Title; users also EMail, Name) */
+  expandFields?: string[];
+  /** Result type of a calculated field (default: Text) */
+  resultType?: SPCalculatedResultType;
+  /** Hidden note field of a multi-value taxonomy field (default: <internalName>_0) */
+  hiddenFieldName?: string;
+  /** Locale of the web, used for currency and number values in validate updates */
+  locale?: string;
+  /** Date field without a time; read and written as a calendar date in the web's time zone */
+  dateOnly?: boolean;
+}
+
+export type ListSchema = Record<string, IFieldMapping>;
+
+/**
+ * Model type described by a schema
+ */
+export type ListModel<S extends ListSchema> = {
+  [K in keyof S]: ISPFieldValueTypes[S[K]['type']];
+};
+
+export interface IListItemMapperOptions {
+  /** Time zone of the web (see loadSiteTimeZone); the browser's time zone when omitted */
+  timeZone?: ISPTimeZone;
+}
+
+export interface IListItemValidationResult {
+  isValid: boolean;
+  /** Messages keyed by model property */
+  errors: Record<string, string>;
+}
+
+// The select/expand part of a PnP queryable
+interface IQueryable {
+  select(...selects: string[]): any;
+  expand(...expands: string[]): any;
+}
+
+// Field types read through $expand
+const EXPANDED_TYPES: SPFieldKind[] = ['user', 'userMulti', 'lookup', 'lookupMulti'];
+const DEFAULT_EXPAND_FIELDS = ['Id', 'Title'];
+const DEFAULT_USER_EXPAND_FIELDS = ['Id', 'Title', 'EMail', 'Name'];
+
+/**
+ * Declares a schema while keeping its literal field types, so `ListModel` can be inferred
+ */
+export function defineListSchema<S extends ListSchema>(schema: S): S {
+  return schema;
+}
+
+/**
+ * Create a mapper that derives the query, extraction, updates and validation from one schema
+ * @param schema - Model property to list field mapping
+ * @param options - Time zone for date fields
+ */
+export function createListItemMapper<S extends ListSchema>(
+  schema: S,
+  options: IListItemMapperOptions = {}
+) {
+  const { timeZone } = options;
+  type TModel = ListModel<S>;
+  const properties = Object.keys(schema) as Array<keyof S & string>;
+
+  const select: string[] = [];
+  const expand: string[] = [];
+  properties.forEach(property => {
+    const { internalName, type, expandFields, hiddenFieldName } = schema[property];
+    if (EXPANDED_TYPES.indexOf(type) >= 0) {
+      const defaults =
+        type.indexOf('user') === 0 ? DEFAULT_USER_EXPAND_FIELDS : DEFAULT_EXPAND_FIELDS;
+      (expandFields || defaults).forEach(field => select.push(`${internalName}/${field}`));
+      expand.push(internalName);
+    } else {
+      select.push(internalName);
+    }
+    if (hiddenFieldName) {
+      select.push(hiddenFieldName);
+    }
+  });
+
+  // Writable properties whose value differs from the original (all given values without one)
+  const getChanges = (model: Partial<TModel>, original?: TModel): Array<keyof S & string> =>
+    properties.filter(
+      property =>
+        !isReadOnly(schema[property]) &&
+        model[property] !== undefined &&
+        (!original || !isEqual(model[property], original[property]))
+    );
+
+  return {
+    /** Fields for `$select`, including expanded user and lookup properties */
+    select,
+    /** Fields for `$expand` */
+    expand,
+
+    /**
+     * Apply `$select` and `$expand` to a PnP query (e.g. `list.items` or `items.getById(1)`)
+     */
+    applyQuery: function <Q extends IQueryable>(query: Q): Q {
+      const selected = query.select(...select);
+      return (expand.length > 0 ? selected.expand(...expand) : selected) as Q;
+    },
+
+    /**
+     * Extract a typed model from an item returned by the applied query
+     */
+    extract: function (item: any): TModel {
+      const extractor = createSPExtractor(item);
+      const model = {} as TModel;
+      properties.forEach(property => {
+        (model as any)[property] = extractValue(extractor, schema[property], timeZone);
+      });
+      return model;
+    },
+
+    /**
+     * Get changed values for PnP.js direct methods (item.update(), items.add())
+     * @param model - New values; undefined properties are ignored
+     * @param original - Values as loaded; only changed properties are returned when given
+     */
+    getUpdates: function (model: Partial<TModel>, original?: TModel): Record<string, any> {
+      const updater = createSPUpdater();
+      getChanges(model, original).forEach(property => {
+        const mapping = schema[property];
+        updater.set(mapping.internalName, model[property], toUpdateOptions(mapping, timeZone));
+      });
+      return updater.getUpdates();
+    },
+
+    /**
+     * Get changed values for PnP.js validate methods (validateUpdateListItem,
+     * addValidateUpdateItemUsingPath)
+     * @param model - New values; undefined properties are ignored
+     * @param original - Values as loaded; only changed properties are returned when given
+     */
+    getValidateUpdates: function (
+      model: Partial<TModel>,
+      original?: TModel
+    ): IListItemFormUpdateValue[] {
+      const updater = createSPUpdater();
+      getChanges(model, original).forEach(property => {
+        const mapping = schema[property];
+        updater.set(mapping.internalName, model[property], toUpdateOptions(mapping, timeZone));
+      });
+      return updater.getValidateUpdates();
+    },
+
+    /**
+     * Check required and read-only fields
+     * @param model - New values
+     * @param original - Values as loaded; omit for a new item
+     */
+    validate: function (model: Partial<TModel>, original?: TModel): IListItemValidationResult {
+      const errors: Record<string, string> = {};
+
+      properties.forEach(property => {
+        const { internalName, required } = schema[property];
+        const value = model[property];
+
+        if (isReadOnly(schema[property])) {
+          const changed = original
+            ? value !== undefined && !isEqual(value, original[property])
+            : !isEmptyValue(value);
+          if (changed) {
+            errors[property] = `Field "${internalName}" is read-only`;
+          }
+        } else if (required && isEmptyValue(value) && (!original || value !== undefined)) {
+          errors[property] = `Field "${internalName}" is required`;
+        }
+      });
+
+      return { isValid: Object.keys(errors).length === 0, errors };
+    },
+  };
+}
+
+export type ListItemMapper<S extends ListSchema> = ReturnType<typeof createListItemMapper<S>>;
+
+function extractValue(
+  extractor: ReturnType<typeof createSPExtractor>,
+  mapping: IFieldMapping,
+  timeZone: ISPTimeZone | undefined
+): any {
+  const { internalName, type } = mapping;
+  switch (type) {
+    case 'text':
+    case 'note':
+      return extractor.string(internalName);
+    case 'richText':
+      return extractor.richText(internalName);
+    case 'choice':
+      return extractor.choice(internalName);
+    case 'multiChoice':
+      return extractor.multiChoice(internalName);
+    case 'number':
+      return extractor.number(internalName);
+    case 'currency':
+      return extractor.currency(internalName, 0, mapping.locale);
+    case 'boolean':
+      return extractor.boolean(internalName);
+    case 'date':
+      return extractor.date(internalName, undefined, { dateOnly: mapping.dateOnly, timeZone });
+    case 'user':
+      return extractor.user(internalName);
+    case 'userMulti':
+      return extractor.userMulti(internalName);
+    case 'lookup':
+      return extractor.lookup(internalName);
+    case 'lookupMulti':
+      return extractor.lookupMulti(internalName);
+    case 'taxonomy':
+      return extractor.taxonomy(internalName);
+    case 'taxonomyMulti':
+      return extractor.taxonomyMulti(internalName, mapping.hiddenFieldName);
+    case 'url':
+      return extractor.url(internalName);
+    case 'location':
+      return extractor.location(internalName);
+    case 'image':
+      return extractor.image(internalName);
+    case 'calculated':
+      return extractor.calculated(internalName, mapping.resultType);
+    case 'json':
+      return extractor.json(internalName);
+    default:
+      return extractor.raw?.[internalName];
+  }
+}
+
+function toUpdateOptions(
+  mapping: IFieldMapping,
+  timeZone: ISPTimeZone | undefined
+): ISPFieldUpdateOptions {
+  return {
+    type: mapping.type,
+    hiddenFieldName: mapping.hiddenFieldName,
+    locale: mapping.locale,
+    dateOnly: mapping.dateOnly,
+    timeZone,
+  };
+}
+
+// Calculated fields are always read-only
+function isReadOnly(mapping: IFieldMapping): boolean {
+  return !!mapping.readOnly || mapping.type === 'calculated';
+}
+
+function isEmptyValue(value: any): boolean {
+  return (
+    value === null ||
+    value === undefined ||
+    value === '' ||
+    (Array.isArray(value) && value.length === 0)
+  );
+}
@@ -0,0 +1,81 @@
+/**
+ * Rich text (enhanced multi-line text) sanitization
+ * File: richText.ts
+ */
+
+const BLOCKED_ELEMENTS = ['script', 'style', 'iframe', 'object', 'embed', 'link', 'meta', 'base'];
+const URL_ATTRIBUTES = ['href', 'src', 'action', 'formaction', 'xlink:href'];
+const UNSAFE_URL = /^(javascript|vbscript|data(?!:image\/)):/i;
+
+/**
+ * Remove scripts, event handlers and script URLs from rich text HTML, and the
+ * `ExternalClass` wrapper SharePoint adds on save. Sanitizing twice gives the same result.
+ * @param html - Rich text field value
+ */
+export function sanitizeRichText(html: string): string {
+  if (!html) {
+    return '';
+  }
+
+  const sanitized =
+    typeof DOMParser !== 'undefined' ? sanitizeWithDom(html) : sanitizeWithPatterns(html);
+  return unwrapExternalClass(sanitized).trim();
+}
+
+function sanitizeWithDom(html: string): string {
+  // DOMParser documents are inert: scripts don't run and images don't load
+  const doc = new DOMParser().parseFromString(`<body>${html}</body>`, 'text/html');
+
+  BLOCKED_ELEMENTS.forEach(tag => {
+    const elements = doc.body.getElementsByTagName(tag);
+    for (let i = elements.length - 1; i >= 0; i--) {
+      elements[i].parentNode?.removeChild(elements[i]);
+    }
+  });
+
+  const all = doc.body.getElementsByTagName('*');
+  for (let i = 0; i < all.length; i++) {
+    const element = all[i];
+    for (let j = element.attributes.length - 1; j >= 0; j--) {
+      const { name, value } = element.attributes[j];
+      const lower = name.toLowerCase();
+      if (lower.indexOf('on') === 0 || (URL_ATTRIBUTES.indexOf(lower) >= 0 && isUnsafeUrl(value))) {
+        element.removeAttribute(name);
+      }
+    }
+  }
+
+  return doc.body.innerHTML;
+}
+
+function sanitizeWithPatterns(html: string): string {
+  let result = html;
+  BLOCKED_ELEMENTS.forEach(tag => {
+    result = result
+      .replace(new RegExp(`<${tag}\\b[^>]*>[\\s\\S]*?<\\/${tag}\\s*>`, 'gi'), '')
+      .replace(new RegExp(`<${tag}\\b[^>]*\\/?>`, 'gi'), '');
+  });
+
+  return result
+    .replace(/\s+on[a-z]+\s*=\s*("[^"]*"|'[^']*'|[^\s>]+)/gi, '')
+    .replace(
+      /\s+(href|src|action|formaction|xlink:href)\s*=\s*("[^"]*"|'[^']*'|[^\s>]+)/gi,
+      (match, _name: string, quoted: string) =>
+        isUnsafeUrl(quoted.replace(/^["']|["']$/g, '')) ? '' : match
+    );
+}
+
+function unwrapExternalClass(html: string): string {
+  // <div class="ExternalClass0A1B...">content</div>
+  const match = /^\s*<div class="?ExternalClass[0-9A-Fa-f]*"?>([\s\S]*)<\/div>\s*$/.exec(html);
+  return match ? match[1] : html;
+}
+
+function isUnsafeUrl(value: string): boolean {
+  // Browsers ignore control characters and spaces inside the scheme
+  const compact = value
+    .split('')
+    .filter(char => char.charCodeAt(0) > 32)
+    .join('');
+  return UNSAFE_URL.test(compact);
+}
@@ -0,0 +1,402 @@
+/**
+ * Generates list item mapper schemas from SharePoint field definitions and reports drift
+ * File: schemaGenerator.ts
+ */
+
+import { SPFI } from '@pnp/sp';
+import '@pnp/sp/fields';
+import '@pnp/sp/lists';
+import '@pnp/sp/webs';
+import { IFieldMapping, ListSchema } from './listItemMapper';
+import { SPCalculatedResultType, SPFieldKind } from './spTypes';
+
+/**
+ * Field definition as returned by `list.fields()` (or a saved export of it)
+ */
+export interface IFieldDefinition {
+  InternalName: string;
+  Title?: string;
+  TypeAsString: string;
+  Required?: boolean;
+  ReadOnlyField?: boolean;
+  Hidden?: boolean;
+  AllowMultipleValues?: boolean;
+  /** Multi-line text fields */
+  RichText?: boolean;
+  /** Calculated fields: FieldType of the result */
+  OutputType?: number;
+  /** Date fields: 0 = date only, 1 = date and time */
+  DisplayFormat?: number;
+}
+
+export interface ISchemaGeneratorOptions {
+  /** Name of the generated model interface (default: ListItem) */
+  modelName?: string;
+  /** Include hidden fields (default: false) */
+  includeHidden?: boolean;
+  /** Only generate these internal names */
+  includeFields?: string[];
+  /** Skip these internal names */
+  excludeFields?: string[];
+  /** Module the generated source imports from (default: ./utilities/listItemHelper) */
+  importPath?: string;
+}
+
+export interface ISkippedField {
+  internalName: string;
+  typeAsString: string;
+  reason: string;
+}
+
+export interface IGeneratedListSchema {
+  schema: ListSchema;
+  /** TypeScript source with the model interface and the matching schema */
+  source: string;
+  skippedFields: ISkippedField[];
+}
+
+export interface ISchemaDriftReport {
+  hasDrift: boolean;
+  /** Schema fields that no longer exist on the list */
+  missingFields: Array<{ property: string; internalName: string }>;
+  typeChanges: Array<{
+    property: string;
+    internalName: string;
+    expected: SPFieldKind;
+    actual: SPFieldKind | string;
+  }>;
+  requiredChanges: Array<{ property: string; internalName: string; required: boolean }>;
+  readOnlyChanges: Array<{ property: string; internalName: string; readOnly: boolean }>;
+  /** Visible list fields not in the schema */
+  newFields: Array<{ internalName: string; type: SPFieldKind }>;
+}
+
+const FIELD_TYPE_MAP: Record<string, SPFieldKind> = {
+  Text: 'text',
+  Note: 'note',
+  Choice: 'choice',
+  MultiChoice: 'multiChoice',
+  Number: 'number',
+  Integer: 'number',
+  Counter: 'number',
+  Currency: 'currency',
+  Boolean: 'boolean',
+  DateTime: 'date',
+  User: 'user',
+  UserMulti: 'userMulti',
+  Lookup: 'lookup',
+  LookupMulti: 'lookupMulti',
+  TaxonomyFieldType: 'taxonomy',
+  TaxonomyFieldTypeMulti: 'taxonomyMulti',
+  URL: 'url',
+  Location: 'location',
+  Thumbnail: 'image',
+  Calculated: 'calculated',
+};
+
+// SP.FieldType values used as calculated field output types
+const CALCULATED_RESULT_TYPES: Record<number, SPCalculatedResultType> = {
+  2: 'Text',
+  4: 'DateTime',
+  8: 'Boolean',
+  9: 'Number',
+  10: 'Currency',
+};
+
+// TypeScript type emitted for each field type; complex values use the spTypes interfaces
+const MODEL_TYPES: Record<SPFieldKind, string> = {
+  text: 'string',
+  note: 'string',
+  richText: 'string',
+  choice: 'string',
+  multiChoice: 'string[]',
+  number: 'number',
+  currency: 'number',
+  boolean: 'boolean',
+  date: 'Date | undefined',
+  user: 'IPrincipal | undefined',
+  userMulti: 'IPrincipal[]',
+  lookup: 'SPLookup | undefined',
+  lookupMulti: 'SPLookup[]',
+  taxonomy: 'SPTaxonomy | undefined',
+  taxonomyMulti: 'SPTaxonomy[]',
+  url: 'SPUrl | undefined',
+  location: 'SPLocation | undefined',
+  image: 'SPImage | undefined',
+  calculated: 'string | number | boolean | Date | undefined',
+  json: 'any',
+};
+
+const SP_TYPE_NAMES = ['IPrincipal', 'SPImage', 'SPLocation', 'SPLookup', 'SPTaxonomy', 'SPUrl'];
+
+/**
+ * Read a list's field definitions
+ * @param sp - Configured SPFI instance
+ * @param listName - List title
+ */
+export async function loadListFields(sp: SPFI, listName: string): Promise<IFieldDefinition[]> {
+  // No $select: AllowMultipleValues only exists on lookup fields
+  return sp.web.lists.getByTitle(listName).fields();
+}
+
+/**
+ * Read field definitions from a saved `list.fields()` response (plain array,
+ * `{ value: [...] }` or verbose `{ d: { results: [...] } }`), as an object or JSON text
+ */
+export function parseFieldsExport(fieldsExport: string | object): IFieldDefinition[] {
+  const data: any = typeof fieldsExport === 'string' ? JSON.parse(fieldsExport) : fieldsExport;
+  const fields = Array.isArray(data) ? data : data?.value ?? data?.d?.results;
+
+  if (!Array.isArray(fields)) {
+    throw new Error('Fields export must be an array of field definitions');
+  }
+  return fields.filter(field => field && field.InternalName && field.TypeAsString);
+}
+
+/**
+ * Get the mapper field type for a field definition, or undefined when it can't be mapped
+ */
+export function getFieldKind(field: IFieldDefinition): SPFieldKind | undefined {
+  if (field.TypeAsString === 'Lookup' && field.AllowMultipleValues) {
+    return 'lookupMulti';
+  }
+  if (field.TypeAsString === 'Note' && field.RichText) {
+    return 'richText';
+  }
+  return FIELD_TYPE_MAP[field.TypeAsString];
+}
+
+/**
+ * Generate a mapper schema and TypeScript source (model interface + schema) for a list
+ * @param fields - Field definitions from `loadListFields` or `parseFieldsExport`
+ * @param options - Model name and field filters
+ */
+export function generateListSchema(
+  fields: IFieldDefinition[],
+  options: ISchemaGeneratorOptions = {}
+): IGeneratedListSchema {
+  const modelName = options.modelName || 'ListItem';
+  const schema: ListSchema = {};
+  const skippedFields: ISkippedField[] = [];
+
+  fields
+    .filter(field => isIncluded(field, options))
+    .forEach(field => {
+      const type = getFieldKind(field);
+      if (!type) {
+        skippedFields.push({
+          internalName: field.InternalName,
+          typeAsString: field.TypeAsString,
+          reason: `Unsupported field type "${field.TypeAsString}"`,
+        });
+        return;
+      }
+
+      let property = toPropertyName(field.InternalName);
+      for (let suffix = 2; schema[property]; suffix++) {
+        property = `${toPropertyName(field.InternalName)}${suffix}`;
+      }
+      schema[property] = toMapping(field, type, fields);
+    });
+
+  const importPath = options.importPath || './utilities/listItemHelper';
+  return { schema, source: toSource(schema, modelName, importPath), skippedFields };
+}
+
+/**
+ * Generate a schema from a live list
+ * @param sp - Configured SPFI instance
+ * @param listName - List title
+ * @param options - Model name and field filters
+ */
+export async function generateListSchemaFromList(
+  sp: SPFI,
+  listName: string,
+  options: ISchemaGeneratorOptions = {}
+): Promise<IGeneratedListSchema> {
+  const fields = await loadListFields(sp, listName);
+  return generateListSchema(fields, options);
+}
+
+/**
+ * Compare a checked-in schema with the list's current field definitions
+ * @param schema - Schema used by the code
+ * @param fields - Current field definitions
+ */
+export function compareListSchema(
+  schema: ListSchema,
+  fields: IFieldDefinition[]
+): ISchemaDriftReport {
+  const report: ISchemaDriftReport = {
+    hasDrift: false,
+    missingFields: [],
+    typeChanges: [],
+    requiredChanges: [],
+    readOnlyChanges: [],
+    newFields: [],
+  };
+  const byName = new Map(
+    fields.map(field => [field.InternalName, field] as [string, IFieldDefinition])
+  );
+
+  Object.keys(schema).forEach(property => {
+    const mapping = schema[property];
+    const field = byName.get(mapping.internalName);
+    if (!field) {
+      report.missingFields.push({ property, internalName: mapping.internalName });
+      return;
+    }
+
+    const actual = getFieldKind(field);
+    if (actual !== mapping.type && !isSameTextType(actual, mapping.type)) {
+      report.typeChanges.push({
+        property,
+        internalName: mapping.internalName,
+        expected: mapping.type,
+        actual: actual ?? field.TypeAsString,
+      });
+    }
+    if (!!field.Required !== !!mapping.required) {
+      report.requiredChanges.push({
+        property,
+        internalName: mapping.internalName,
+        required: !!field.Required,
+      });
+    }
+    if (!!field.ReadOnlyField && !mapping.readOnly) {
+      report.readOnlyChanges.push({ property, internalName: mapping.internalName, readOnly: true });
+    }
+  });
+
+  const mapped = Object.keys(schema).map(property => schema[property].internalName);
+  fields
+    .filter(field => !field.Hidden && mapped.indexOf(field.InternalName) < 0)
+    .forEach(field => {
+      const type = getFieldKind(field);
+      if (type) {
+        report.newFields.push({ internalName: field.InternalName, type });
+      }
+    });
+
+  report.hasDrift =
+    report.missingFields.length > 0 ||
+    report.typeChanges.length > 0 ||
+    report.requiredChanges.length > 0 ||
+    report.readOnlyChanges.length > 0 ||
+    report.newFields.length > 0;
+  return report;
+}
+
+function isIncluded(field: IFieldDefinition, options: ISchemaGeneratorOptions): boolean {
+  if (options.includeFields) {
+    return options.includeFields.indexOf(field.InternalName) >= 0;
+  }
+  if (options.excludeFields && options.excludeFields.indexOf(field.InternalName) >= 0) {
+    return false;
+  }
+  return options.includeHidden || !field.Hidden;
+}
+
+function toMapping(
+  field: IFieldDefinition,
+  type: SPFieldKind,
+  fields: IFieldDefinition[]
+): IFieldMapping {
+  const mapping: IFieldMapping = { internalName: field.InternalName, type };
+  if (field.Required) {
+    mapping.required = true;
+  }
+  if (field.ReadOnlyField) {
+    mapping.readOnly = true;
+  }
+  if (type === 'date' && field.DisplayFormat === 0) {
+    mapping.dateOnly = true;
+  }
+  if (type === 'calculated') {
+    mapping.resultType = CALCULATED_RESULT_TYPES[field.OutputType ?? 2] || 'Text';
+  }
+  if (type === 'taxonomyMulti') {
+    // The hidden note field is titled "<Title>_0"; its internal name is often a generated one
+    const hidden = fields.find(
+      f => f.TypeAsString === 'Note' && f.Hidden && f.Title === `${field.Title}_0`
+    );
+    if (hidden && hidden.InternalName !== `${field.InternalName}_0`) {
+      mapping.hiddenFieldName = hidden.InternalName;
+    }
+  }
+  return mapping;
+}
+
+// Plain and rich multi-line text are read and written the same way apart from sanitizing
+function isSameTextType(actual: SPFieldKind | undefined, expected: SPFieldKind): boolean {
+  return (
+    (actual === 'note' && expected === 'richText') || (actual === 'richText' && expected === 'note')
+  );
+}
+
+/**
+ * Internal name to camelCase property: decodes `_x0020_`-style escapes and drops other symbols
+ */
+function toPropertyName(internalName: string): string {
+  const decoded = internalName.replace(/_x([0-9a-fA-F]{4})_/g, (_, code: string) =>
+    String.fromCharCode(parseInt(code, 16))
+  );
+  const words = decoded.split(/[^A-Za-z0-9]+/).filter(word => word.length > 0);
+  if (words.length === 0) {
+    return 'field';
+  }
+
+  const name = words
+    .map((word, index) =>
+      index === 0 ? lowerFirst(word) : word.charAt(0).toUpperCase() + word.slice(1)
+    )
+    .join('');
+  return /^[0-9]/.test(name) ? `field${name}` : name;
+}
+
+// "ID" -> "id", "DueDate" -> "dueDate", "URLField" -> "urlField"
+function lowerFirst(word: string): string {
+  const leadingCaps = /^[A-Z]+/.exec(word)?.[0] || '';
+  if (leadingCaps.length === word.length) {
+    return word.toLowerCase();
+  }
+  const lower = Math.max(leadingCaps.length - 1, 1);
+  return word.slice(0, lower).toLowerCase() + word.slice(lower);
+}
+
+function toSource(schema: ListSchema, modelName: string, importPath: string): string {
+  const properties = Object.keys(schema);
+  const schemaName = `${lowerFirst(modelName)}Schema`;
+  const usedTypes = SP_TYPE_NAMES.filter(typeName =>
+    properties.some(property => MODEL_TYPES[schema[property].type].indexOf(typeName) >= 0)
+  );
+
+  const lines: string[] = [];
+  lines.push(`import { defineListSchema } from '${importPath}';`);
+  if (usedTypes.length > 0) {
+    lines.push(`import type { ${usedTypes.join(', ')} } from '${importPath}';`);
+  }
+  lines.push('');
+  lines.push(`export interface ${modelName} {`);
+  properties.forEach(property => {
+    lines.push(`  ${property}: ${MODEL_TYPES[schema[property].type]};`);
+  });
+  lines.push('}');
+  lines.push('');
+  lines.push(`export const ${schemaName} = defineListSchema({`);
+  properties.forEach(property => {
+    const { internalName, type, required, readOnly, dateOnly, resultType, hiddenFieldName } =
+      schema[property];
+    const flags = [
+      required ? ', required: true' : '',
+      readOnly ? ', readOnly: true' : '',
+      dateOnly ? ', dateOnly: true' : '',
+      resultType ? `, resultType: '${resultType}'` : '',
+      hiddenFieldName ? `, hiddenFieldName: '${hiddenFieldName}'` : '',
+    ].join('');
+    lines.push(`  ${property}: { internalName: '${internalName}', type: '${type}'${flags} },`);
+  });
+  lines.push('});');
+  lines.push('');
+  return lines.join('\n');
+}
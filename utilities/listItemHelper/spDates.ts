@@ -0,0 +1,249 @@
+/**
+ * Timezone-aware date conversion between SharePoint and the browser
+ * File: spDates.ts
+ */
+
+import { SPFI } from '@pnp/sp';
+import '@pnp/sp/regional-settings/web';
+import '@pnp/sp/webs';
+
+/**
+ * Time zone of a SharePoint web (Site Settings > Regional settings)
+ */
+export interface ISPTimeZone {
+  /** SharePoint time zone ID */
+  id?: number;
+  /** e.g. "(UTC-05:00) Eastern Time (US and Canada)" */
+  description?: string;
+  /** IANA name used for conversions, including daylight saving time */
+  ianaName?: string;
+  /** Minutes to add to local time to get UTC; used without daylight saving when no IANA name */
+  bias: number;
+}
+
+/**
+ * Options for reading and writing date fields
+ */
+export interface ISPDateOptions {
+  /** Date-only field: values are calendar dates, returned as local midnight */
+  dateOnly?: boolean;
+  /** Time zone of the web; the browser's time zone when omitted */
+  timeZone?: ISPTimeZone;
+}
+
+/**
+ * Time zone information as returned by `web.regionalSettings.timeZone()`
+ */
+export interface ISPTimeZoneInfo {
+  Id?: number;
+  Description?: string;
+  Information?: { Bias: number; StandardBias?: number; DaylightBias?: number };
+}
+
+export const UTC_TIME_ZONE: ISPTimeZone = { description: 'UTC', ianaName: 'UTC', bias: 0 };
+
+// SharePoint time zone descriptions of common zones and their IANA names
+const IANA_BY_DESCRIPTION: Array<[RegExp, string]> = [
+  [/Eastern Time \(US/, 'America/New_York'],
+  [/Central Time \(US/, 'America/Chicago'],
+  [/Mountain Time \(US/, 'America/Denver'],
+  [/Pacific Time \(US/, 'America/Los_Angeles'],
+  [/Arizona/, 'America/Phoenix'],
+  [/Alaska/, 'America/Anchorage'],
+  [/Hawaii/, 'Pacific/Honolulu'],
+  [/Atlantic Time \(Canada\)/, 'America/Halifax'],
+  [/Newfoundland/, 'America/St_Johns'],
+  [/Saskatchewan/, 'America/Regina'],
+  [/Guadalajara, Mexico City/, 'America/Mexico_City'],
+  [/Bogota, Lima, Quito/, 'America/Bogota'],
+  [/Brasilia/, 'America/Sao_Paulo'],
+  [/Buenos Aires/, 'America/Argentina/Buenos_Aires'],
+  [/Santiago/, 'America/Santiago'],
+  [/Dublin, Edinburgh, Lisbon, London/, 'Europe/London'],
+  [/Amsterdam, Berlin/, 'Europe/Berlin'],
+  [/Brussels, Copenhagen, Madrid, Paris/, 'Europe/Paris'],
+  [/Belgrade, Bratislava, Budapest/, 'Europe/Budapest'],
+  [/Sarajevo, Skopje, Warsaw, Zagreb/, 'Europe/Warsaw'],
+  [/Athens, Bucharest/, 'Europe/Bucharest'],
+  [/Helsinki, Kyiv/, 'Europe/Helsinki'],
+  [/Istanbul/, 'Europe/Istanbul'],
+  [/Jerusalem/, 'Asia/Jerusalem'],
+  [/Cairo/, 'Africa/Cairo'],
+  [/Harare, Pretoria/, 'Africa/Johannesburg'],
+  [/Moscow, St\. Petersburg/, 'Europe/Moscow'],
+  [/Abu Dhabi, Muscat/, 'Asia/Dubai'],
+  [/Chennai, Kolkata, Mumbai, New Delhi/, 'Asia/Kolkata'],
+  [/Bangkok, Hanoi, Jakarta/, 'Asia/Bangkok'],
+  [/Beijing, Chongqing, Hong Kong/, 'Asia/Shanghai'],
+  [/Kuala Lumpur, Singapore/, 'Asia/Singapore'],
+  [/Osaka, Sapporo, Tokyo/, 'Asia/Tokyo'],
+  [/Seoul/, 'Asia/Seoul'],
+  [/Brisbane/, 'Australia/Brisbane'],
+  [/Canberra, Melbourne, Sydney/, 'Australia/Sydney'],
+  [/Auckland, Wellington/, 'Pacific/Auckland'],
+  [/Coordinated Universal Time$/, 'UTC'],
+];
+
+/**
+ * Load the web's time zone from its regional settings
+ * @param sp - Configured SPFI instance
+ * @param ianaName - IANA name to use instead of the one derived from the description
+ */
+export async function loadSiteTimeZone(sp: SPFI, ianaName?: string): Promise<ISPTimeZone> {
+  const info: ISPTimeZoneInfo = await sp.web.regionalSettings.timeZone();
+  return createSPTimeZone(info, ianaName);
+}
+
+/**
+ * Create a time zone from regional settings information, e.g. a saved response
+ * @param info - `web.regionalSettings.timeZone()` response
+ * @param ianaName - IANA name to use instead of the one derived from the description
+ */
+export function createSPTimeZone(info: ISPTimeZoneInfo, ianaName?: string): ISPTimeZone {
+  const description = info.Description || '';
+  const match = IANA_BY_DESCRIPTION.find(([pattern]) => pattern.test(description));
+
+  return {
+    id: info.Id,
+    description: info.Description,
+    ianaName: ianaName || match?.[1],
+    bias: info.Information
+      ? info.Information.Bias + (info.Information.StandardBias || 0)
+      : parseDescriptionBias(description),
+  };
+}
+
+/**
+ * Time zone of the current web from the SPFx page context, without a request
+ * @param legacyPageContext - `pageContext.legacyPageContext`, which carries `webTimeZoneData`
+ */
+export function getPageContextTimeZone(legacyPageContext: any): ISPTimeZone | undefined {
+  const data = legacyPageContext?.webTimeZoneData;
+  if (!data || typeof data.Bias !== 'number') {
+    return undefined;
+  }
+
+  return createSPTimeZone({
+    Id: data.Id,
+    Description: data.Description,
+    Information: {
+      Bias: data.Bias,
+      StandardBias: data.StandardBias,
+      DaylightBias: data.DaylightBias,
+    },
+  });
+}
+
+/**
+ * Minutes between the time zone's local time and UTC at the given instant
+ * (e.g. -240 for New York in summer); the browser's offset without a time zone
+ */
+export function getTimeZoneOffset(date: Date, timeZone?: ISPTimeZone): number {
+  if (!timeZone) {
+    return -date.getTimezoneOffset();
+  }
+  if (timeZone.ianaName) {
+    const offset = getIanaOffset(date, timeZone.ianaName);
+    if (offset !== undefined) {
+      return offset;
+    }
+  }
+  return -timeZone.bias;
+}
+
+/**
+ * Wall-clock time of an instant in the time zone, as a Date whose UTC fields hold it
+ */
+export function toZonedTime(date: Date, timeZone?: ISPTimeZone): Date {
+  return new Date(date.getTime() + getTimeZoneOffset(date, timeZone) * 60000);
+}
+
+/**
+ * Read a date-only value: the calendar date in the web's time zone, as local midnight
+ * @param value - ISO date-time, "yyyy-MM-dd" or Date
+ * @param timeZone - Time zone of the web
+ */
+export function fromSPDateOnly(value: string | Date, timeZone?: ISPTimeZone): Date | undefined {
+  if (typeof value === 'string') {
+    // A plain calendar date has no time zone to convert from
+    const plain = /^(\d{4})-(\d{2})-(\d{2})$/.exec(value.trim());
+    if (plain) {
+      return new Date(Number(plain[1]), Number(plain[2]) - 1, Number(plain[3]));
+    }
+  }
+
+  const instant = value instanceof Date ? value : new Date(value);
+  if (isNaN(instant.getTime())) {
+    return undefined;
+  }
+
+  const zoned = toZonedTime(instant, timeZone);
+  return new Date(zoned.getUTCFullYear(), zoned.getUTCMonth(), zoned.getUTCDate());
+}
+
+/**
+ * Write a date-only value: midnight of the date's local calendar day in the web's time zone,
+ * as an ISO string
+ */
+export function toSPDateOnly(date: Date, timeZone?: ISPTimeZone): string {
+  const wallClock = Date.UTC(date.getFullYear(), date.getMonth(), date.getDate());
+  // The offset depends on the instant; a second pass settles daylight saving changes
+  let instant = wallClock - getTimeZoneOffset(new Date(wallClock), timeZone) * 60000;
+  instant = wallClock - getTimeZoneOffset(new Date(instant), timeZone) * 60000;
+  return new Date(instant).toISOString();
+}
+
+/**
+ * Format a date for the validate methods, which parse values in the web's time zone:
+ * "M/d/yyyy" for date-only fields, otherwise "M/d/yyyy h:mm AM" in the web's time zone
+ */
+export function formatSPDateForValidate(date: Date, options: ISPDateOptions = {}): string {
+  if (options.dateOnly) {
+    return `${date.getMonth() + 1}/${date.getDate()}/${date.getFullYear()}`;
+  }
+
+  const zoned = toZonedTime(date, options.timeZone);
+  const hours = zoned.getUTCHours();
+  const minutes = `0${zoned.getUTCMinutes()}`.slice(-2);
+  return (
+    `${zoned.getUTCMonth() + 1}/${zoned.getUTCDate()}/${zoned.getUTCFullYear()} ` +
+    `${hours % 12 || 12}:${minutes} ${hours < 12 ? 'AM' : 'PM'}`
+  );
+}
+
+function getIanaOffset(date: Date, ianaName: string): number | undefined {
+  try {
+    // e.g. "05/10/2024, 20:15:00" (some engines print midnight as 24:00)
+    const text = date.toLocaleString('en-US', {
+      timeZone: ianaName,
+      hour12: false,
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+    });
+    const parts = /(\d+)\/(\d+)\/(\d+),?\s+(\d+):(\d+):(\d+)/.exec(text);
+    if (!parts) {
+      return undefined;
+    }
+
+    const [month, day, year, hour, minute, second] = parts.slice(1).map(Number);
+    const wallClock = Date.UTC(year, month - 1, day, hour % 24, minute, second);
+    return Math.round((wallClock - Math.floor(date.getTime() / 1000) * 1000) / 60000);
+  } catch {
+    // Unknown IANA name
+    return undefined;
+  }
+}
+
+// "(UTC-05:00) Eastern Time" -> 300
+function parseDescriptionBias(description: string): number {
+  const match = /UTC([+-])(\d{2}):(\d{2})/.exec(description);
+  if (!match) {
+    return 0;
+  }
+  const minutes = Number(match[2]) * 60 + Number(match[3]);
+  return match[1] === '+' ? -minutes : minutes;
+}
@@ -3,7 +3,17 @@
  * File: spExtractor.ts
  */
 
-import { IPrincipal, SPImage, SPLocation, SPLookup, SPTaxonomy, SPUrl } from './spTypes';
+import { sanitizeRichText } from './richText';
+import { fromSPDateOnly, ISPDateOptions } from './spDates';
+import {
+  IPrincipal,
+  SPCalculatedResultType,
+  SPImage,
+  SPLocation,
+  SPLookup,
+  SPTaxonomy,
+  SPUrl,
+} from './spTypes';
 
 export function createSPExtractor(item: any) {
   return {
@@ -35,10 +45,15 @@ export function createSPExtractor(item: any) {
       return Boolean(value);
     },
 
-    date: (fieldName: string, defaultValue?: Date) => {
+    /**
+     * @param options - `dateOnly` returns the calendar date in the web's `timeZone` as local
+     * midnight, so date-only values don't shift a day for users in other time zones
+     */
+    date: (fieldName: string, defaultValue?: Date, options?: ISPDateOptions) => {
       if (!item || !fieldName) return defaultValue;
       const value = item[fieldName];
       if (value === null || value === undefined || value === '') return defaultValue;
+      if (options?.dateOnly) return fromSPDateOnly(value, options.timeZone) ?? defaultValue;
       if (value instanceof Date) return value;
       const dateValue = new Date(value);
       return isNaN(dateValue.getTime()) ? defaultValue : dateValue;
@@ -52,7 +67,7 @@ export function createSPExtractor(item: any) {
       if (!userObj || typeof userObj !== 'object') return undefined;
 
       return {
-        id: (userObj.ID || userObj.id || '').toString(),
+        id: (readId(userObj) ?? '').toString(),
         email: userObj.EMail || userObj.email || undefined,
         title: userObj.Title || userObj.title || userObj.text || undefined,
         value: userObj.Name || userObj.loginName || undefined,
@@ -77,7 +92,7 @@ export function createSPExtractor(item: any) {
 
       return users
         .map(userObj => ({
-          id: (userObj.ID || userObj.id || '').toString(),
+          id: (readId(userObj) ?? '').toString(),
           email: userObj.EMail || userObj.email || undefined,
           title: userObj.Title || userObj.title || userObj.text || undefined,
           value: userObj.Name || userObj.loginName || undefined,
@@ -93,12 +108,13 @@ export function createSPExtractor(item: any) {
     lookup: (fieldName: string): SPLookup | undefined => {
       if (!item || !fieldName) return undefined;
       const lookupObj = item[fieldName];
-      if (!lookupObj || typeof lookupObj !== 'object') return undefined;
+      if (!lookupObj || typeof lookupObj !== 'object' || readId(lookupObj) === undefined) {
+        // Not expanded: only <FieldName>Id was selected
+        const id = toNumber(item[`${fieldName}Id`]);
+        return id !== undefined ? { id } : undefined;
+      }
 
-      return {
-        id: lookupObj.ID || lookupObj.id || undefined,
-        title: lookupObj.Title || lookupObj.title || undefined,
-      };
+      return toLookup(lookupObj);
     },
 
     lookupMulti: (fieldName: string): SPLookup[] => {
@@ -115,14 +131,15 @@ export function createSPExtractor(item: any) {
         lookups = lookups.results;
       }
 
-      if (!Array.isArray(lookups)) return [];
+      if (!Array.isArray(lookups)) {
+        // Not expanded: only <FieldName>Id was selected
+        const ids = toArray(item[`${fieldName}Id`]);
+        return ids
+          .map(id => ({ id: toNumber(id) }))
+          .filter(lookup => lookup.id !== undefined);
+      }
 
-      return lookups
-        .map(lookupObj => ({
-          id: lookupObj.ID || lookupObj.id || undefined,
-          title: lookupObj.Title || lookupObj.title || undefined,
-        }))
-        .filter(lookup => lookup.id !== undefined);
+      return lookups.map(toLookup).filter(lookup => lookup.id !== undefined);
     },
 
     taxonomy: (fieldName: string): SPTaxonomy | undefined => {
@@ -137,10 +154,21 @@ export function createSPExtractor(item: any) {
       };
     },
 
-    taxonomyMulti: (fieldName: string): SPTaxonomy[] => {
+    /**
+     * @param hiddenFieldName - Hidden note field, read when the main field wasn't returned
+     */
+    taxonomyMulti: (fieldName: string, hiddenFieldName?: string): SPTaxonomy[] => {
       if (!item || !fieldName) return [];
       let taxonomies = item[fieldName];
 
+      if (
+        hiddenFieldName &&
+        toArray(taxonomies).length === 0 &&
+        typeof item[hiddenFieldName] === 'string'
+      ) {
+        return parseTaxonomyNote(item[hiddenFieldName]);
+      }
+
       // Handle results array format (PnP.js)
       if (
         taxonomies &&
@@ -210,8 +238,9 @@ export function createSPExtractor(item: any) {
 
     location: (fieldName: string): SPLocation | undefined => {
       if (!item || !fieldName) return undefined;
-      const locationObj = item[fieldName];
-      if (!locationObj || typeof locationObj !== 'object') return undefined;
+      // Returned as a JSON string by the REST API
+      const locationObj = parseJsonObject(item[fieldName]);
+      if (!locationObj) return undefined;
 
       return {
         displayName: locationObj.DisplayName || locationObj.displayName || undefined,
@@ -227,8 +256,9 @@ export function createSPExtractor(item: any) {
 
     image: (fieldName: string): SPImage | undefined => {
       if (!item || !fieldName) return undefined;
-      const imageObj = item[fieldName];
-      if (!imageObj || typeof imageObj !== 'object') return undefined;
+      // Image (thumbnail) columns are returned as a JSON string by the REST API
+      const imageObj = parseJsonObject(item[fieldName]);
+      if (!imageObj) return undefined;
 
       return {
         serverUrl: imageObj.ServerUrl || imageObj.serverUrl || undefined,
@@ -238,15 +268,59 @@ export function createSPExtractor(item: any) {
       };
     },
 
-    // Currency field (returns number but could be enhanced for currency object)
-    currency: (fieldName: string, defaultValue = 0) => {
+    /**
+     * Currency field; formatted strings (e.g. from FieldValuesAsText) are parsed with the locale
+     * @param locale - Locale of the formatted value (e.g. 'de-DE'); defaults to the browser's
+     */
+    currency: (fieldName: string, defaultValue = 0, locale?: string) => {
       if (!item || !fieldName) return defaultValue;
       const value = item[fieldName];
       if (value === null || value === undefined || value === '') return defaultValue;
-      const numValue = Number(value);
+      const numValue = typeof value === 'string' ? parseLocaleNumber(value, locale) : Number(value);
       return isNaN(numValue) ? defaultValue : numValue;
     },
 
+    /**
+     * Calculated field converted to its result type. Handles plain values and the
+     * "float;#12.5" form returned by some list data APIs.
+     */
+    calculated: (fieldName: string, resultType: SPCalculatedResultType = 'Text') => {
+      if (!item || !fieldName) return undefined;
+      let value = item[fieldName];
+      if (value === null || value === undefined || value === '') return undefined;
+
+      if (typeof value === 'string') {
+        const typed = /^(string|float|datetime|boolean|error);#([\s\S]*)$/.exec(value);
+        if (typed) {
+          if (typed[1] === 'error') return undefined;
+          value = typed[2];
+        }
+      }
+
+      switch (resultType) {
+        case 'Number':
+        case 'Currency': {
+          const numValue = typeof value === 'number' ? value : parseFloat(value);
+          return isNaN(numValue) ? undefined : numValue;
+        }
+        case 'DateTime': {
+          const dateValue = value instanceof Date ? value : new Date(value);
+          return isNaN(dateValue.getTime()) ? undefined : dateValue;
+        }
+        case 'Boolean':
+          return value === true || value === 1 || /^(1|true|yes)$/i.test(String(value));
+        default:
+          return String(value);
+      }
+    },
+
+    // Enhanced rich text - scripts and SharePoint's ExternalClass wrapper removed
+    richText: (fieldName: string, defaultValue = '') => {
+      if (!item || !fieldName) return defaultValue;
+      const value = item[fieldName];
+      return value !== null && value !== undefined ? sanitizeRichText(String(value)) : defaultValue;
+    },
+
     // Geolocation field
     geolocation: (fieldName: string) => {
       if (!item || !fieldName) return undefined;
@@ -295,3 +369,78 @@ export function createSPExtractor(item: any) {
     raw: item,
   };
 }
+
+// Nometadata responses use Id (or ID), verbose ones ID
+function readId(obj: any): any {
+  return obj.ID ?? obj.Id ?? obj.id ?? undefined;
+}
+
+const LOOKUP_KEYS = ['__metadata', '__deferred', 'ID', 'Id', 'id', 'Title', 'title'];
+
+function toLookup(lookupObj: any): SPLookup {
+  const lookup: SPLookup = {
+    id: toNumber(readId(lookupObj)),
+    title: lookupObj.Title || lookupObj.title || undefined,
+  };
+
+  // Extra projected fields, e.g. $select=Project/Code
+  const extraKeys = Object.keys(lookupObj).filter(key => LOOKUP_KEYS.indexOf(key) < 0);
+  if (extraKeys.length > 0) {
+    lookup.values = {};
+    extraKeys.forEach(key => {
+      lookup.values![key] = lookupObj[key];
+    });
+  }
+  return lookup;
+}
+
+function toNumber(value: any): number | undefined {
+  if (value === null || value === undefined || value === '') return undefined;
+  const numValue = typeof value === 'number' ? value : parseInt(value, 10);
+  return isNaN(numValue) ? undefined : numValue;
+}
+
+// Arrays come as plain arrays (nometadata) or { results: [...] } (verbose)
+function toArray(value: any): any[] {
+  if (Array.isArray(value)) return value;
+  if (value && Array.isArray(value.results)) return value.results;
+  return [];
+}
+
+function parseJsonObject(value: any): any {
+  if (!value) return undefined;
+  if (typeof value === 'object') return value;
+  if (typeof value !== 'string') return undefined;
+  try {
+    const parsed = JSON.parse(value);
+    return parsed && typeof parsed === 'object' ? parsed : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+// Hidden taxonomy note field: "Label|TermGuid;Label|TermGuid"
+function parseTaxonomyNote(note: string): SPTaxonomy[] {
+  return note
+    .split(';')
+    .map(term => term.replace(/^-?\d+;#/, ''))
+    .filter(term => term.indexOf('|') > 0)
+    .map(term => ({
+      label: term.substring(0, term.lastIndexOf('|')),
+      termId: term.substring(term.lastIndexOf('|') + 1),
+    }));
+}
+
+function parseLocaleNumber(value: string, locale?: string): number {
+  if (/^-?\d+(\.\d+)?$/.test(value.trim())) return Number(value);
+
+  // Separators of the locale, e.g. "1.234,5" for de-DE
+  const sample = (1234.5).toLocaleString(locale);
+  const decimal = sample.charAt(sample.length - 2);
+  const normalized = value
+    .split('')
+    .filter(char => /[0-9-]/.test(char) || char === decimal)
+    .join('')
+    .replace(decimal, '.');
+  return normalized === '' ? NaN : Number(normalized);
+}
@@ -0,0 +1,70 @@
+/**
+ * Extractor and updater round trips against recorded REST payloads
+ * File: spRoundTrip.test.ts
+ */
+
+import { REST_PAYLOAD_FIXTURES } from './__fixtures__/restPayloads';
+import { sanitizeRichText } from './richText';
+import { createSPUpdater } from './spUpdater';
+
+describe('SharePoint REST payload round trips', () => {
+  REST_PAYLOAD_FIXTURES.forEach(fixture => {
+    describe(fixture.name, () => {
+      it('reads the value from the verbose payload', () => {
+        expect(fixture.read(fixture.verbose.d)).toEqual(fixture.value);
+      });
+
+      it('reads the value from the nometadata payload', () => {
+        expect(fixture.read(fixture.nometadata)).toEqual(fixture.value);
+      });
+
+      if (fixture.updates) {
+        // The payloads were recorded after writing `updates`, so writing the value read from
+        // them must reproduce `updates`: extract → update → extract gives the same value
+        it('writes the value read from either payload back unchanged', () => {
+          [fixture.verbose.d, fixture.nometadata].forEach(item => {
+            const updater = createSPUpdater().set(
+              fixture.field,
+              fixture.read(item),
+              fixture.options
+            );
+            expect(updater.getUpdates()).toEqual(fixture.updates);
+          });
+        });
+      } else {
+        it('rejects writes to the read-only field', () => {
+          expect(() =>
+            createSPUpdater().set(fixture.field, fixture.value, fixture.options)
+          ).toThrow('read-only');
+        });
+      }
+
+      if (fixture.validateValue !== undefined) {
+        it('formats the value for the validate methods', () => {
+          const updater = createSPUpdater().set(fixture.field, fixture.value, fixture.options);
+          expect(updater.getValidateUpdates()).toEqual([
+            { FieldName: fixture.field, FieldValue: fixture.validateValue },
+          ]);
+        });
+      }
+    });
+  });
+});
+
+describe('sanitizeRichText', () => {
+  it('removes scripts, handlers and script URLs', () => {
+    expect(
+      sanitizeRichText(
+        '<p onmouseover="steal()">Hi <a href="javascript:steal()">there</a></p>' +
+          '<script>steal()</script>'
+      )
+    ).toBe('<p>Hi <a>there</a></p>');
+  });
+
+  it('gives the same result when sanitizing twice', () => {
+    const once = sanitizeRichText(
+      '<div class="ExternalClass1A2B"><p onclick="x()">Scope</p><iframe src="x"></iframe></div>'
+    );
+    expect(sanitizeRichText(once)).toBe(once);
+  });
+});
@@ -3,6 +3,8 @@
  * File: spTypes.ts
  */
 
+import type { ISPDateOptions } from './spDates';
+
 /**
  * SharePoint user/principal interface
  * Used for both input (updates) and output (extraction) of Person/Group fields
@@ -26,6 +28,8 @@ export interface IPrincipal {
 export interface SPLookup {
   id?: number;
   title?: string;
+  /** Other projected fields of the lookup list (e.g. Project/Code) */
+  values?: Record<string, any>;
 }
 
 /**
@@ -74,3 +78,48 @@ export interface IListItemFormUpdateValue {
   FieldName: string;
   FieldValue: string;
 }
+
+/**
+ * Result type of a calculated field
+ */
+export type SPCalculatedResultType = 'Text' | 'Number' | 'Currency' | 'DateTime' | 'Boolean';
+
+/**
+ * Value type for each supported SharePoint field type
+ */
+export interface ISPFieldValueTypes {
+  text: string;
+  note: string;
+  richText: string;
+  choice: string;
+  multiChoice: string[];
+  number: number;
+  currency: number;
+  boolean: boolean;
+  date: Date | undefined;
+  user: IPrincipal | undefined;
+  userMulti: IPrincipal[];
+  lookup: SPLookup | undefined;
+  lookupMulti: SPLookup[];
+  taxonomy: SPTaxonomy | undefined;
+  taxonomyMulti: SPTaxonomy[];
+  url: SPUrl | undefined;
+  location: SPLocation | undefined;
+  image: SPImage | undefined;
+  calculated: string | number | boolean | Date | undefined;
+  json: any;
+}
+
+export type SPFieldKind = keyof ISPFieldValueTypes;
+
+/**
+ * Options for createSPUpdater().set() when the field type can't be told from the value
+ */
+export interface ISPFieldUpdateOptions extends ISPDateOptions {
+  /** Field type; needed for empty values, multi-choice, rich text and taxonomy multi fields */
+  type?: SPFieldKind;
+  /** Hidden note field of a multi-value taxonomy field (default: <fieldName>_0) */
+  hiddenFieldName?: string;
+  /** Locale of the web for number and currency values in validate updates (e.g. 'de-DE') */
+  locale?: string;
+}
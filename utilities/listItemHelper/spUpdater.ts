@@ -3,26 +3,34 @@
  * File: spUpdater.ts
  */
 
-import { IPrincipal, IListItemFormUpdateValue } from './spTypes';
+import { sanitizeRichText } from './richText';
+import { formatSPDateForValidate, toSPDateOnly } from './spDates';
+import { IListItemFormUpdateValue, IPrincipal, ISPFieldUpdateOptions } from './spTypes';
 
 export function createSPUpdater() {
-  const fieldUpdates: Array<{ fieldName: string; value: any }> = [];
+  const fieldUpdates: Array<{ fieldName: string; value: any; options?: ISPFieldUpdateOptions }> =
+    [];
 
   return {
     /**
      * Set a field value - auto-detects SharePoint field type from JavaScript value
      * @param fieldName - Internal field name
      * @param value - Value to set (string, number, boolean, Date, object, array)
+     * @param options - Field type (skips auto-detection), hidden taxonomy field and locale
      */
-    set: function (fieldName: string, value: any) {
+    set: function (fieldName: string, value: any, options?: ISPFieldUpdateOptions) {
       if (!fieldName) {
         throw new Error('Field name is required');
       }
+      if (options?.type === 'calculated') {
+        throw new Error(`Calculated field "${fieldName}" is read-only`);
+      }
 
       // Store the update
       fieldUpdates.push({
         fieldName,
         value,
+        options,
       });
 
       return this; // Enable chaining
@@ -36,9 +44,11 @@ export function createSPUpdater() {
       const updates: Record<string, any> = {};
 
       for (const update of fieldUpdates) {
-        const { fieldName, value } = update;
+        const { fieldName, value, options } = update;
 
-        if (value === null || value === undefined) {
+        if (options?.type) {
+          setTypedUpdate(updates, fieldName, value, options);
+        } else if (value === null || value === undefined) {
           updates[fieldName] = null;
         } else if (typeof value === 'string') {
           // Single line text, multiple lines text, choice
@@ -163,11 +173,13 @@ export function createSPUpdater() {
      */
     getValidateUpdates: function (): IListItemFormUpdateValue[] {
       return fieldUpdates.map(update => {
-        const { fieldName, value } = update;
+        const { fieldName, value, options } = update;
 
         return {
           FieldName: fieldName,
-          FieldValue: formatValueForValidate(value),
+          FieldValue: options?.type
+            ? formatTypedValueForValidate(value, options)
+            : formatValueForValidate(value),
         };
       });
     },
@@ -300,3 +312,182 @@ function formatValueForValidate(value: any): string {
   // Fallback
   return String(value);
 }
+
+/**
+ * Format a value for PnP.js direct methods using the declared field type
+ */
+function setTypedUpdate(
+  updates: Record<string, any>,
+  fieldName: string,
+  value: any,
+  options: ISPFieldUpdateOptions
+): void {
+  const isEmpty = value === null || value === undefined || value === '';
+
+  switch (options.type) {
+    case 'user':
+    case 'lookup':
+      updates[`${fieldName}Id`] = isEmpty ? null : toItemId(value);
+      break;
+
+    case 'userMulti':
+    case 'lookupMulti':
+      updates[`${fieldName}Id`] = isEmpty ? [] : toArray(value).map(toItemId);
+      break;
+
+    case 'multiChoice':
+      updates[fieldName] = isEmpty ? [] : toArray(value);
+      break;
+
+    case 'date':
+      // Date-only fields store midnight in the web's time zone
+      updates[fieldName] = isEmpty
+        ? null
+        : options.dateOnly
+        ? toSPDateOnly(toDate(value), options.timeZone)
+        : toDate(value).toISOString();
+      break;
+
+    case 'number':
+    case 'currency':
+      updates[fieldName] = isEmpty ? null : Number(value);
+      break;
+
+    case 'taxonomy':
+      updates[fieldName] = isEmpty
+        ? null
+        : { Label: value.label, TermGuid: value.termId, WssId: value.wssId ?? -1 };
+      break;
+
+    case 'taxonomyMulti':
+      // Multi-value taxonomy is written through its hidden note field only
+      updates[options.hiddenFieldName || `${fieldName}_0`] = toArray(value)
+        .map(term => `-1;#${term.label}|${term.termId}`)
+        .join(';#');
+      break;
+
+    case 'url':
+      updates[fieldName] = isEmpty
+        ? null
+        : { Description: value.description || '', Url: value.url };
+      break;
+
+    case 'location':
+      updates[fieldName] = isEmpty ? null : formatLocation(value);
+      break;
+
+    case 'image':
+      updates[fieldName] = isEmpty ? null : formatImage(value);
+      break;
+
+    case 'richText':
+      updates[fieldName] = isEmpty ? '' : sanitizeRichText(String(value));
+      break;
+
+    case 'json':
+      updates[fieldName] =
+        typeof value === 'object' && value !== null ? JSON.stringify(value) : value ?? null;
+      break;
+
+    default:
+      updates[fieldName] = value ?? null;
+  }
+}
+
+/**
+ * Format a value for PnP.js validate methods using the declared field type
+ */
+function formatTypedValueForValidate(value: any, options: ISPFieldUpdateOptions): string {
+  if (value === null || value === undefined || value === '') {
+    return '';
+  }
+
+  switch (options.type) {
+    case 'user':
+    case 'userMulti':
+      return JSON.stringify(
+        toArray(value).map((person: IPrincipal) => ({
+          Key: person.value || person.loginName || person.email,
+        }))
+      );
+
+    case 'lookup':
+      return String(toItemId(value));
+
+    case 'lookupMulti':
+      return toArray(value)
+        .map(lookup => `${toItemId(lookup)};#`)
+        .join(';#');
+
+    case 'multiChoice':
+      return toArray(value).join(';#');
+
+    case 'taxonomy':
+    case 'taxonomyMulti':
+      return toArray(value)
+        .map(term => `${term.label}|${term.termId};`)
+        .join('');
+
+    case 'number':
+    case 'currency':
+      // Validate methods parse numbers with the web's regional settings
+      return options.locale
+        ? Number(value).toLocaleString(options.locale, {
+            useGrouping: false,
+            maximumFractionDigits: 20,
+          })
+        : String(value);
+
+    case 'date':
+      return formatSPDateForValidate(toDate(value), options);
+
+    case 'location':
+      return formatLocation(value);
+
+    case 'image':
+      return formatImage(value);
+
+    case 'richText':
+      return sanitizeRichText(String(value));
+
+    default:
+      return formatValueForValidate(value);
+  }
+}
+
+function formatLocation(value: any): string {
+  return JSON.stringify({
+    DisplayName: value.displayName,
+    LocationUri: value.locationUri,
+    Coordinates: {
+      Latitude: value.coordinates?.latitude ?? value.latitude,
+      Longitude: value.coordinates?.longitude ?? value.longitude,
+    },
+  });
+}
+
+function formatImage(value: any): string {
+  return JSON.stringify({
+    type: 'thumbnail',
+    fileName: value.fileName,
+    serverUrl: value.serverUrl,
+    serverRelativeUrl: value.serverRelativeUrl || value.serverUrl,
+    ...(value.id ? { id: value.id } : {}),
+  });
+}
+
+// Users and lookups can be given as an ID, an object with id, or an IPrincipal
+function toItemId(value: any): number {
+  const id = typeof value === 'object' && value !== null ? value.id : value;
+  return typeof id === 'number' ? id : parseInt(id, 10);
+}
+
+function toDate(value: any): Date {
+  return value instanceof Date ? value : new Date(value);
+}
+
+function toArray(value: any): any[] {
+  if (Array.isArray(value)) return value;
+  if (value && Array.isArray(value.results)) return value.results;
+  return value === null || value === undefined ? [] : [value];
+}
@@ -0,0 +1,188 @@
+import { isEqual } from '@microsoft/sp-lodash-subset';
+import { SPFI } from '@pnp/sp';
+import '@pnp/sp/items';
+import { IList } from '@pnp/sp/lists';
+import '@pnp/sp/lists';
+import '@pnp/sp/webs';
+import { createListItemMapper, ListSchema } from '../listItemHelper';
+import {
+  IFieldChange,
+  IVersionAuthor,
+  IVersionHistoryConfig,
+  ItemVersion,
+  VersionDiff,
+} from './types';
+import { formatFieldValue, normalizeVersionValue, readVersionField, SYSTEM_FIELDS } from './utils';
+
+const GUID_PATTERN = /^[{]?[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}[}]?$/i;
+
+/**
+ * Loads an item's version history and compares versions field by field
+ */
+export class VersionHistoryService {
+  private sp: SPFI;
+  private config: IVersionHistoryConfig;
+
+  constructor(sp: SPFI, config: IVersionHistoryConfig = {}) {
+    this.sp = sp;
+    this.config = config;
+  }
+
+  /**
+   * Get every version of an item, oldest first, with values extracted through the schema
+   * @param list - List title or ID
+   * @param itemId - Item ID
+   * @param schema - Fields to extract
+   */
+  async getVersions<S extends ListSchema>(
+    list: string,
+    itemId: number,
+    schema: S
+  ): Promise<ItemVersion<S>[]> {
+    // The versions endpoint doesn't support $select/$expand
+    const versions: Record<string, any>[] = await this.getList(list)
+      .items.getById(itemId)
+      .versions();
+
+    const mapper = createListItemMapper(schema, { timeZone: this.config.timeZone });
+    return versions
+      .map(raw => {
+        const item: Record<string, any> = {};
+        Object.keys(schema).forEach(property => {
+          const { internalName } = schema[property];
+          item[internalName] = normalizeVersionValue(readVersionField(raw, internalName));
+        });
+
+        return {
+          versionId: raw.VersionId,
+          versionLabel: raw.VersionLabel,
+          isCurrentVersion: !!raw.IsCurrentVersion,
+          created: new Date(raw.Created),
+          createdBy: toAuthor(raw.Editor),
+          values: mapper.extract(item),
+          raw,
+        };
+      })
+      .sort((a, b) => a.versionId - b.versionId);
+  }
+
+  /**
+   * Compare two versions; without `fromVersion` every field with a value is reported
+   * @param schema - Schema the versions were loaded with
+   */
+  diffVersions<S extends ListSchema>(
+    schema: S,
+    fromVersion: ItemVersion<S> | undefined,
+    toVersion: ItemVersion<S>
+  ): VersionDiff<S> {
+    const ignored = this.config.ignoreFields ?? SYSTEM_FIELDS;
+    const changes: IFieldChange[] = [];
+
+    Object.keys(schema).forEach(property => {
+      const mapping = schema[property];
+      if (ignored.indexOf(mapping.internalName) >= 0) {
+        return;
+      }
+
+      const oldValue = fromVersion ? (fromVersion.values as any)[property] : undefined;
+      const newValue = (toVersion.values as any)[property];
+      const oldText = formatFieldValue(mapping, oldValue);
+      const newText = formatFieldValue(mapping, newValue);
+
+      // Empty values ("", [], undefined) are the same for the reader
+      const changed = fromVersion
+        ? !isEqual(oldValue, newValue) && !isEmpty(oldValue, newValue)
+        : newText !== '';
+      if (changed) {
+        changes.push({
+          property,
+          internalName: mapping.internalName,
+          type: mapping.type,
+          oldValue,
+          newValue,
+          oldText,
+          newText,
+        });
+      }
+    });
+
+    return {
+      fromVersion,
+      toVersion,
+      changedBy: toVersion.createdBy,
+      changedOn: toVersion.created,
+      changes,
+    };
+  }
+
+  /**
+   * Get each version's changes compared with the version before it, oldest first
+   * @param list - List title or ID
+   * @param itemId - Item ID
+   * @param schema - Fields to compare
+   */
+  async getHistory<S extends ListSchema>(
+    list: string,
+    itemId: number,
+    schema: S
+  ): Promise<VersionDiff<S>[]> {
+    const versions = await this.getVersions(list, itemId, schema);
+    return versions.map((version, index) =>
+      this.diffVersions(schema, index > 0 ? versions[index - 1] : undefined, version)
+    );
+  }
+
+  /**
+   * Compare two versions by label, e.g. the submitted version with the approved one
+   * @param fromLabel - Earlier version label (e.g. "2.0")
+   * @param toLabel - Later version label; the current version when omitted
+   */
+  async compareVersions<S extends ListSchema>(
+    list: string,
+    itemId: number,
+    schema: S,
+    fromLabel: string,
+    toLabel?: string
+  ): Promise<VersionDiff<S>> {
+    const versions = await this.getVersions(list, itemId, schema);
+    const fromVersion = versions.find(version => version.versionLabel === fromLabel);
+    const toVersion = toLabel
+      ? versions.find(version => version.versionLabel === toLabel)
+      : versions.find(version => version.isCurrentVersion) ?? versions[versions.length - 1];
+
+    if (!fromVersion) {
+      throw new Error(`Version ${fromLabel} of item ${itemId} not found`);
+    }
+    if (!toVersion) {
+      throw new Error(`Version ${toLabel} of item ${itemId} not found`);
+    }
+    return this.diffVersions(schema, fromVersion, toVersion);
+  }
+
+  private getList(list: string): IList {
+    return GUID_PATTERN.test(list)
+      ? this.sp.web.lists.getById(list)
+      : this.sp.web.lists.getByTitle(list);
+  }
+}
+
+function toAuthor(editor: any): IVersionAuthor | undefined {
+  if (!editor) {
+    return undefined;
+  }
+  return {
+    id: editor.LookupId ?? editor.Id,
+    title: editor.LookupValue ?? editor.Title ?? '',
+    email: editor.Email ?? editor.EMail,
+  };
+}
+
+function isEmpty(...values: any[]): boolean {
+  return values.every(
+    value =>
+      value === null ||
+      value === undefined ||
+      value === '' ||
+      (Array.isArray(value) && value.length === 0)
+  );
+}
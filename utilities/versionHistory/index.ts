@@ -0,0 +1,34 @@
+// Export main class
+export { VersionHistoryService } from './VersionHistoryService';
+
+// Export types and interfaces
+export type {
+  IVersionHistoryConfig,
+  IVersionAuthor,
+  IItemVersion,
+  IFieldChange,
+  IVersionDiff,
+  ItemVersion,
+  VersionDiff,
+} from './types';
+
+// Export utility functions
+export { SYSTEM_FIELDS, readVersionField, normalizeVersionValue, formatFieldValue } from './utils';
+
+// Export main factory function
+import { SPFI } from '@pnp/sp';
+import { VersionHistoryService } from './VersionHistoryService';
+import { IVersionHistoryConfig } from './types';
+
+/**
+ * Factory function to create a new VersionHistoryService instance
+ * @param sp - PnP.js SP instance
+ * @param config - Optional configuration
+ * @returns VersionHistoryService instance
+ */
+export function createVersionHistoryService(
+  sp: SPFI,
+  config?: IVersionHistoryConfig
+): VersionHistoryService {
+  return new VersionHistoryService(sp, config);
+}
@@ -0,0 +1,65 @@
+import type { ISPTimeZone, ListModel, ListSchema, SPFieldKind } from '../listItemHelper';
+
+/**
+ * Version history service configuration
+ */
+export interface IVersionHistoryConfig {
+  /** Time zone of the web, for date-only fields (see loadSiteTimeZone) */
+  timeZone?: ISPTimeZone;
+  /** Internal names never reported as changed (default: system fields such as Modified) */
+  ignoreFields?: string[];
+}
+
+/**
+ * User who created a version
+ */
+export interface IVersionAuthor {
+  id?: number;
+  title: string;
+  email?: string;
+}
+
+/**
+ * One version of a list item, with values extracted through the schema
+ */
+export interface IItemVersion<T> {
+  versionId: number;
+  /** e.g. "3.0" */
+  versionLabel: string;
+  isCurrentVersion: boolean;
+  created: Date;
+  createdBy?: IVersionAuthor;
+  values: T;
+  /** Version as returned by SharePoint */
+  raw: Record<string, any>;
+}
+
+/**
+ * A field that differs between two versions
+ */
+export interface IFieldChange<T = any> {
+  property: keyof T & string;
+  internalName: string;
+  type: SPFieldKind;
+  oldValue: any;
+  newValue: any;
+  /** Display text of the old value */
+  oldText: string;
+  /** Display text of the new value */
+  newText: string;
+}
+
+/**
+ * Differences between two versions: who changed what, and when
+ */
+export interface IVersionDiff<T = any> {
+  /** Earlier version; undefined for the first version */
+  fromVersion?: IItemVersion<T>;
+  toVersion: IItemVersion<T>;
+  changedBy?: IVersionAuthor;
+  changedOn: Date;
+  changes: IFieldChange<T>[];
+}
+
+export type ItemVersion<S extends ListSchema> = IItemVersion<ListModel<S>>;
+export type VersionDiff<S extends ListSchema> = IVersionDiff<ListModel<S>>;
@@ -0,0 +1,110 @@
+import type { IFieldMapping } from '../listItemHelper';
+
+// Fields that change with every version
+export const SYSTEM_FIELDS = [
+  'ID',
+  'Id',
+  'Created',
+  'Modified',
+  'Author',
+  'Editor',
+  '_UIVersionString',
+  'OData__UIVersionString',
+  'VersionLabel',
+  'Owshiddenversion',
+];
+
+/**
+ * Read a field from a version; versions escape "_" in internal names as "_x005f_"
+ * and prefix names starting with "_" with "OData_"
+ */
+export function readVersionField(version: Record<string, any>, internalName: string): any {
+  const candidates = [
+    internalName,
+    internalName.replace(/_/g, '_x005f_'),
+    `OData_${internalName}`,
+    `OData_${internalName.replace(/_/g, '_x005f_')}`,
+  ];
+  const key = candidates.find(candidate => version[candidate] !== undefined);
+  return key !== undefined ? version[key] : undefined;
+}
+
+/**
+ * Convert version values to the shapes the extractor reads:
+ * user and lookup values ({ LookupId, LookupValue, Email }) become { ID, Title, EMail }
+ */
+export function normalizeVersionValue(value: any): any {
+  if (Array.isArray(value)) {
+    return value.map(normalizeVersionValue);
+  }
+  if (value && typeof value === 'object' && 'LookupId' in value) {
+    return { ID: value.LookupId, Title: value.LookupValue, EMail: value.Email };
+  }
+  return value;
+}
+
+/**
+ * Display text for an extracted value
+ */
+export function formatFieldValue(mapping: IFieldMapping, value: any): string {
+  if (value === null || value === undefined || value === '') {
+    return '';
+  }
+  if (Array.isArray(value)) {
+    return value
+      .map(entry => formatFieldValue({ ...mapping, type: singleType(mapping) }, entry))
+      .filter(text => text !== '')
+      .join(', ');
+  }
+
+  switch (mapping.type) {
+    case 'boolean':
+      return value ? 'Yes' : 'No';
+    case 'date':
+      return mapping.dateOnly ? value.toLocaleDateString() : value.toLocaleString();
+    case 'calculated':
+      return value instanceof Date ? value.toLocaleString() : String(value);
+    case 'user':
+      return value.title || value.email || String(value.id || '');
+    case 'lookup':
+      return value.title || String(value.id ?? '');
+    case 'taxonomy':
+      return value.label || value.termId || '';
+    case 'url':
+      return value.description ? `${value.description} (${value.url})` : value.url || '';
+    case 'location':
+      return value.displayName || '';
+    case 'image':
+      return value.fileName || value.serverRelativeUrl || '';
+    case 'richText':
+      return stripTags(String(value));
+    case 'json':
+      return typeof value === 'string' ? value : JSON.stringify(value);
+    default:
+      return String(value);
+  }
+}
+
+function singleType(mapping: IFieldMapping): IFieldMapping['type'] {
+  switch (mapping.type) {
+    case 'userMulti':
+      return 'user';
+    case 'lookupMulti':
+      return 'lookup';
+    case 'taxonomyMulti':
+      return 'taxonomy';
+    case 'multiChoice':
+      return 'choice';
+    default:
+      return mapping.type;
+  }
+}
+
+function stripTags(html: string): string {
+  return html
+    .replace(/<br\s*\/?>|<\/p>|<\/div>/gi, ' ')
+    .replace(/<[^>]+>/g, '')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}